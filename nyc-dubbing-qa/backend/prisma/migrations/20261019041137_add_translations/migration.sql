@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "Translation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "language" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "overallConfidence" REAL,
+    "context" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "videoId" TEXT NOT NULL,
+    CONSTRAINT "Translation_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "TranslationSegment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sourceSegmentId" INTEGER NOT NULL,
+    "startTime" REAL NOT NULL,
+    "endTime" REAL NOT NULL,
+    "originalText" TEXT NOT NULL,
+    "translatedText" TEXT NOT NULL,
+    "modelOutputs" JSONB NOT NULL,
+    "primaryModel" TEXT NOT NULL,
+    "mergeStrategy" TEXT NOT NULL,
+    "comparisonScore" REAL NOT NULL,
+    "confidence" REAL NOT NULL,
+    "qaStatus" TEXT NOT NULL DEFAULT 'NEEDS_REVIEW',
+    "approvedText" TEXT,
+    "reviewerNotes" TEXT,
+    "rejectionReason" TEXT,
+    "suggestedText" TEXT,
+    "reviewedAt" DATETIME,
+    "metadata" JSONB,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "translationId" TEXT NOT NULL,
+    "reviewedById" TEXT,
+    CONSTRAINT "TranslationSegment_translationId_fkey" FOREIGN KEY ("translationId") REFERENCES "Translation" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TranslationSegment_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Translation_videoId_language_key" ON "Translation"("videoId", "language");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranslationSegment_translationId_sourceSegmentId_key" ON "TranslationSegment"("translationId", "sourceSegmentId");
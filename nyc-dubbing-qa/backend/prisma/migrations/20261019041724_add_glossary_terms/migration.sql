@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "GlossaryTerm" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "language" TEXT NOT NULL,
+    "sourceTerm" TEXT NOT NULL,
+    "targetTerm" TEXT,
+    "doNotTranslate" BOOLEAN NOT NULL DEFAULT false,
+    "caseSensitive" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "projectId" TEXT NOT NULL,
+    CONSTRAINT "GlossaryTerm_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GlossaryTerm_projectId_language_sourceTerm_key" ON "GlossaryTerm"("projectId", "language", "sourceTerm");
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TranslationMemoryEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "language" TEXT NOT NULL,
+    "sourceText" TEXT NOT NULL,
+    "normalizedSource" TEXT NOT NULL,
+    "targetText" TEXT NOT NULL,
+    "usageCount" INTEGER NOT NULL DEFAULT 0,
+    "lastUsedAt" DATETIME,
+    "translationSegmentId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "projectId" TEXT NOT NULL,
+    CONSTRAINT "TranslationMemoryEntry_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranslationMemoryEntry_projectId_language_normalizedSource_key" ON "TranslationMemoryEntry"("projectId", "language", "normalizedSource");
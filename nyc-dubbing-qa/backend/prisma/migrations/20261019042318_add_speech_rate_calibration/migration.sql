@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "SpeechRateCalibration" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "language" TEXT NOT NULL,
+    "totalUnits" REAL NOT NULL,
+    "totalSeconds" REAL NOT NULL,
+    "sampleCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SpeechRateCalibration_language_key" ON "SpeechRateCalibration"("language");
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "TranslationBatch" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "languages" JSONB NOT NULL,
+    "options" JSONB,
+    "progress" REAL NOT NULL DEFAULT 0,
+    "totalItems" INTEGER NOT NULL,
+    "completedItems" INTEGER NOT NULL DEFAULT 0,
+    "failedItems" INTEGER NOT NULL DEFAULT 0,
+    "languageSummary" JSONB,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "TranslationBatchItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "videoId" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "progress" REAL NOT NULL DEFAULT 0,
+    "jobId" TEXT,
+    "translationId" TEXT,
+    "overallConfidence" REAL,
+    "segmentCount" INTEGER,
+    "error" TEXT,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "batchId" TEXT NOT NULL,
+    CONSTRAINT "TranslationBatchItem_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "TranslationBatch" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TranslationBatchItem_batchId_videoId_language_key" ON "TranslationBatchItem"("batchId", "videoId", "language");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Dubbing" ADD COLUMN "approvedAt" DATETIME;
+ALTER TABLE "Dubbing" ADD COLUMN "approvedBy" TEXT;
@@ -0,0 +1,22 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Dubbing" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "language" TEXT NOT NULL,
+    "voiceId" TEXT NOT NULL,
+    "audioUrl" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "metadata" JSONB,
+    "approvedAt" DATETIME,
+    "approvedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "videoId" TEXT NOT NULL,
+    CONSTRAINT "Dubbing_videoId_fkey" FOREIGN KEY ("videoId") REFERENCES "Video" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Dubbing" ("approvedAt", "approvedBy", "audioUrl", "createdAt", "id", "language", "metadata", "status", "updatedAt", "videoId", "voiceId") SELECT "approvedAt", "approvedBy", "audioUrl", "createdAt", "id", "language", "metadata", "status", "updatedAt", "videoId", "voiceId" FROM "Dubbing";
+DROP TABLE "Dubbing";
+ALTER TABLE "new_Dubbing" RENAME TO "Dubbing";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,40 @@
+import { logger } from '../utils/logger';
+
+export interface AgreementThresholds {
+  high: number; // at or above: accept model A without verification
+  moderate: number; // at or above: ask the judge to pick; below: flag for review
+}
+
+const DEFAULT_THRESHOLDS: AgreementThresholds = { high: 0.85, moderate: 0.6 };
+
+// Scripts without word spacing or with heavy affixation score lower for the
+// same level of agreement, so their bands sit slightly lower.
+const LANGUAGE_THRESHOLDS: Record<string, AgreementThresholds> = {
+  zh: { high: 0.8, moderate: 0.55 },
+  ko: { high: 0.8, moderate: 0.55 },
+  ar: { high: 0.8, moderate: 0.55 },
+  ur: { high: 0.8, moderate: 0.55 },
+  bn: { high: 0.82, moderate: 0.58 },
+};
+
+// AGREEMENT_THRESHOLDS='{"zh":{"high":0.75,"moderate":0.5}}' overrides per language
+const parseOverrides = (): Record<string, AgreementThresholds> => {
+  if (!process.env.AGREEMENT_THRESHOLDS) {
+    return {};
+  }
+  try {
+    return JSON.parse(process.env.AGREEMENT_THRESHOLDS);
+  } catch (error) {
+    logger.error('Invalid AGREEMENT_THRESHOLDS, using defaults', error);
+    return {};
+  }
+};
+
+const overrides = parseOverrides();
+
+export const getAgreementThresholds = (languageCode: string): AgreementThresholds => ({
+  ...DEFAULT_THRESHOLDS,
+  ...(overrides['*'] || {}),
+  ...(LANGUAGE_THRESHOLDS[languageCode] || {}),
+  ...(overrides[languageCode] || {}),
+});
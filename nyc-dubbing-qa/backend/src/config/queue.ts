@@ -7,6 +7,14 @@ const redisConfig = {
   password: process.env.REDIS_PASSWORD,
 };
 
+// Job names
+export const TRANSCRIPTION_JOB = 'transcribe';
+export const TRANSLATION_JOB = 'translate';
+export const CAPTION_ALIGNMENT_JOB = 'align-captions';
+export const RENDER_DUB_JOB = 'render-dub';
+export const MASTER_EXPORT_JOB = 'export-master';
+export const OPEN_CAPTION_JOB = 'burn-captions';
+
 // Create queues
 export const videoProcessingQueue = new Bull('video-processing', {
   redis: redisConfig,
@@ -16,8 +24,23 @@ export const videoProcessingQueue = new Bull('video-processing', {
       type: 'exponential',
       delay: 2000,
     },
-    removeOnComplete: true,
-    removeOnFail: false,
+    // Keep recent completed jobs so per-video status can report them
+    removeOnComplete: parseInt(process.env.QUEUE_KEEP_COMPLETED || '100'),
+    removeOnFail: parseInt(process.env.QUEUE_KEEP_FAILED || '500'),
+  },
+});
+
+export const translationQueue = new Bull('translation', {
+  redis: redisConfig,
+  defaultJobOptions: {
+    attempts: parseInt(process.env.QUEUE_MAX_RETRIES || '3'),
+    backoff: {
+      type: 'exponential',
+      delay: 2000,
+    },
+    // Batch records point at these jobs, so keep recent completed ones
+    removeOnComplete: parseInt(process.env.QUEUE_KEEP_COMPLETED || '100'),
+    removeOnFail: parseInt(process.env.QUEUE_KEEP_FAILED || '500'),
   },
 });
 
@@ -29,8 +52,9 @@ export const dubbingQueue = new Bull('dubbing', {
       type: 'exponential',
       delay: 2000,
     },
-    removeOnComplete: true,
-    removeOnFail: false,
+    // Dubbing rows record their render job, so keep recent completed ones
+    removeOnComplete: parseInt(process.env.QUEUE_KEEP_COMPLETED || '100'),
+    removeOnFail: parseInt(process.env.QUEUE_KEEP_FAILED || '500'),
   },
 });
 
@@ -43,7 +67,7 @@ export const reportGenerationQueue = new Bull('report-generation', {
       delay: 2000,
     },
     removeOnComplete: true,
-    removeOnFail: false,
+    removeOnFail: parseInt(process.env.QUEUE_KEEP_FAILED || '500'),
   },
 });
 
@@ -56,6 +80,14 @@ videoProcessingQueue.on('failed', (job, err) => {
   logger.error(`Video processing job ${job.id} failed:`, err);
 });
 
+translationQueue.on('completed', (job) => {
+  logger.info(`Translation job ${job.id} completed`);
+});
+
+translationQueue.on('failed', (job, err) => {
+  logger.error(`Translation job ${job.id} failed:`, err);
+});
+
 dubbingQueue.on('completed', (job) => {
   logger.info(`Dubbing job ${job.id} completed`);
 });
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import authService, { AuthError } from '../services/auth.service';
+import { AuthRequest } from '../middlewares/auth';
+import { logger } from '../utils/logger';
+import prisma from '../config/database';
+
+const fail = (res: Response, error: unknown, action: string) => {
+  if (error instanceof AuthError) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  logger.error(`${action} error:`, error);
+  return res.status(500).json({ success: false, error: `${action} failed` });
+};
+
+export const register = asyncHandler(async (req: Request, res: Response) => {
+  const { email, password, name } = req.body;
+
+  try {
+    const session = await authService.register(email, password, name);
+    return res.status(201).json({ success: true, data: session });
+  } catch (error) {
+    return fail(res, error, 'Registration');
+  }
+});
+
+export const login = asyncHandler(async (req: Request, res: Response) => {
+  const { email, password } = req.body;
+
+  try {
+    const session = await authService.login(email, password);
+    return res.json({ success: true, data: session });
+  } catch (error) {
+    return fail(res, error, 'Login');
+  }
+});
+
+export const refresh = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const session = await authService.refresh(req.body.refreshToken);
+    return res.json({ success: true, data: session });
+  } catch (error) {
+    return fail(res, error, 'Token refresh');
+  }
+});
+
+export const logout = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    await authService.logout(req.body.refreshToken);
+    return res.json({ success: true, data: { loggedOut: true } });
+  } catch (error) {
+    return fail(res, error, 'Logout');
+  }
+});
+
+export const getCurrentUser = asyncHandler(async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id },
+      select: { id: true, email: true, name: true, role: true },
+    });
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    return res.json({ success: true, data: user });
+  } catch (error) {
+    return fail(res, error, 'Get current user');
+  }
+});
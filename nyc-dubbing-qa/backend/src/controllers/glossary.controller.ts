@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import glossaryService, { GlossaryTermError } from '../services/glossary.service';
+import { logger } from '../utils/logger';
+import prisma from '../config/database';
+
+const projectExists = async (projectId: string) =>
+  !!(await prisma.project.findUnique({ where: { id: projectId }, select: { id: true } }));
+
+export const listGlossaryTerms = asyncHandler(async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const language = req.query.language as string | undefined;
+
+  try {
+    if (!(await projectExists(projectId))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+      });
+    }
+
+    const terms = await glossaryService.listTerms(projectId, language);
+
+    return res.json({
+      success: true,
+      data: terms,
+    });
+  } catch (error) {
+    logger.error('List glossary error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to list glossary terms',
+    });
+  }
+});
+
+export const createGlossaryTerm = asyncHandler(async (req: Request, res: Response) => {
+  const { projectId } = req.params;
+  const { language, sourceTerm, targetTerm, doNotTranslate, caseSensitive, notes } = req.body;
+
+  try {
+    if (!doNotTranslate && !targetTerm) {
+      return res.status(400).json({
+        success: false,
+        error: 'Target term is required unless the term is marked do-not-translate',
+      });
+    }
+
+    if (!(await projectExists(projectId))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Project not found',
+      });
+    }
+
+    const term = await glossaryService.createTerm(projectId, {
+      language,
+      sourceTerm,
+      targetTerm,
+      doNotTranslate,
+      caseSensitive,
+      notes,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: term,
+    });
+  } catch (error: any) {
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        error: 'A glossary term with this source term already exists for this language',
+      });
+    }
+    logger.error('Create glossary term error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to create glossary term',
+    });
+  }
+});
+
+export const updateGlossaryTerm = asyncHandler(async (req: Request, res: Response) => {
+  const { projectId, termId } = req.params;
+
+  try {
+    const term = await glossaryService.updateTerm(projectId, termId, req.body);
+
+    if (!term) {
+      return res.status(404).json({
+        success: false,
+        error: 'Glossary term not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: term,
+    });
+  } catch (error: any) {
+    if (error instanceof GlossaryTermError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message,
+      });
+    }
+    if (error.code === 'P2002') {
+      return res.status(409).json({
+        success: false,
+        error: 'A glossary term with this source term already exists for this language',
+      });
+    }
+    logger.error('Update glossary term error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to update glossary term',
+    });
+  }
+});
+
+export const deleteGlossaryTerm = asyncHandler(async (req: Request, res: Response) => {
+  const { projectId, termId } = req.params;
+
+  try {
+    const deleted = await glossaryService.deleteTerm(projectId, termId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Glossary term not found',
+      });
+    }
+
+    return res.json({
+      success: true,
+      message: 'Glossary term deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Delete glossary term error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to delete glossary term',
+    });
+  }
+});
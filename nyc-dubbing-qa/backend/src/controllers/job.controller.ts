@@ -0,0 +1,211 @@
+import { Request, Response } from 'express';
+import { Job, JobStatus } from 'bull';
+import { asyncHandler } from '../utils/asyncHandler';
+import jobService, { JobNotFoundError, JobStateError } from '../services/job.service';
+import transcriptionService from '../services/transcription.service';
+import batchTranslationService from '../services/batch-translation.service';
+import dubRenderService from '../services/dub-render.service';
+import masterExportService from '../services/master-export.service';
+import openCaptionService from '../services/open-caption.service';
+import {
+  TRANSCRIPTION_JOB,
+  TRANSLATION_JOB,
+  CAPTION_ALIGNMENT_JOB,
+  RENDER_DUB_JOB,
+  MASTER_EXPORT_JOB,
+  OPEN_CAPTION_JOB,
+} from '../config/queue';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { streamPipelineEvents } from '../utils/sse';
+
+const sendJobError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof JobNotFoundError) {
+    return res.status(404).json({ success: false, error: error.message });
+  }
+  if (error instanceof JobStateError) {
+    return res.status(409).json({ success: false, error: error.message });
+  }
+  logger.error(`${fallback}:`, error);
+  return res.status(500).json({ success: false, error: fallback });
+};
+
+// Keep Video.status, batch items and render/export state in step when a job is pulled from or put back on the queue
+const syncJobRecords = async (job: Job, event: 'cancelled' | 'retried') => {
+  if (job.name === TRANSCRIPTION_JOB && job.data?.videoId) {
+    if (event === 'cancelled') {
+      await transcriptionService.restoreVideoStatus(job.data.videoId);
+    } else {
+      await prisma.video.update({
+        where: { id: job.data.videoId },
+        data: { status: 'PROCESSING' },
+      });
+    }
+  }
+
+  if (job.name === CAPTION_ALIGNMENT_JOB && job.data?.videoId) {
+    await transcriptionService.updateAlignment(job.data.videoId, {
+      status: event === 'cancelled' ? 'cancelled' : 'queued',
+      error: null,
+    });
+  }
+
+  if (job.name === TRANSLATION_JOB && job.data?.itemId) {
+    await batchTranslationService.updateItem(job.data.itemId, {
+      status: event === 'cancelled' ? 'CANCELLED' : 'PENDING',
+      error: event === 'cancelled' ? 'Cancelled before it started' : null,
+      finishedAt: event === 'cancelled' ? new Date() : null,
+    });
+    await batchTranslationService.refresh(job.data.batchId);
+  }
+
+  if (job.name === RENDER_DUB_JOB && job.data?.dubbingId) {
+    await dubRenderService.updateRender(job.data.dubbingId, {
+      status: event === 'cancelled' ? 'cancelled' : 'queued',
+      error: null,
+    });
+  }
+
+  if (job.name === MASTER_EXPORT_JOB && job.data?.videoId) {
+    await masterExportService.updateExport(job.data.videoId, {
+      status: event === 'cancelled' ? 'cancelled' : 'queued',
+      error: null,
+    });
+  }
+
+  if (job.name === OPEN_CAPTION_JOB && job.data?.videoId) {
+    await openCaptionService.updateState(job.data.videoId, job.data.language, {
+      status: event === 'cancelled' ? 'cancelled' : 'queued',
+      error: null,
+    });
+  }
+};
+
+export const listJobs = asyncHandler(async (req: Request, res: Response) => {
+  const { queue, state, type, videoId, limit, offset } = req.query as Record<
+    string,
+    string | undefined
+  >;
+
+  try {
+    const { total, jobs } = await jobService.list({
+      queue,
+      states: state ? (state.split(',') as JobStatus[]) : undefined,
+      type,
+      videoId,
+      limit: limit ? parseInt(limit) : undefined,
+      offset: offset ? parseInt(offset) : undefined,
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        total,
+        jobs,
+        counts: await jobService.counts(),
+      },
+    });
+  } catch (error) {
+    return sendJobError(res, error, 'Failed to list jobs');
+  }
+});
+
+export const getJob = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const job = await jobService.get(req.params.jobId);
+    return res.json({
+      success: true,
+      data: await jobService.summarize(job),
+    });
+  } catch (error) {
+    return sendJobError(res, error, 'Failed to get job');
+  }
+});
+
+export const streamJobEvents = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const job = await jobService.get(req.params.jobId);
+    return streamPipelineEvents(
+      req,
+      res,
+      { jobId: jobService.publicId(job) },
+      await jobService.summarize(job)
+    );
+  } catch (error) {
+    return sendJobError(res, error, 'Failed to open event stream');
+  }
+});
+
+export const cancelJob = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const { job, removed } = await jobService.cancel(req.params.jobId);
+
+    // Running jobs restore the status themselves when they stop
+    if (removed) {
+      await syncJobRecords(job, 'cancelled');
+    }
+
+    return res.status(removed ? 200 : 202).json({
+      success: true,
+      data: {
+        id: jobService.publicId(job),
+        state: removed ? 'cancelled' : 'cancelling',
+      },
+    });
+  } catch (error) {
+    return sendJobError(res, error, 'Failed to cancel job');
+  }
+});
+
+export const retryJob = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const job = await jobService.retry(req.params.jobId);
+    await syncJobRecords(job, 'retried');
+
+    return res.json({
+      success: true,
+      data: await jobService.summarize(job),
+    });
+  } catch (error) {
+    return sendJobError(res, error, 'Failed to retry job');
+  }
+});
+
+export const updateJobPriority = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const job = await jobService.changePriority(req.params.jobId, req.body.priority);
+
+    // The re-queued job has a new id; batch items and render state must follow it
+    if (job.name === TRANSLATION_JOB && job.data?.itemId) {
+      await batchTranslationService.updateItem(job.data.itemId, {
+        jobId: jobService.publicId(job),
+      });
+    }
+    if (job.name === CAPTION_ALIGNMENT_JOB && job.data?.videoId) {
+      await transcriptionService.updateAlignment(job.data.videoId, {
+        jobId: jobService.publicId(job),
+      });
+    }
+    if (job.name === RENDER_DUB_JOB && job.data?.dubbingId) {
+      await dubRenderService.updateRender(job.data.dubbingId, { jobId: jobService.publicId(job) });
+    }
+    if (job.name === MASTER_EXPORT_JOB && job.data?.videoId) {
+      await masterExportService.updateExport(job.data.videoId, { jobId: jobService.publicId(job) });
+    }
+    if (job.name === OPEN_CAPTION_JOB && job.data?.videoId) {
+      await openCaptionService.updateState(job.data.videoId, job.data.language, {
+        jobId: jobService.publicId(job),
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        previousId: req.params.jobId,
+        ...(await jobService.summarize(job)),
+      },
+    });
+  } catch (error) {
+    return sendJobError(res, error, 'Failed to change job priority');
+  }
+});
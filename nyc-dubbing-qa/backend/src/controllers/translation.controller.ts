@@ -1,11 +1,101 @@
 import { Request, Response } from 'express';
+import { TranslationSegment } from '@prisma/client';
 import { asyncHandler } from '../utils/asyncHandler';
 import translationService from '../services/translation.service';
+import batchTranslationService from '../services/batch-translation.service';
+import videoTranslationService, {
+  formatQAStatus,
+  formatModelOutputs,
+  backTranslationEnabled,
+  requestedProviders,
+  segmentMetadata,
+  InvalidSegmentIdError,
+  toSourceSegmentId
+} from '../services/video-translation.service';
 import { logger } from '../utils/logger';
 import { AuthRequest } from '../middlewares/auth';
+import glossaryService from '../services/glossary.service';
+import translationMemoryService from '../services/translation-memory.service';
+import progressService from '../services/progress.service';
+import subtitleService, {
+  SubtitleFormat,
+  SUBTITLE_FORMATS,
+  UnsupportedSubtitleError
+} from '../services/subtitle.service';
+import prisma from '../config/database';
+
+const formatSegment = (segment: TranslationSegment) => {
+  const metadata = segmentMetadata(segment.metadata);
+  return {
+    id: segment.sourceSegmentId,
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    originalText: segment.originalText,
+    translatedText: segment.approvedText || segment.translatedText,
+    confidence: segment.confidence,
+    primaryModel: segment.primaryModel,
+    comparisonScore: segment.comparisonScore,
+    qaStatus: formatQAStatus(segment.qaStatus),
+    reviewerNotes: segment.reviewerNotes,
+    rejectionReason: segment.rejectionReason,
+    suggestedText: segment.suggestedText,
+    reviewedAt: segment.reviewedAt,
+    reviewedBy: segment.reviewedById,
+    glossaryViolations: metadata.glossaryViolations || [],
+    memoryMatch: metadata.memoryMatch || null,
+    timing: metadata.timing || null,
+    fitAttempts: metadata.fitAttempts || [],
+    backTranslation: metadata.backTranslation || null,
+    qaIssues: metadata.preservationIssues || [],
+    metadata: {
+      ...metadata,
+      models: segment.modelOutputs,
+      mergeStrategy: segment.mergeStrategy
+    }
+  };
+};
+
+/**
+ * Find the stored segment a reviewer is acting on
+ */
+const findTranslationSegment = async (videoId: string, language: string, sourceSegmentId: number) => {
+  const translation = await prisma.translation.findUnique({
+    where: { videoId_language: { videoId, language } }
+  });
+
+  if (!translation) {
+    return null;
+  }
+
+  return prisma.translationSegment.findUnique({
+    where: {
+      translationId_sourceSegmentId: {
+        translationId: translation.id,
+        sourceSegmentId
+      }
+    }
+  });
+};
+
+/**
+ * Promote the translation once every segment has been approved by a reviewer
+ */
+const refreshTranslationStatus = async (translationId: string) => {
+  const segments = await prisma.translationSegment.findMany({
+    where: { translationId },
+    select: { qaStatus: true, reviewedAt: true }
+  });
+
+  const allApproved = segments.every((s) => s.qaStatus === 'APPROVED' && s.reviewedAt);
+
+  await prisma.translation.update({
+    where: { id: translationId },
+    data: { status: allApproved ? 'APPROVED' : 'IN_REVIEW' }
+  });
+};
 
 export const translateVideo = asyncHandler(async (req: Request, res: Response) => {
-  const { videoId } = req.params;
+  const videoId = req.params.videoId || req.body.videoId;
   const { targetLanguage, context, segments } = req.body;
 
   try {
@@ -16,58 +106,64 @@ export const translateVideo = asyncHandler(async (req: Request, res: Response) =
       });
     }
 
-    logger.info(`Starting translation for video ${videoId} to ${targetLanguage}`);
+    const video = videoId
+      ? await prisma.video.findUnique({ where: { id: videoId }, include: { project: true } })
+      : null;
 
-    // Prepare segments for translation
-    const translationSegments = segments.map((seg: any) => ({
-      id: seg.id,
-      text: seg.text,
-      startTime: seg.startTime,
-      endTime: seg.endTime
-    }));
-
-    // Translate with dual models
-    const translations = await translationService.translateWithContext(
-      translationSegments,
-      targetLanguage,
-      context || {}
-    );
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        error: 'Video not found'
+      });
+    }
 
-    // Format response
-    const formattedTranslations = translations.map((trans, index) => ({
-      id: segments[index].id,
-      originalText: segments[index].text,
-      translatedText: trans.text,
-      confidence: trans.confidence,
-      primaryModel: trans.primaryModel,
-      comparisonScore: trans.comparisonScore,
-      qaStatus: trans.confidence > 0.9 ? 'approved' : 
-                trans.confidence > 0.8 ? 'needs-review' : 'flagged',
-      metadata: {
-        models: {
-          gpt4: trans.metadata.gpt4Result.translatedText,
-          gemini: trans.metadata.geminiResult.translatedText
-        },
-        mergeStrategy: trans.metadata.mergeStrategy,
-        estimatedDuration: trans.metadata.gpt4Result.metadata?.estimatedDuration
-      }
-    }));
+    let providers: string[];
+    try {
+      providers = translationService.resolveProviders(
+        requestedProviders(req.body, video.project.settings)
+      );
+    } catch (providerError: any) {
+      return res.status(400).json({
+        success: false,
+        error: providerError.message
+      });
+    }
 
-    // TODO: Save translations to database
+    logger.info(`Starting translation for video ${videoId} to ${targetLanguage}`);
+
+    // Segment and performance events reach /api/videos/:videoId/events while this request runs
+    const { translationId, translations, ...summary } = await progressService.runInContext(
+      { videoId, language: targetLanguage },
+      () => videoTranslationService.translateAndSave({
+        videoId,
+        projectId: video.projectId,
+        targetLanguage,
+        segments,
+        context,
+        providers,
+        backTranslate: backTranslationEnabled(req.body, video.project.settings),
+        contextWindow: req.body.contextWindow
+      })
+    );
 
     return res.json({
       success: true,
       data: {
         videoId,
+        translationId,
         targetLanguage,
-        segmentCount: formattedTranslations.length,
-        translations: formattedTranslations,
-        overallConfidence: 
-          formattedTranslations.reduce((acc, t) => acc + t.confidence, 0) / 
-          formattedTranslations.length
+        segmentCount: translations.length,
+        translations,
+        ...summary
       }
     });
   } catch (error) {
+    if (error instanceof InvalidSegmentIdError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
     logger.error('Translation error:', error);
     return res.status(500).json({
       success: false,
@@ -77,7 +173,8 @@ export const translateVideo = asyncHandler(async (req: Request, res: Response) =
 });
 
 export const retranslateSegment = asyncHandler(async (req: Request, res: Response) => {
-  const { videoId, segmentId } = req.params;
+  const videoId = req.params.videoId || req.body.videoId;
+  const segmentId = req.params.segmentId || req.body.segmentId;
   const { targetLanguage, context, originalText } = req.body;
 
   try {
@@ -88,18 +185,72 @@ export const retranslateSegment = asyncHandler(async (req: Request, res: Respons
       });
     }
 
+    const sourceSegmentId = toSourceSegmentId(segmentId);
+
+    const video = videoId
+      ? await prisma.video.findUnique({ where: { id: videoId }, include: { project: true } })
+      : null;
+
+    let providers: string[];
+    try {
+      providers = translationService.resolveProviders(
+        requestedProviders(req.body, video?.project.settings)
+      );
+    } catch (providerError: any) {
+      return res.status(400).json({
+        success: false,
+        error: providerError.message
+      });
+    }
+
+    const glossary = video ? await glossaryService.listTerms(video.projectId, targetLanguage) : [];
+
+    // The stored segment's window drives the duration check; fall back to the request
+    const stored = video ? await findTranslationSegment(videoId, targetLanguage, sourceSegmentId) : null;
+
+    // Neighbors from the stored translation give the segment its surrounding dialogue
+    const neighbors = stored
+      ? await prisma.translationSegment.findMany({
+        where: { translationId: stored.translationId },
+        orderBy: { startTime: 'asc' }
+      })
+      : [];
+
     logger.info(`Retranslating segment ${segmentId} for video ${videoId}`);
 
     // Retranslate single segment
     const [translation] = await translationService.translateWithContext(
       [{
-        id: parseInt(segmentId),
+        id: sourceSegmentId,
         text: originalText,
-        startTime: 0,
-        endTime: 5 // Default, should come from DB
+        startTime: stored?.startTime ?? req.body.startTime ?? 0,
+        endTime: stored?.endTime ?? req.body.endTime ?? 5
       }],
       targetLanguage,
-      context || {}
+      context || {},
+      {
+        providers,
+        glossary,
+        fitToDuration: req.body.fitToDuration,
+        contextWindow: req.body.contextWindow,
+        contextSegments: neighbors.length > 0
+          ? neighbors.map((n) => ({
+            id: n.sourceSegmentId,
+            // The segment being retranslated uses the text from the request
+            text: n.sourceSegmentId === sourceSegmentId ? originalText : n.originalText,
+            startTime: n.startTime,
+            endTime: n.endTime
+          }))
+          : undefined,
+        priorTranslations: Object.fromEntries(
+          neighbors.map((n) => [n.sourceSegmentId, n.approvedText || n.translatedText])
+        ),
+        backTranslate: backTranslationEnabled(req.body, video?.project.settings),
+        // Actual TTS length of the current take, when the client has generated audio
+        measuredDurations: req.body.measuredDuration
+          ? { [sourceSegmentId]: parseFloat(req.body.measuredDuration) }
+          : undefined
+      }
     );
 
     return res.json({
@@ -109,13 +260,21 @@ export const retranslateSegment = asyncHandler(async (req: Request, res: Respons
         translatedText: translation.text,
         confidence: translation.confidence,
         primaryModel: translation.primaryModel,
-        models: {
-          gpt4: translation.metadata.gpt4Result.translatedText,
-          gemini: translation.metadata.geminiResult.translatedText
-        }
+        glossaryViolations: translation.metadata.glossaryViolations || [],
+        timing: translation.metadata.timing || null,
+        fitAttempts: translation.metadata.fitAttempts || [],
+        backTranslation: translation.metadata.backTranslation || null,
+        qaIssues: translation.metadata.preservationIssues || [],
+        models: formatModelOutputs(translation)
       }
     });
   } catch (error) {
+    if (error instanceof InvalidSegmentIdError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
     logger.error('Retranslation error:', error);
     return res.status(500).json({
       success: false,
@@ -133,12 +292,165 @@ export const getSupportedLanguages = asyncHandler(async (req: Request, res: Resp
   });
 });
 
+export const getTranslationProviders = asyncHandler(async (req: Request, res: Response) => {
+  const providers = translationService.getProviders();
+
+  return res.json({
+    success: true,
+    data: providers
+  });
+});
+
+export const getVideoTranslations = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId } = req.params;
+
+  try {
+    const translations = await prisma.translation.findMany({
+      where: { videoId },
+      include: { _count: { select: { segments: true } } },
+      orderBy: { language: 'asc' }
+    });
+
+    return res.json({
+      success: true,
+      data: translations.map((t) => ({
+        translationId: t.id,
+        language: t.language,
+        status: t.status,
+        overallConfidence: t.overallConfidence,
+        segmentCount: t._count.segments,
+        updatedAt: t.updatedAt
+      }))
+    });
+  } catch (error) {
+    logger.error('Get translations error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get translations'
+    });
+  }
+});
+
+export const getTranslation = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId, language } = req.params;
+
+  try {
+    const translation = await prisma.translation.findUnique({
+      where: { videoId_language: { videoId, language } },
+      include: { segments: { orderBy: { sourceSegmentId: 'asc' } } }
+    });
+
+    if (!translation) {
+      return res.status(404).json({
+        success: false,
+        error: 'Translation not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        videoId,
+        translationId: translation.id,
+        targetLanguage: translation.language,
+        status: translation.status,
+        segmentCount: translation.segments.length,
+        translations: translation.segments.map(formatSegment),
+        overallConfidence: translation.overallConfidence,
+        updatedAt: translation.updatedAt
+      }
+    });
+  } catch (error) {
+    logger.error('Get translation error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get translation'
+    });
+  }
+});
+
+export const exportTranslationSubtitles = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId, language } = req.params;
+  const format = (req.query.format as SubtitleFormat) || 'srt';
+
+  try {
+    const cues = await subtitleService.getTranslationCues(videoId, language);
+    if (!cues) {
+      return res.status(404).json({
+        success: false,
+        error: 'Translation not found'
+      });
+    }
+
+    const subtitles = subtitleService.render(cues, format, {
+      language,
+      maxLineLength: req.query.maxLineLength ? parseInt(req.query.maxLineLength as string) : undefined,
+      maxLines: req.query.maxLines ? parseInt(req.query.maxLines as string) : undefined
+    });
+
+    res.attachment(`${videoId}_${language}.${SUBTITLE_FORMATS[format].extension}`);
+    return res.type(SUBTITLE_FORMATS[format].contentType).send(subtitles);
+  } catch (error) {
+    if (error instanceof UnsupportedSubtitleError) {
+      return res.status(422).json({ success: false, error: error.message });
+    }
+    logger.error('Export translation subtitles error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to export subtitles'
+    });
+  }
+});
+
 export const approveTranslation = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { videoId, segmentId } = req.params;
-  const { approvedText, reviewerNotes } = req.body;
+  const { language, approvedText, reviewerNotes } = req.body;
 
   try {
-    // TODO: Update translation in database
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: 'Language is required'
+      });
+    }
+
+    const segment = await findTranslationSegment(videoId, language, toSourceSegmentId(segmentId));
+
+    if (!segment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Translation segment not found'
+      });
+    }
+
+    const updated = await prisma.translationSegment.update({
+      where: { id: segment.id },
+      data: {
+        qaStatus: 'APPROVED',
+        approvedText: approvedText || segment.translatedText,
+        reviewerNotes,
+        rejectionReason: null,
+        reviewedAt: new Date(),
+        reviewedById: req.user?.id // From auth middleware
+      }
+    });
+
+    await refreshTranslationStatus(segment.translationId);
+
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      select: { projectId: true }
+    });
+    if (video) {
+      await translationMemoryService.addEntry(
+        video.projectId,
+        language,
+        updated.originalText,
+        updated.approvedText!,
+        updated.id
+      );
+    }
+
     logger.info(`Translation approved for segment ${segmentId} of video ${videoId}`);
 
     return res.json({
@@ -146,12 +458,19 @@ export const approveTranslation = asyncHandler(async (req: AuthRequest, res: Res
       data: {
         segmentId,
         status: 'approved',
-        approvedText,
-        approvedAt: new Date(),
-        approvedBy: req.user?.id // From auth middleware
+        approvedText: updated.approvedText,
+        reviewerNotes: updated.reviewerNotes,
+        approvedAt: updated.reviewedAt,
+        approvedBy: updated.reviewedById
       }
     });
   } catch (error) {
+    if (error instanceof InvalidSegmentIdError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
     logger.error('Approval error:', error);
     return res.status(500).json({
       success: false,
@@ -162,10 +481,39 @@ export const approveTranslation = asyncHandler(async (req: AuthRequest, res: Res
 
 export const rejectTranslation = asyncHandler(async (req: AuthRequest, res: Response) => {
   const { videoId, segmentId } = req.params;
-  const { reason, suggestedText } = req.body;
+  const { language, reason, suggestedText } = req.body;
 
   try {
-    // TODO: Update translation in database
+    if (!language) {
+      return res.status(400).json({
+        success: false,
+        error: 'Language is required'
+      });
+    }
+
+    const segment = await findTranslationSegment(videoId, language, toSourceSegmentId(segmentId));
+
+    if (!segment) {
+      return res.status(404).json({
+        success: false,
+        error: 'Translation segment not found'
+      });
+    }
+
+    const updated = await prisma.translationSegment.update({
+      where: { id: segment.id },
+      data: {
+        qaStatus: 'REJECTED',
+        approvedText: null,
+        rejectionReason: reason,
+        suggestedText,
+        reviewedAt: new Date(),
+        reviewedById: req.user?.id
+      }
+    });
+
+    await refreshTranslationStatus(segment.translationId);
+
     logger.info(`Translation rejected for segment ${segmentId} of video ${videoId}`);
 
     return res.json({
@@ -173,13 +521,19 @@ export const rejectTranslation = asyncHandler(async (req: AuthRequest, res: Resp
       data: {
         segmentId,
         status: 'rejected',
-        reason,
-        suggestedText,
-        rejectedAt: new Date(),
-        rejectedBy: req.user?.id
+        reason: updated.rejectionReason,
+        suggestedText: updated.suggestedText,
+        rejectedAt: updated.reviewedAt,
+        rejectedBy: updated.reviewedById
       }
     });
   } catch (error) {
+    if (error instanceof InvalidSegmentIdError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
     logger.error('Rejection error:', error);
     return res.status(500).json({
       success: false,
@@ -189,7 +543,7 @@ export const rejectTranslation = asyncHandler(async (req: AuthRequest, res: Resp
 });
 
 export const batchTranslate = asyncHandler(async (req: Request, res: Response) => {
-  const { videoIds, targetLanguages } = req.body;
+  const { videoIds, targetLanguages, context, providers, backTranslate, contextWindow, priority } = req.body;
 
   try {
     if (!Array.isArray(videoIds) || !Array.isArray(targetLanguages)) {
@@ -199,17 +553,31 @@ export const batchTranslate = asyncHandler(async (req: Request, res: Response) =
       });
     }
 
-    // TODO: Implement batch translation logic
-    // This would queue translation jobs for multiple videos and languages
+    const supported = translationService.getSupportedLanguages().map((lang) => lang.code);
+    const unsupported = targetLanguages.filter((code: string) => !supported.includes(code));
+    if (unsupported.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: `Unsupported target languages: ${unsupported.join(', ')}`
+      });
+    }
 
-    return res.json({
+    const batch = await batchTranslationService.createBatch({
+      videoIds,
+      languages: targetLanguages,
+      options: { context, providers, backTranslate, contextWindow },
+      priority
+    });
+
+    return res.status(202).json({
       success: true,
       data: {
-        jobId: 'batch_' + Date.now(),
-        videoCount: videoIds.length,
-        languageCount: targetLanguages.length,
-        status: 'queued',
-        estimatedCompletion: new Date(Date.now() + 3600000) // 1 hour estimate
+        batchId: batch.id,
+        status: batch.status,
+        totalItems: batch.totalItems,
+        failedItems: batch.failedItems,
+        jobIds: batch.items.filter((item) => item.jobId).map((item) => item.jobId),
+        items: batch.items
       }
     });
   } catch (error) {
@@ -219,4 +587,44 @@ export const batchTranslate = asyncHandler(async (req: Request, res: Response) =
       error: 'Failed to start batch translation'
     });
   }
-});
\ No newline at end of file
+});
+
+export const getBatch = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const batch = await batchTranslationService.get(req.params.batchId);
+
+    if (!batch) {
+      return res.status(404).json({
+        success: false,
+        error: 'Batch not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: batch
+    });
+  } catch (error) {
+    logger.error('Get batch error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get batch'
+    });
+  }
+});
+
+export const listBatches = asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+    return res.json({
+      success: true,
+      data: await batchTranslationService.list(limit)
+    });
+  } catch (error) {
+    logger.error('List batches error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to list batches'
+    });
+  }
+});
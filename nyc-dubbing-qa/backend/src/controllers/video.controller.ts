@@ -1,11 +1,25 @@
 import { Request, Response, NextFunction } from 'express';
 import { asyncHandler } from '../utils/asyncHandler';
-import whisperService from '../services/whisper.service';
+import diarizationService from '../services/diarization.service';
 import ffmpegService from '../services/ffmpeg.service';
+import jobService from '../services/job.service';
+import { videoProcessingQueue, TRANSCRIPTION_JOB, CAPTION_ALIGNMENT_JOB } from '../config/queue';
 import { logger } from '../utils/logger';
+import { streamPipelineEvents } from '../utils/sse';
+import subtitleService, {
+  SubtitleFormat,
+  SUBTITLE_FORMATS,
+  SubtitleParseError,
+  UnsupportedSubtitleError
+} from '../services/subtitle.service';
+import transcriptionService from '../services/transcription.service';
+import openCaptionService from '../services/open-caption.service';
+import authService from '../services/auth.service';
 import * as path from 'path';
 import * as fs from 'fs';
+import crypto from 'crypto';
 import prisma from '../config/database';
+import { Dubbing, Video } from '@prisma/client';
 
 interface MulterRequest extends Request {
   file?: Express.Multer.File;
@@ -39,7 +53,8 @@ const getOrCreateDefaultUser = async () => {
     user = await prisma.user.create({
       data: {
         email: 'default-user@example.com',
-        password: 'password', // This should be hashed in a real application
+        // Owns the default project only; a random password means nobody can sign in as it
+        password: await authService.hashPassword(crypto.randomBytes(32).toString('hex')),
         name: 'Default User',
       },
     });
@@ -136,77 +151,190 @@ export const uploadVideo = asyncHandler(async (req: MulterRequest, res: Response
 
 export const transcribeVideo = asyncHandler(async (req: Request, res: Response) => {
   const { videoId } = req.params;
-  const { language, prompt } = req.body;
-  let video: any;
+  const { language, prompt, resegment, rules, diarize, numSpeakers, maxSpeakers } = req.body;
+
   try {
-    // Get video from database
-    video = await prisma.video.findUnique({ where: { id: videoId } });
-    
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+
     if (!video || !fs.existsSync(video.originalUrl)) {
       return res.status(404).json({
         success: false,
         error: 'Video not found'
       });
     }
-    
-    const videoPath = path.resolve(video.originalUrl);
 
-    // Start transcription
-    logger.info(`Starting transcription for video ${videoId}`);
-    
-    // TODO: Queue this as a background job
-    const transcriptionResult = await whisperService.transcribeFile(videoPath, {
-      language,
-      prompt,
-      timestamp_granularities: ['segment', 'word']
-    });
-
-    // Format segments for UI
-    const formattedSegments = whisperService.formatSegmentsForUI(
-      transcriptionResult.segments
-    );
+    // A second request while one is queued or running joins the existing job
+    const pending = await videoProcessingQueue.getJobs(['waiting', 'active', 'delayed']);
+    const existing = pending.find(job => job?.name === TRANSCRIPTION_JOB && job.data.videoId === videoId);
+    if (existing) {
+      return res.status(202).json({
+        success: true,
+        data: {
+          videoId,
+          jobId: jobService.publicId(existing),
+          status: video.status
+        }
+      });
+    }
 
-    // Save to database
+    // Marked before queueing so a worker that fails fast cannot have FAILED overwritten
     await prisma.video.update({
       where: { id: videoId },
+      data: { status: 'PROCESSING' }
+    });
+
+    let job;
+    try {
+      job = await videoProcessingQueue.add(TRANSCRIPTION_JOB, {
+        videoId,
+        options: { language, prompt, resegment, rules, diarize, numSpeakers, maxSpeakers }
+      });
+    } catch (error) {
+      await prisma.video.update({
+        where: { id: videoId },
+        data: { status: video.status }
+      });
+      throw error;
+    }
+
+    logger.info(`Queued transcription job ${job.id} for video ${videoId}`);
+
+    return res.status(202).json({
+      success: true,
       data: {
-        metadata: {
-          ...(video.metadata as any),
-          transcription: {
-            language: transcriptionResult.language,
-            duration: transcriptionResult.duration,
-            fullText: transcriptionResult.text,
-            segments: formattedSegments,
-            createdAt: new Date()
-          }
-        }
+        videoId,
+        jobId: jobService.publicId(job),
+        status: 'PROCESSING'
       }
     });
+  } catch (error: any) {
+    logger.error('Transcription queue error:', error);
+    return res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to queue transcription'
+    });
+  }
+});
+
+export const importCaptions = asyncHandler(async (req: MulterRequest, res: Response) => {
+  const { videoId } = req.params;
+  const { format, language } = req.body;
+  // Multipart fields arrive as strings
+  const align = req.body.align === true || req.body.align === 'true';
+  const content: string | undefined = req.file ? req.file.buffer.toString('utf8') : req.body.content;
+
+  if (!content) {
+    return res.status(400).json({
+      success: false,
+      error: 'Upload a caption file as "captions" or send its text as "content"'
+    });
+  }
+
+  try {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        error: 'Video not found'
+      });
+    }
+
+    const summary = await transcriptionService.importCaptions(videoId, content, {
+      format,
+      filename: req.file?.originalname,
+      language
+    });
+
+    let alignment = null;
+    if (align) {
+      const job = await videoProcessingQueue.add(CAPTION_ALIGNMENT_JOB, { videoId });
+      alignment = { status: 'queued' as const, jobId: jobService.publicId(job) };
+      await transcriptionService.updateAlignment(videoId, { ...alignment, error: null });
+      logger.info(`Queued caption alignment job ${job.id} for video ${videoId}`);
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: {
+        ...summary,
+        source: 'import',
+        alignment
+      }
+    });
+  } catch (error) {
+    if (error instanceof SubtitleParseError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    logger.error('Caption import error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to import captions'
+    });
+  }
+});
+
+export const getVideoJobs = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId } = req.params;
+
+  try {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        error: 'Video not found'
+      });
+    }
 
-    // Clean up temporary audio files
-    await whisperService.cleanupTempFiles(videoPath);
+    const { jobs } = await jobService.list({ videoId, limit: 100 });
 
     return res.json({
       success: true,
       data: {
         videoId,
-        language: transcriptionResult.language,
-        duration: transcriptionResult.duration,
-        segmentCount: formattedSegments.length,
-        segments: formattedSegments
+        status: video.status,
+        jobs
       }
     });
-  } catch (error: any) {
-    logger.error('Transcription error:', error);
-    console.error('Detailed transcription error:', {
-      message: error.message,
-      stack: error.stack,
+  } catch (error) {
+    logger.error('Get video jobs error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get jobs'
+    });
+  }
+});
+
+// Server-Sent Events: transcription chunks, translated segments, TTS renders and job progress
+export const streamVideoEvents = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId } = req.params;
+
+  try {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        error: 'Video not found'
+      });
+    }
+
+    const { jobs } = await jobService.list({
       videoId,
-      videoPath: video?.originalUrl
+      states: ['active', 'waiting', 'delayed'],
+      limit: 100
     });
+
+    return streamPipelineEvents(req, res, { videoId }, {
+      videoId,
+      status: video.status,
+      jobs
+    });
+  } catch (error) {
+    logger.error('Stream video events error:', error);
     return res.status(500).json({
       success: false,
-      error: error.message || 'Failed to transcribe video'
+      error: 'Failed to open event stream'
     });
   }
 });
@@ -232,7 +360,8 @@ export const getTranscription = asyncHandler(async (req: Request, res: Response)
       data: {
         videoId: video.id,
         language: transcription.language,
-        segments: transcription.segments
+        segments: transcription.segments,
+        speakers: transcription.speakers || {}
       }
     });
   } catch (error) {
@@ -244,6 +373,39 @@ export const getTranscription = asyncHandler(async (req: Request, res: Response)
   }
 });
 
+export const exportTranscriptionSubtitles = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId } = req.params;
+  const format = (req.query.format as SubtitleFormat) || 'srt';
+
+  try {
+    const source = await subtitleService.getSource(videoId);
+    if (!source) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transcription not found'
+      });
+    }
+
+    const subtitles = subtitleService.render(source.cues, format, {
+      language: source.language,
+      maxLineLength: req.query.maxLineLength ? parseInt(req.query.maxLineLength as string) : undefined,
+      maxLines: req.query.maxLines ? parseInt(req.query.maxLines as string) : undefined
+    });
+
+    res.attachment(`${videoId}_source.${SUBTITLE_FORMATS[format].extension}`);
+    return res.type(SUBTITLE_FORMATS[format].contentType).send(subtitles);
+  } catch (error) {
+    if (error instanceof UnsupportedSubtitleError) {
+      return res.status(422).json({ success: false, error: error.message });
+    }
+    logger.error('Export transcription subtitles error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to export subtitles'
+    });
+  }
+});
+
 export const updateSegment = asyncHandler(async (req: Request, res: Response) => {
   const { videoId, segmentId } = req.params;
   const { text } = req.body;
@@ -299,6 +461,250 @@ export const updateSegment = asyncHandler(async (req: Request, res: Response) =>
   }
 });
 
+export const getSpeakers = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId } = req.params;
+
+  try {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const transcription = (video?.metadata as any)?.transcription;
+
+    if (!video || !transcription) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transcription not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        videoId,
+        speakers: transcription.speakers || {},
+        voiceMaps: (video.metadata as any)?.voiceMaps || {}
+      }
+    });
+  } catch (error) {
+    logger.error('Get speakers error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get speakers'
+    });
+  }
+});
+
+export const renameSpeaker = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId, speakerId } = req.params;
+  const { name } = req.body;
+
+  try {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const transcription = (video?.metadata as any)?.transcription;
+
+    if (!video || !transcription?.speakers?.[speakerId]) {
+      return res.status(404).json({
+        success: false,
+        error: 'Speaker not found'
+      });
+    }
+
+    transcription.speakers[speakerId].name = name;
+
+    await prisma.video.update({
+      where: { id: videoId },
+      data: {
+        metadata: {
+          ...(video.metadata as any),
+          transcription
+        }
+      }
+    });
+
+    logger.info(`Renamed speaker ${speakerId} for video ${videoId}`);
+
+    return res.json({
+      success: true,
+      data: {
+        speakerId,
+        ...transcription.speakers[speakerId]
+      }
+    });
+  } catch (error) {
+    logger.error('Rename speaker error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to rename speaker'
+    });
+  }
+});
+
+export const mergeSpeakers = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId } = req.params;
+  const { sourceSpeakerIds, targetSpeakerId } = req.body;
+
+  try {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const metadata = (video?.metadata as any) || {};
+    const transcription = metadata.transcription;
+
+    if (!video || !transcription?.speakers?.[targetSpeakerId]) {
+      return res.status(404).json({
+        success: false,
+        error: 'Speaker not found'
+      });
+    }
+
+    const merged = (sourceSpeakerIds as string[]).filter(
+      id => id !== targetSpeakerId && transcription.speakers[id]
+    );
+    if (merged.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No speakers to merge'
+      });
+    }
+
+    // Relabel segments, then rebuild counts so durations stay accurate
+    let relabeled = 0;
+    for (const segment of transcription.segments) {
+      if (merged.includes(segment.speaker)) {
+        segment.speaker = targetSpeakerId;
+        relabeled++;
+      }
+    }
+    transcription.speakers = diarizationService.buildSpeakerMap(
+      transcription.segments,
+      transcription.speakers
+    );
+
+    // Merged speakers no longer need their own voice
+    const voiceMaps = metadata.voiceMaps || {};
+    for (const map of Object.values(voiceMaps) as Array<Record<string, string>>) {
+      merged.forEach(id => delete map[id]);
+    }
+
+    await prisma.video.update({
+      where: { id: videoId },
+      data: {
+        metadata: {
+          ...metadata,
+          transcription,
+          voiceMaps
+        }
+      }
+    });
+
+    logger.info(`Merged speakers ${merged.join(', ')} into ${targetSpeakerId} for video ${videoId}`);
+
+    return res.json({
+      success: true,
+      data: {
+        targetSpeakerId,
+        mergedSpeakerIds: merged,
+        relabeledSegments: relabeled,
+        speakers: transcription.speakers
+      }
+    });
+  } catch (error) {
+    logger.error('Merge speakers error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to merge speakers'
+    });
+  }
+});
+
+export const burnCaptions = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId } = req.params;
+  const { language, style } = req.body;
+
+  try {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        error: 'Video not found'
+      });
+    }
+
+    const source = await openCaptionService.getCues(videoId, language);
+    if (!source?.cues.length) {
+      return res.status(409).json({
+        success: false,
+        error: `No ${language} captions to burn in; transcribe or translate first`
+      });
+    }
+
+    const queued = await openCaptionService.queue(videoId, language, style);
+    logger.info(`Queued open caption job ${queued.jobId} for video ${videoId} (${language})`);
+
+    return res.status(202).json({
+      success: true,
+      data: {
+        videoId,
+        language,
+        ...queued,
+        status: 'queued'
+      }
+    });
+  } catch (error) {
+    logger.error('Open caption queue error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to queue caption burn-in'
+    });
+  }
+});
+
+export const getOpenCaptions = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId } = req.params;
+
+  try {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      return res.status(404).json({
+        success: false,
+        error: 'Video not found'
+      });
+    }
+
+    return res.json({
+      success: true,
+      data: {
+        videoId,
+        openCaptions: (video.metadata as any)?.openCaptions || {}
+      }
+    });
+  } catch (error) {
+    logger.error('Get open captions error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to get open captions'
+    });
+  }
+});
+
+export const downloadOpenCaptions = asyncHandler(async (req: Request, res: Response) => {
+  const { videoId, language } = req.params;
+
+  try {
+    const file = await openCaptionService.findDownload(videoId, language);
+    if (!file) {
+      return res.status(404).json({
+        success: false,
+        error: `No captioned ${language} video yet; burn captions in first`
+      });
+    }
+
+    return res.download(file.path, file.filename);
+  } catch (error) {
+    logger.error('Open caption download error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to download captioned video'
+    });
+  }
+});
+
 export const getVideoThumbnail = asyncHandler(async (req: Request, res: Response) => {
   const { videoId } = req.params;
 
@@ -322,11 +728,30 @@ export const getVideoThumbnail = asyncHandler(async (req: Request, res: Response
   }
 });
 
+// Files produced from a video: dub tracks and their renders, the master export and burned-in captions
+const renderedFiles = (video: Video & { dubbings: Dubbing[] }): string[] => {
+  const metadata = (video.metadata as any) || {};
+  const files = [
+    video.processedUrl,
+    metadata.masterExport?.path,
+    ...Object.values(metadata.openCaptions || {}).map((state: any) => state?.path),
+    ...video.dubbings.flatMap((dubbing) => {
+      const { storagePath, render } = (dubbing.metadata as any) || {};
+      // Stored audio keeps its track metadata in a .json sidecar
+      return [storagePath, storagePath && `${storagePath}.json`, render?.videoPath];
+    })
+  ];
+  return [...new Set(files.filter((file): file is string => !!file))];
+};
+
 export const deleteVideo = asyncHandler(async (req: Request, res: Response) => {
   const { videoId } = req.params;
 
   try {
-    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      include: { dubbings: true }
+    });
 
     if (video) {
       if (fs.existsSync(video.originalUrl)) {
@@ -335,7 +760,12 @@ export const deleteVideo = asyncHandler(async (req: Request, res: Response) => {
       if (video.thumbnailUrl && fs.existsSync(video.thumbnailUrl)) {
         await fs.promises.unlink(video.thumbnailUrl);
       }
+      // Dubbings and translations are deleted with the row
       await prisma.video.delete({ where: { id: videoId } });
+
+      for (const file of renderedFiles(video)) {
+        await fs.promises.unlink(file).catch(() => undefined);
+      }
     }
     
     logger.info(`Deleted video ${videoId}`);
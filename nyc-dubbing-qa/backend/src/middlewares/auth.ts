@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { AppError } from './errorHandler';
+import authService from '../services/auth.service';
 
 export interface AuthRequest extends Request {
   user?: {
@@ -16,24 +17,25 @@ export const authenticate = async (
   next: NextFunction
 ) => {
   try {
-    const token = req.header('Authorization')?.replace('Bearer ', '');
+    // EventSource and download links cannot set headers, so GET requests may
+    // pass the access token as ?access_token=
+    const token =
+      req.header('Authorization')?.replace('Bearer ', '') ||
+      (req.method === 'GET' && typeof req.query.access_token === 'string'
+        ? req.query.access_token
+        : undefined);
 
     if (!token) {
       throw new AppError('Please authenticate', 401);
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-    
-    // Add user info to request
-    req.user = {
-      id: decoded.id,
-      email: decoded.email,
-      role: decoded.role
-    };
+    req.user = authService.verifyAccessToken(token);
 
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
+    if (error instanceof jwt.TokenExpiredError) {
+      next(new AppError('Token expired', 401));
+    } else if (error instanceof jwt.JsonWebTokenError) {
       next(new AppError('Invalid token', 401));
     } else {
       next(error);
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { logger } from '../utils/logger';
+import { logger, redactUrl } from '../utils/logger';
 
 export class AppError extends Error {
   statusCode: number;
@@ -27,7 +27,7 @@ export const errorHandler = (
   logger.error({
     error: err.message,
     stack: err.stack,
-    url: req.url,
+    url: redactUrl(req.url),
     method: req.method,
     ip: req.ip
   });
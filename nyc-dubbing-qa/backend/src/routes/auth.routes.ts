@@ -1,5 +1,14 @@
-import { Router, Request, Response } from 'express';
+import { Router } from 'express';
 import { body } from 'express-validator';
+import { validate } from '../middlewares/validation';
+import { authenticate } from '../middlewares/auth';
+import {
+  register,
+  login,
+  logout,
+  refresh,
+  getCurrentUser
+} from '../controllers/auth.controller';
 
 const router = Router();
 
@@ -8,26 +17,25 @@ router.post('/register', [
   body('email').isEmail().normalizeEmail(),
   body('password').isLength({ min: 6 }),
   body('name').trim().notEmpty()
-], (req: Request, res: Response) => {
-  res.json({ message: 'Register endpoint - to be implemented' });
-});
+], validate, register);
 
 // POST /api/auth/login
 router.post('/login', [
   body('email').isEmail().normalizeEmail(),
   body('password').notEmpty()
-], (req: Request, res: Response) => {
-  res.json({ message: 'Login endpoint - to be implemented' });
-});
+], validate, login);
 
 // POST /api/auth/logout
-router.post('/logout', (req, res) => {
-  res.json({ message: 'Logout endpoint - to be implemented' });
-});
+router.post('/logout', [
+  body('refreshToken').isString().notEmpty()
+], validate, logout);
 
 // POST /api/auth/refresh
-router.post('/refresh', (req, res) => {
-  res.json({ message: 'Refresh token endpoint - to be implemented' });
-});
+router.post('/refresh', [
+  body('refreshToken').isString().notEmpty()
+], validate, refresh);
 
-export default router;
\ No newline at end of file
+// GET /api/auth/me
+router.get('/me', authenticate, getCurrentUser);
+
+export default router;
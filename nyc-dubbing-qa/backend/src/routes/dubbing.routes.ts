@@ -1,33 +1,184 @@
 import { Router } from 'express';
+import { AuthRequest } from '../middlewares/auth';
 import audioService from '../services/elevenlabs.service';
+import durationService from '../services/duration.service';
+import progressService from '../services/progress.service';
+import dubTrackService, { DubClip, DubTrackResult } from '../services/dub-track.service';
+import dubRenderService from '../services/dub-render.service';
+import masterExportService from '../services/master-export.service';
+import jobService from '../services/job.service';
+import { dubbingQueue, RENDER_DUB_JOB } from '../config/queue';
+import prisma from '../config/database';
 import { logger } from '../utils/logger';
 
 const router = Router();
 
+/**
+ * Speaker -> voice for this language. Explicit choices win, then the map saved
+ * from an earlier run, then distinct voices from the catalogue, so a speaker
+ * keeps the same voice across regenerations.
+ */
+const resolveVoiceMap = async (
+  video: any,
+  language: string,
+  speakers: string[],
+  requested: Record<string, string> = {},
+  fallbackVoice: string
+): Promise<Record<string, string>> => {
+  const saved: Record<string, string> = (video?.metadata as any)?.voiceMaps?.[language] || {};
+  const voiceMap: Record<string, string> = {};
+  const unassigned: string[] = [];
+
+  for (const speaker of speakers) {
+    const voice = requested[speaker] || saved[speaker];
+    if (voice) {
+      voiceMap[speaker] = voice;
+    } else {
+      unassigned.push(speaker);
+    }
+  }
+
+  if (unassigned.length === 0) {
+    return voiceMap;
+  }
+
+  let catalogue: string[] = [];
+  if (speakers.length > 1) {
+    try {
+      const response: any = await audioService.getVoices();
+      catalogue = (response?.voices || [])
+        .map((voice: any) => voice.voiceId ?? voice.voice_id)
+        .filter(Boolean);
+    } catch (error) {
+      logger.warn('Could not fetch voices for speaker assignment', { error });
+    }
+  }
+
+  // The first unassigned speaker keeps the chosen voice; the rest get voices not yet in use
+  const available = catalogue.filter(voice => voice !== fallbackVoice && !Object.values(voiceMap).includes(voice));
+  unassigned.forEach((speaker, index) => {
+    voiceMap[speaker] = index === 0 && !Object.values(voiceMap).includes(fallbackVoice)
+      ? fallbackVoice
+      : available.shift() || fallbackVoice;
+  });
+
+  return voiceMap;
+};
+
 // POST /api/dubbing/generate-audio
 router.post('/generate-audio', async (req, res) => {
   try {
-    const { videoId, segments, voice, language } = req.body;
+    const { videoId, segments, voice, voices, language } = req.body;
     
     logger.info('Generating audio for video', { videoId, language, segmentCount: segments.length });
+
+    const video = videoId ? await prisma.video.findUnique({ where: { id: videoId } }) : null;
+    const speakers: string[] = [...new Set<string>(
+      segments.map((segment: any) => segment.speaker).filter(Boolean)
+    )];
+    const voiceMap = await resolveVoiceMap(video, language, speakers, voices, voice || 'default');
+
+    // Remember the assignment so regenerated segments keep their speaker's voice
+    if (video && speakers.length > 0) {
+      const metadata = (video.metadata as any) || {};
+      await prisma.video.update({
+        where: { id: video.id },
+        data: {
+          metadata: {
+            ...metadata,
+            voiceMaps: {
+              ...metadata.voiceMaps,
+              [language]: { ...metadata.voiceMaps?.[language], ...voiceMap }
+            }
+          }
+        }
+      });
+    }
     
-    const audioResults = await Promise.all(
+    let rendered = 0;
+    const clips: DubClip[] = [];
+    const audioResults = await progressService.runInContext({ videoId, language }, () => Promise.all(
       segments.map(async (segment: any) => {
-        const audio = await audioService.generateSpeech(segment.text, voice || 'default');
+        const segmentVoice = (segment.speaker && voiceMap[segment.speaker]) || voice || 'default';
+        const audio = await audioService.generateSpeech(segment.text, segmentVoice);
+
+        // Every real clip calibrates the speech rate used for duration estimates
+        let duration: number | null = null;
+        try {
+          duration = await durationService.recordSampleFromAudio(language, segment.text, audio);
+        } catch (error) {
+          logger.warn('Could not record speech rate sample', { segmentId: segment.id, error });
+        }
+
+        clips.push({
+          segmentId: segment.id,
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          audio,
+          speaker: segment.speaker,
+          voice: segmentVoice
+        });
+        rendered++;
+        progressService.publish({
+          type: 'tts.segment',
+          progress: Math.round((rendered / segments.length) * 100),
+          data: {
+            completed: rendered,
+            total: segments.length,
+            segmentId: segment.id,
+            speaker: segment.speaker,
+            voice: segmentVoice,
+            duration
+          }
+        });
+
         return {
           segmentId: segment.id,
+          speaker: segment.speaker,
+          voice: segmentVoice,
           audio: audio.toString('base64'),
           startTime: segment.startTime,
-          endTime: segment.endTime
+          endTime: segment.endTime,
+          duration
         };
       })
-    );
+    ));
+
+    // Clips stay in the response for per-segment playback; the track is the deliverable
+    let track: DubTrackResult | null = null;
+    let trackError: string | null = null;
+    if (video) {
+      try {
+        track = await progressService.runInContext({ videoId, language }, () =>
+          dubTrackService.assemble({
+            videoId,
+            language,
+            clips,
+            voiceId: voice || 'default',
+            voiceMap,
+            fitToWindow: req.body.fitToWindow,
+            tempoRange: { minTempo: req.body.minTempo, maxTempo: req.body.maxTempo }
+          })
+        );
+      } catch (error: any) {
+        logger.error('Dub track assembly error:', error);
+        trackError = error.message;
+      }
+    }
     
     res.json({
       success: true,
       data: {
         videoId,
         language,
+        voiceMap,
+        dubbingId: track?.dubbingId ?? null,
+        audioUrl: track?.audioUrl ?? null,
+        duration: track?.duration ?? null,
+        overlapCount: track?.overlapCount ?? 0,
+        overLimitCount: track?.overLimitCount ?? 0,
+        placements: track?.placements ?? [],
+        trackError,
         segments: audioResults
       }
     });
@@ -41,25 +192,220 @@ router.post('/generate-audio', async (req, res) => {
 });
 
 // GET /api/dubbing/:videoId/status
-router.get('/:videoId/status', (req, res) => {
-  // For now, return a simple status
-  res.json({
-    success: true,
-    data: {
-      videoId: req.params.videoId,
-      status: 'completed',
-      progress: 100
+router.get('/:videoId/status', async (req, res) => {
+  try {
+    const dubbings = await prisma.dubbing.findMany({
+      where: { videoId: req.params.videoId },
+      orderBy: { createdAt: 'desc' }
+    });
+    const video = await prisma.video.findUnique({ where: { id: req.params.videoId } });
+
+    res.json({
+      success: true,
+      data: {
+        videoId: req.params.videoId,
+        dubbings: dubbings.map((dubbing) => ({
+          dubbingId: dubbing.id,
+          language: dubbing.language,
+          status: dubbing.status,
+          audioUrl: dubbing.audioUrl,
+          approvedAt: dubbing.approvedAt,
+          render: (dubbing.metadata as any)?.render || null,
+          createdAt: dubbing.createdAt
+        })),
+        masterExport: (video?.metadata as any)?.masterExport || null
+      }
+    });
+  } catch (error: any) {
+    logger.error('Dubbing status error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get dubbing status'
+    });
+  }
+});
+
+// POST /api/dubbing/tracks/:dubbingId/approve
+router.post('/tracks/:dubbingId/approve', async (req: AuthRequest, res) => {
+  try {
+    const dubbing = await prisma.dubbing.findUnique({ where: { id: req.params.dubbingId } });
+    if (!dubbing) {
+      return res.status(404).json({ success: false, error: 'Dub track not found' });
     }
-  });
+    if (dubbing.status !== 'COMPLETED') {
+      return res.status(409).json({
+        success: false,
+        error: `Dub track is ${dubbing.status.toLowerCase()} and cannot be approved`
+      });
+    }
+
+    const approved = await prisma.dubbing.update({
+      where: { id: dubbing.id },
+      data: { approvedAt: new Date(), approvedBy: req.user?.id }
+    });
+
+    return res.json({
+      success: true,
+      data: {
+        dubbingId: approved.id,
+        language: approved.language,
+        approvedAt: approved.approvedAt
+      }
+    });
+  } catch (error: any) {
+    logger.error('Dub track approval error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to approve dub track'
+    });
+  }
 });
 
-// GET /api/dubbing/:videoId/download/:language
-router.get('/:videoId/download/:language', (req, res) => {
-  // This would normally fetch the generated audio file
-  res.json({
-    success: true,
-    message: 'Download endpoint - audio would be served here'
-  });
+// POST /api/dubbing/:videoId/render
+router.post('/:videoId/render', async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const { language, dubbingId, keepOriginalAudio } = req.body;
+
+    if (!language) {
+      return res.status(400).json({ success: false, error: 'language is required' });
+    }
+
+    const track = await dubRenderService.findApprovedTrack(videoId, language, dubbingId);
+    if (!track) {
+      return res.status(409).json({
+        success: false,
+        error: `No approved dub track for ${language}; approve one before rendering`
+      });
+    }
+
+    const job = await dubbingQueue.add(RENDER_DUB_JOB, {
+      videoId,
+      dubbingId: track.id,
+      language,
+      keepOriginalAudio: !!keepOriginalAudio
+    });
+    const jobId = jobService.publicId(job);
+    await dubRenderService.updateRender(track.id, {
+      status: 'queued',
+      jobId,
+      keepOriginalAudio: !!keepOriginalAudio,
+      error: null
+    });
+
+    return res.status(202).json({
+      success: true,
+      data: {
+        videoId,
+        language,
+        dubbingId: track.id,
+        jobId,
+        status: 'queued'
+      }
+    });
+  } catch (error: any) {
+    logger.error('Render dub error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to queue render'
+    });
+  }
+});
+
+// POST /api/dubbing/:videoId/master
+router.post('/:videoId/master', async (req, res) => {
+  try {
+    const { videoId } = req.params;
+    const { format, languages, includeOriginalAudio, includeSubtitles, approvedOnly } = req.body;
+
+    if (format && !['mkv', 'mp4'].includes(format)) {
+      return res.status(400).json({ success: false, error: 'format must be mkv or mp4' });
+    }
+    if (languages && !Array.isArray(languages)) {
+      return res.status(400).json({ success: false, error: 'languages must be an array' });
+    }
+
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      return res.status(404).json({ success: false, error: 'Video not found' });
+    }
+
+    const options = {
+      format,
+      languages,
+      includeOriginalAudio: includeOriginalAudio !== false,
+      includeSubtitles: !!includeSubtitles,
+      approvedOnly: !!approvedOnly
+    };
+    const tracks = await masterExportService.findTracks(videoId, options);
+    if (tracks.length === 0) {
+      return res.status(409).json({
+        success: false,
+        error: approvedOnly
+          ? 'No approved dub tracks to export'
+          : 'No completed dub tracks to export'
+      });
+    }
+
+    const queued = await masterExportService.queue(videoId, options);
+    return res.status(202).json({
+      success: true,
+      data: { ...queued, format: format || 'mkv', status: 'queued' }
+    });
+  } catch (error: any) {
+    logger.error('Master export error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to queue master export'
+    });
+  }
+});
+
+// GET /api/dubbing/:videoId/master/download
+router.get('/:videoId/master/download', async (req, res) => {
+  try {
+    const file = await masterExportService.findDownload(req.params.videoId);
+    if (!file) {
+      return res.status(404).json({
+        success: false,
+        error: 'No master export yet; export one first'
+      });
+    }
+
+    return res.download(file.path, file.filename);
+  } catch (error: any) {
+    logger.error('Master download error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to download master export'
+    });
+  }
+});
+
+// GET /api/dubbing/:videoId/download/:language?type=video|audio
+router.get('/:videoId/download/:language', async (req, res) => {
+  try {
+    const { videoId, language } = req.params;
+    const type = req.query.type === 'audio' ? 'audio' : 'video';
+
+    const file = await dubRenderService.findDownload(videoId, language, type);
+    if (!file) {
+      return res.status(404).json({
+        success: false,
+        error: type === 'video'
+          ? `No rendered ${language} video yet; render an approved dub track first`
+          : `No ${language} dub track yet`
+      });
+    }
+
+    return res.download(file.path, file.filename);
+  } catch (error: any) {
+    logger.error('Dub download error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to download dub'
+    });
+  }
 });
 
 // GET /api/dubbing/voices
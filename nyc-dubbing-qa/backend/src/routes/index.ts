@@ -6,6 +6,8 @@ import videoRoutes from './video.routes';
 import translationRoutes from './translation.routes';
 import dubbingRoutes from './dubbing.routes';
 import qaRoutes from './qa.routes';
+import jobRoutes from './job.routes';
+import { authenticate } from '../middlewares/auth';
 
 const router = Router();
 
@@ -14,12 +16,13 @@ router.get('/healthz', (_req, res) => res.json({ ok: true, when: new Date().toIS
 
 // Mount routes
 router.use('/auth', authRoutes);
-router.use('/users', userRoutes);
-router.use('/projects', projectRoutes);
-router.use('/videos', videoRoutes);
-router.use('/translation', translationRoutes);
-router.use('/dubbing', dubbingRoutes);
-router.use('/qa', qaRoutes);
+router.use('/users', authenticate, userRoutes);
+router.use('/projects', authenticate, projectRoutes);
+router.use('/videos', authenticate, videoRoutes);
+router.use('/translation', authenticate, translationRoutes);
+router.use('/dubbing', authenticate, dubbingRoutes);
+router.use('/qa', authenticate, qaRoutes);
+router.use('/jobs', authenticate, jobRoutes);
 
 // API documentation endpoint
 router.get('/', (req, res) => {
@@ -33,6 +36,7 @@ router.get('/', (req, res) => {
       videos: '/api/videos',
       dubbing: '/api/dubbing',
       qa: '/api/qa',
+      jobs: '/api/jobs',
       health: '/health'
     }
   });
@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { validate } from '../middlewares/validation';
+import {
+  listJobs,
+  getJob,
+  streamJobEvents,
+  cancelJob,
+  retryJob,
+  updateJobPriority,
+} from '../controllers/job.controller';
+
+const router = Router();
+
+// Jobs across all queues; ids look like "video-processing:42"
+router.get(
+  '/',
+  [
+    query('state')
+      .optional()
+      .matches(
+        /^(waiting|active|delayed|paused|completed|failed)(,(waiting|active|delayed|paused|completed|failed))*$/
+      ),
+    query('limit').optional().isInt({ min: 1, max: 500 }),
+    query('offset').optional().isInt({ min: 0 }),
+  ],
+  validate,
+  listJobs
+);
+router.get('/:jobId', getJob);
+router.get('/:jobId/events', streamJobEvents);
+
+// Control
+router.post('/:jobId/cancel', cancelJob);
+router.post('/:jobId/retry', retryJob);
+router.patch(
+  '/:jobId',
+  [body('priority').isInt({ min: 1, max: 2097152 }).toInt()],
+  validate,
+  updateJobPriority
+);
+
+export default router;
@@ -1,4 +1,14 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
+import { body } from 'express-validator';
+import { validate } from '../middlewares/validation';
+import {
+  listGlossaryTerms,
+  createGlossaryTerm,
+  updateGlossaryTerm,
+  deleteGlossaryTerm
+} from '../controllers/glossary.controller';
+import masterExportService from '../services/master-export.service';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -27,4 +37,59 @@ router.delete('/:id', (req, res) => {
   res.json({ message: 'Delete project endpoint - to be implemented' });
 });
 
+// GET /api/projects/:projectId/glossary?language=es
+router.get('/:projectId/glossary', listGlossaryTerms);
+
+// POST /api/projects/:projectId/glossary
+router.post('/:projectId/glossary', [
+  body('language').trim().notEmpty(),
+  body('sourceTerm').trim().notEmpty(),
+  body('targetTerm').optional({ values: 'null' }).isString(),
+  body('doNotTranslate').optional().isBoolean(),
+  body('caseSensitive').optional().isBoolean()
+], validate, createGlossaryTerm);
+
+// PUT /api/projects/:projectId/glossary/:termId
+router.put('/:projectId/glossary/:termId', [
+  body('language').optional().trim().notEmpty(),
+  body('sourceTerm').optional().trim().notEmpty(),
+  body('targetTerm').optional({ values: 'null' }).isString(),
+  body('doNotTranslate').optional().isBoolean(),
+  body('caseSensitive').optional().isBoolean()
+], validate, updateGlossaryTerm);
+
+// DELETE /api/projects/:projectId/glossary/:termId
+router.delete('/:projectId/glossary/:termId', deleteGlossaryTerm);
+
+// POST /api/projects/:projectId/master-exports
+router.post('/:projectId/master-exports', [
+  body('format').optional().isIn(['mkv', 'mp4']),
+  body('languages').optional().isArray(),
+  body('includeOriginalAudio').optional().isBoolean(),
+  body('includeSubtitles').optional().isBoolean(),
+  body('approvedOnly').optional().isBoolean()
+], validate, async (req: Request, res: Response) => {
+  try {
+    const { format, languages, includeOriginalAudio, includeSubtitles, approvedOnly } = req.body;
+    const exports = await masterExportService.queueForProject(req.params.projectId, {
+      format,
+      languages,
+      includeOriginalAudio: includeOriginalAudio !== false,
+      includeSubtitles: !!includeSubtitles,
+      approvedOnly: !!approvedOnly
+    });
+
+    return res.status(exports.length > 0 ? 202 : 200).json({
+      success: true,
+      data: { projectId: req.params.projectId, exports }
+    });
+  } catch (error: any) {
+    logger.error('Project master export error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to queue master exports'
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -1,7 +1,18 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
+import { body, query } from 'express-validator';
+import { validate } from '../middlewares/validation';
+import prisma from '../config/database';
+import captionQAService from '../services/caption-qa.service';
+import qaReportService from '../services/qa-report.service';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
+const parseLanguages = (value: unknown): string[] | undefined =>
+  typeof value === 'string' && value.trim()
+    ? value.split(',').map((language) => language.trim()).filter(Boolean)
+    : undefined;
+
 // POST /api/qa/review
 router.post('/review', (req, res) => {
   res.json({ message: 'Submit QA review endpoint - to be implemented' });
@@ -17,9 +28,51 @@ router.put('/reviews/:id', (req, res) => {
   res.json({ message: 'Update review endpoint - to be implemented' });
 });
 
+// GET /api/qa/captions/:videoId?languages=source,es
+router.get('/captions/:videoId', [
+  query('languages').optional().isString()
+], validate, async (req: Request, res: Response) => {
+  try {
+    const { videoId } = req.params;
+    const video = await prisma.video.findUnique({ where: { id: videoId }, select: { id: true } });
+    if (!video) {
+      return res.status(404).json({ success: false, error: 'Video not found' });
+    }
+
+    const results = await captionQAService.checkVideo(videoId, parseLanguages(req.query.languages));
+    return res.json({
+      success: true,
+      data: { videoId, languages: results }
+    });
+  } catch (error: any) {
+    logger.error('Caption QA error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to check captions'
+    });
+  }
+});
+
 // POST /api/qa/generate-report
-router.post('/generate-report', (req, res) => {
-  res.json({ message: 'Generate QA report endpoint - to be implemented' });
+router.post('/generate-report', [
+  body('videoId').isString(),
+  body('languages').optional().isArray(),
+  body('languages.*').isString()
+], validate, async (req: Request, res: Response) => {
+  try {
+    const report = await qaReportService.generate(req.body.videoId, req.body.languages);
+    if (!report) {
+      return res.status(404).json({ success: false, error: 'Video not found' });
+    }
+
+    return res.json({ success: true, data: report });
+  } catch (error: any) {
+    logger.error('QA report error:', error);
+    return res.status(500).json({
+      success: false,
+      error: 'Failed to generate QA report'
+    });
+  }
 });
 
 export default router;
\ No newline at end of file
@@ -1,11 +1,19 @@
 import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { validate } from '../middlewares/validation';
 import {
   translateVideo,
   retranslateSegment,
   getSupportedLanguages,
+  getTranslationProviders,
+  getVideoTranslations,
+  getTranslation,
+  exportTranslationSubtitles,
   approveTranslation,
   rejectTranslation,
-  batchTranslate
+  batchTranslate,
+  getBatch,
+  listBatches
 } from '../controllers/translation.controller';
 
 const router = Router();
@@ -14,12 +22,34 @@ const router = Router();
 router.post('/translate', translateVideo);
 router.post('/retranslate', retranslateSegment);
 router.get('/languages', getSupportedLanguages);
+router.get('/providers', getTranslationProviders);
+
+// Batch operations (before /:videoId so "batch" is not read as a video id)
+router.post('/batch', [
+  body('videoIds').isArray({ min: 1 }),
+  body('videoIds.*').isString(),
+  body('targetLanguages').isArray({ min: 1 }),
+  body('targetLanguages.*').isString(),
+  body('providers').optional().isArray(),
+  body('backTranslate').optional().isBoolean(),
+  body('priority').optional().isInt({ min: 1 }).toInt()
+], validate, batchTranslate);
+router.get('/batch', [
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], validate, listBatches);
+router.get('/batch/:batchId', getBatch);
+
+// Stored translations
+router.get('/:videoId', getVideoTranslations);
+router.get('/:videoId/:language', getTranslation);
+router.get('/:videoId/:language/subtitles', [
+  query('format').optional().isIn(['srt', 'vtt', 'ttml', 'scc']),
+  query('maxLineLength').optional().isInt({ min: 10, max: 80 }),
+  query('maxLines').optional().isInt({ min: 1, max: 4 })
+], validate, exportTranslationSubtitles);
 
 // QA endpoints
 router.post('/:videoId/segments/:segmentId/approve', approveTranslation);
 router.post('/:videoId/segments/:segmentId/reject', rejectTranslation);
 
-// Batch operations
-router.post('/batch', batchTranslate);
-
 export default router;
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import { body, query } from 'express-validator';
 import multer from 'multer';
 import path from 'path';
 import { authenticate } from '../middlewares/auth';
@@ -6,8 +7,18 @@ import { validate } from '../middlewares/validation';
 import { 
   uploadVideo, 
   transcribeVideo, 
+  importCaptions,
+  getVideoJobs,
+  streamVideoEvents,
   getTranscription,
+  exportTranscriptionSubtitles,
   updateSegment,
+  getSpeakers,
+  renameSpeaker,
+  mergeSpeakers,
+  burnCaptions,
+  getOpenCaptions,
+  downloadOpenCaptions,
   getVideoThumbnail,
   deleteVideo
 } from '../controllers/video.controller';
@@ -44,14 +55,62 @@ const upload = multer({
   }
 });
 
+// Caption files are small and parsed straight from memory
+const captionUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  }
+});
+
 // Video upload
 router.post('/upload', upload.single('video'), uploadVideo);
 
 // Transcription
 router.post('/:videoId/transcribe', transcribeVideo);
+router.post('/:videoId/transcription/import', captionUpload.single('captions'), [
+  body('format').optional().isIn(['srt', 'vtt', 'ttml']),
+  body('language').optional().isString().trim().notEmpty(),
+  body('content').optional().isString()
+], validate, importCaptions);
+router.get('/:videoId/jobs', getVideoJobs);
+router.get('/:videoId/events', streamVideoEvents);
 router.get('/:videoId/transcription', getTranscription);
+router.get('/:videoId/transcription/subtitles', [
+  query('format').optional().isIn(['srt', 'vtt', 'ttml', 'scc']),
+  query('maxLineLength').optional().isInt({ min: 10, max: 80 }),
+  query('maxLines').optional().isInt({ min: 1, max: 4 })
+], validate, exportTranscriptionSubtitles);
 router.put('/:videoId/transcription/segments/:segmentId', updateSegment);
 
+// Speakers
+router.get('/:videoId/speakers', getSpeakers);
+router.patch('/:videoId/speakers/:speakerId', [
+  body('name').trim().notEmpty()
+], validate, renameSpeaker);
+router.post('/:videoId/speakers/merge', [
+  body('sourceSpeakerIds').isArray({ min: 1 }),
+  body('sourceSpeakerIds.*').isString(),
+  body('targetSpeakerId').isString().notEmpty()
+], validate, mergeSpeakers);
+
+// Open (burned-in) captions; language "source" burns the transcript
+router.post('/:videoId/open-captions', [
+  body('language').isString().trim().notEmpty(),
+  body('style').optional().isObject(),
+  body('style.fontFamily').optional().isString().trim().notEmpty(),
+  body('style.fontSize').optional().isInt({ min: 12, max: 200 }).toInt(),
+  body('style.color').optional().matches(/^#[0-9a-fA-F]{6}$/),
+  body('style.bold').optional().isBoolean(),
+  body('style.box').optional().isBoolean(),
+  body('style.boxColor').optional().matches(/^#[0-9a-fA-F]{6}$/),
+  body('style.boxOpacity').optional().isFloat({ min: 0, max: 1 }).toFloat(),
+  body('style.position').optional().isIn(['bottom', 'top']),
+  body('style.safeArea').optional().isFloat({ min: 0, max: 25 }).toFloat()
+], validate, burnCaptions);
+router.get('/:videoId/open-captions', getOpenCaptions);
+router.get('/:videoId/open-captions/:language/download', downloadOpenCaptions);
+
 // Thumbnail
 router.get('/:videoId/thumbnail', getVideoThumbnail);
 
@@ -15,11 +15,19 @@ const PORT = Number(process.env.PORT) || 3001;
 console.log('🔑  OPENAI_API_KEY present =', !!process.env.OPENAI_API_KEY);
 
 const app = express();
+app.use(express.json());
 
 /* ----  API ROUTES  ---- */
 import routes from './routes';
+import { errorHandler } from './middlewares/errorHandler';
+import { startWorkers } from './workers';
 app.use('/api', routes);
 
+/* ----  Stored media (dub tracks), signed-in users only  ---- */
+import storageService from './services/storage.service';
+import { authenticate } from './middlewares/auth';
+app.use('/storage/audio', authenticate, express.static(storageService.getStoragePath('audio')));
+
 /* ----  React build  ---- */
 const rootDir = path.resolve(
   __dirname,
@@ -34,6 +42,11 @@ app.use((req, res, next) => {
   res.sendFile(path.join(frontendDist, 'index.html'));
 });
 
+app.use(errorHandler);
+
+/* ----  Queue workers  ---- */
+startWorkers();
+
 /* ----  Start server  ---- */
 app.listen(PORT, () => {
   console.log(`🚀  API + React listening ➜  http://localhost:${PORT}`);
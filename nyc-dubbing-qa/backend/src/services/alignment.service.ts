@@ -0,0 +1,241 @@
+import { transcriptionLogger as logger } from '../utils/logger';
+import { WhisperWord } from './whisper.service';
+
+export interface TimedSegment {
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+export interface AlignmentReport {
+  totalSegments: number;
+  /** Segments re-timed from matched words; the rest were shifted with their neighbours */
+  alignedSegments: number;
+  totalWords: number;
+  matchedWords: number;
+  /** Seconds, averaged over every segment's start */
+  meanShift: number;
+  maxShift: number;
+}
+
+interface Token {
+  text: string;
+  segment: number;
+}
+
+// How far (in words) the caption text may run ahead of or behind the audio
+const BAND = parseInt(process.env.ALIGNMENT_BAND_WORDS || '200');
+// A segment with fewer matched words than this share keeps a shifted timing
+const MIN_MATCH_RATIO = 0.3;
+const MIN_SEGMENT_DURATION = 0.2;
+
+export class AlignmentService {
+  /**
+   * Re-time caption segments against word timestamps recognised from the
+   * audio. Caption and recognised words are paired with a banded longest
+   * common subsequence, so a few misrecognised words do not derail it.
+   */
+  align<T extends TimedSegment>(
+    segments: T[],
+    words: WhisperWord[]
+  ): { segments: T[]; report: AlignmentReport } {
+    const tokens: Token[] = segments.flatMap((segment, index) =>
+      segment.text
+        .split(/\s+/)
+        .map((text) => ({ text: this.normalize(text), segment: index }))
+        .filter((token) => token.text)
+    );
+    const heard = words.map((word) => this.normalize(word.word));
+    const pairs = this.match(
+      tokens.map((token) => token.text),
+      heard
+    );
+
+    // First and last matched audio word per segment, and how many caption
+    // words fall outside them
+    const spans = segments.map(() => ({ first: -1, last: -1, matched: 0, before: 0, after: 0 }));
+    const tokenCounts = segments.map(() => 0);
+    tokens.forEach((token) => tokenCounts[token.segment]++);
+    let segmentStart = 0;
+    const firstToken = segments.map((_segment, index) => {
+      const start = segmentStart;
+      segmentStart += tokenCounts[index];
+      return start;
+    });
+    for (const [tokenIndex, wordIndex] of pairs) {
+      const segment = tokens[tokenIndex].segment;
+      const span = spans[segment];
+      const position = tokenIndex - firstToken[segment];
+      if (span.first < 0) {
+        span.first = wordIndex;
+        span.before = position;
+      }
+      span.last = wordIndex;
+      span.after = tokenCounts[segment] - position - 1;
+      span.matched++;
+    }
+
+    const anchored = spans.map(
+      (span, index) =>
+        span.matched > 0 && span.matched >= Math.ceil(tokenCounts[index] * MIN_MATCH_RATIO)
+    );
+
+    // Unmatched caption words at either end (often split or merged differently
+    // by the recogniser) take roughly one audio word each, up to the neighbours
+    let previousLast = -1;
+    spans.forEach((span, index) => {
+      if (!anchored[index]) {
+        return;
+      }
+      const nextFirst = spans.find((next, later) => later > index && anchored[later])?.first;
+      span.first = Math.max(span.first - span.before, previousLast + 1);
+      span.last = Math.min(span.last + span.after, (nextFirst ?? words.length) - 1);
+      previousLast = span.last;
+    });
+
+    const shifts = segments.map((segment, index) =>
+      anchored[index] ? words[spans[index].first].start - segment.startTime : null
+    );
+
+    const aligned = segments.map((segment, index) => {
+      if (anchored[index]) {
+        return {
+          ...segment,
+          startTime: words[spans[index].first].start,
+          endTime: Math.max(
+            words[spans[index].last].end,
+            words[spans[index].first].start + MIN_SEGMENT_DURATION
+          ),
+        };
+      }
+      const shift = this.interpolateShift(shifts, index);
+      return {
+        ...segment,
+        startTime: Math.max(segment.startTime + shift, 0),
+        endTime: Math.max(segment.endTime + shift, 0),
+      };
+    });
+
+    // Keep segments in order and off each other
+    for (let i = 1; i < aligned.length; i++) {
+      const previous = aligned[i - 1];
+      const current = aligned[i];
+      current.startTime = Math.max(current.startTime, previous.startTime);
+      if (previous.endTime > current.startTime) {
+        previous.endTime = Math.max(current.startTime, previous.startTime + MIN_SEGMENT_DURATION);
+        current.startTime = Math.max(current.startTime, previous.endTime);
+      }
+      current.endTime = Math.max(current.endTime, current.startTime + MIN_SEGMENT_DURATION);
+    }
+
+    const moved = aligned.map((segment, index) =>
+      Math.abs(segment.startTime - segments[index].startTime)
+    );
+    const report: AlignmentReport = {
+      totalSegments: segments.length,
+      alignedSegments: anchored.filter(Boolean).length,
+      totalWords: tokens.length,
+      matchedWords: pairs.length,
+      meanShift: moved.length ? moved.reduce((sum, value) => sum + value, 0) / moved.length : 0,
+      maxShift: moved.length ? Math.max(...moved) : 0,
+    };
+
+    logger.info('Caption timings aligned to audio', report);
+    return { segments: aligned, report };
+  }
+
+  /**
+   * Index pairs of a longest common subsequence, searched only within a band
+   * around the diagonal so memory stays linear in the transcript length
+   */
+  private match(caption: string[], heard: string[]): Array<[number, number]> {
+    const n = caption.length;
+    const m = heard.length;
+    if (n === 0 || m === 0) {
+      return [];
+    }
+
+    const width = 2 * BAND + 1;
+    const ratio = m / n;
+    const lowerBound = (i: number) => Math.max(Math.round(i * ratio) - BAND, 0);
+    // Lengths and moves for the band of each row; 0 = diagonal, 1 = up, 2 = left
+    const lengths = new Uint32Array((n + 1) * width);
+    const moves = new Uint8Array((n + 1) * width);
+    const at = (i: number, j: number) => {
+      const offset = j - lowerBound(i);
+      return offset >= 0 && offset < width ? i * width + offset : -1;
+    };
+    const length = (i: number, j: number) => {
+      if (i === 0 || j === 0) {
+        return 0;
+      }
+      const cell = at(i, j);
+      return cell < 0 ? 0 : lengths[cell];
+    };
+
+    for (let i = 1; i <= n; i++) {
+      const end = Math.min(lowerBound(i) + width - 1, m);
+      for (let j = Math.max(lowerBound(i), 1); j <= end; j++) {
+        const cell = at(i, j);
+        if (caption[i - 1] === heard[j - 1]) {
+          lengths[cell] = length(i - 1, j - 1) + 1;
+          moves[cell] = 0;
+        } else if (length(i - 1, j) >= length(i, j - 1)) {
+          lengths[cell] = length(i - 1, j);
+          moves[cell] = 1;
+        } else {
+          lengths[cell] = length(i, j - 1);
+          moves[cell] = 2;
+        }
+      }
+    }
+
+    // Walk back from the end of the last row
+    let i = n;
+    let j = Math.min(lowerBound(n) + width - 1, m);
+    const pairs: Array<[number, number]> = [];
+    while (i > 0 && j > 0) {
+      const cell = at(i, j);
+      if (cell < 0) {
+        // Outside the band: step towards it
+        if (j > lowerBound(i)) {
+          j--;
+        } else {
+          i--;
+        }
+        continue;
+      }
+      if (moves[cell] === 0 && caption[i - 1] === heard[j - 1]) {
+        pairs.push([i - 1, j - 1]);
+        i--;
+        j--;
+      } else if (moves[cell] === 1) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    return pairs.reverse();
+  }
+
+  /** Shift of the nearest anchored segments, blended by distance */
+  private interpolateShift(shifts: Array<number | null>, index: number): number {
+    let before = index - 1;
+    while (before >= 0 && shifts[before] === null) before--;
+    let after = index + 1;
+    while (after < shifts.length && shifts[after] === null) after++;
+
+    const previous = before >= 0 ? (shifts[before] as number) : null;
+    const next = after < shifts.length ? (shifts[after] as number) : null;
+    if (previous !== null && next !== null) {
+      return previous + ((next - previous) * (index - before)) / (after - before);
+    }
+    return previous ?? next ?? 0;
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  }
+}
+
+export default new AlignmentService();
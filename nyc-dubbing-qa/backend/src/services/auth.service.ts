@@ -0,0 +1,159 @@
+import crypto from 'crypto';
+import bcrypt from 'bcrypt';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { User } from '@prisma/client';
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { JWTPayload } from '../types';
+
+const ACCESS_TOKEN_TTL = (process.env.JWT_EXPIRES_IN || '15m') as SignOptions['expiresIn'];
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+const BCRYPT_ROUNDS = parseInt(process.env.BCRYPT_ROUNDS || '12');
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public statusCode = 401
+  ) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export type PublicUser = Pick<User, 'id' | 'email' | 'name' | 'role'>;
+
+export interface AuthSession {
+  user: PublicUser;
+  accessToken: string;
+  /** Opaque; exchanged once at /api/auth/refresh for a new pair */
+  refreshToken: string;
+  /** Seconds until the access token expires */
+  expiresIn: number;
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const toPublicUser = ({ id, email, name, role }: User): PublicUser => ({ id, email, name, role });
+
+const secret = () => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+  return process.env.JWT_SECRET;
+};
+
+export class AuthService {
+  private dummyHash?: Promise<string>;
+
+  hashPassword(password: string): Promise<string> {
+    return bcrypt.hash(password, BCRYPT_ROUNDS);
+  }
+
+  async register(email: string, password: string, name: string): Promise<AuthSession> {
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw new AuthError('An account with this email already exists', 409);
+    }
+
+    const user = await prisma.user.create({
+      data: { email, name, password: await this.hashPassword(password) },
+    });
+    logger.info('User registered', { userId: user.id });
+    return this.createSession(user);
+  }
+
+  async login(email: string, password: string): Promise<AuthSession> {
+    const user = await prisma.user.findUnique({ where: { email } });
+    // Compare against a throwaway hash when there is no user, so the response
+    // time does not reveal which emails have accounts
+    this.dummyHash ??= this.hashPassword(crypto.randomBytes(16).toString('hex'));
+    const valid = await bcrypt
+      .compare(password, user?.password || (await this.dummyHash))
+      .catch(() => false);
+    if (!user || !valid) {
+      throw new AuthError('Invalid email or password');
+    }
+    return this.createSession(user);
+  }
+
+  /**
+   * Trade a refresh token for a new access and refresh token. Each refresh
+   * token works once; presenting a used one means it leaked, so every
+   * session of that user is revoked.
+   */
+  async refresh(refreshToken: string): Promise<AuthSession> {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { user: true },
+    });
+    if (!stored) {
+      throw new AuthError('Invalid refresh token');
+    }
+    if (stored.expiresAt < new Date()) {
+      throw new AuthError('Refresh token expired');
+    }
+
+    // Claim the token before issuing its replacement, so two concurrent
+    // refreshes cannot both succeed
+    const claimed = await prisma.refreshToken.updateMany({
+      where: { id: stored.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      logger.warn('Revoked refresh token reused; revoking all sessions', {
+        userId: stored.userId,
+      });
+      await this.revokeAll(stored.userId);
+      throw new AuthError('Invalid refresh token');
+    }
+
+    return this.createSession(stored.user, stored.id);
+  }
+
+  /** Revoke one refresh token; unknown or already revoked tokens are ignored */
+  async logout(refreshToken: string): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { tokenHash: hashToken(refreshToken), revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  async revokeAll(userId: string): Promise<void> {
+    await prisma.refreshToken.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  verifyAccessToken(token: string): JWTPayload {
+    const { id, email, role } = jwt.verify(token, secret()) as JWTPayload;
+    return { id, email, role };
+  }
+
+  /** `replaces` is the refresh token this session was rotated from */
+  private async createSession(user: User, replaces?: string): Promise<AuthSession> {
+    const payload: JWTPayload = { id: user.id, email: user.email, role: user.role };
+    const accessToken = jwt.sign(payload, secret(), { expiresIn: ACCESS_TOKEN_TTL });
+    const { exp, iat } = jwt.decode(accessToken) as { exp: number; iat: number };
+
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    const stored = await prisma.refreshToken.create({
+      data: {
+        tokenHash: hashToken(refreshToken),
+        userId: user.id,
+        expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    if (replaces) {
+      await prisma.refreshToken.update({
+        where: { id: replaces },
+        data: { replacedBy: stored.id },
+      });
+    }
+
+    return { user: toPublicUser(user), accessToken, refreshToken, expiresIn: exp - iat };
+  }
+}
+
+export default new AuthService();
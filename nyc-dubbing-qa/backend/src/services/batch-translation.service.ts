@@ -0,0 +1,202 @@
+import { BatchItemStatus, BatchStatus, TranslationBatchItem } from '@prisma/client';
+import prisma from '../config/database';
+import { translationQueue, TRANSLATION_JOB } from '../config/queue';
+import { translationLogger as logger } from '../utils/logger';
+import jobService from './job.service';
+
+export interface BatchOptions {
+  context?: any;
+  providers?: string[];
+  backTranslate?: boolean;
+  contextWindow?: { before: number; after: number };
+}
+
+export interface BatchRequest {
+  videoIds: string[];
+  languages: string[];
+  options?: BatchOptions;
+  /** Bull priority for every job in the batch (1 is highest) */
+  priority?: number;
+}
+
+export interface TranslationJobData {
+  batchId: string;
+  itemId: string;
+  videoId: string;
+  language: string;
+  options: BatchOptions;
+}
+
+export interface LanguageSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  /** Mean overall confidence of the completed items, null until one completes */
+  overallConfidence: number | null;
+}
+
+const ACTIVE_STATUSES: BatchItemStatus[] = ['PENDING', 'RUNNING'];
+
+export class BatchTranslationService {
+  /**
+   * Record a batch and queue one job per (video, language) pair. Videos that
+   * are missing or have no transcription fail up front without stopping the rest.
+   */
+  async createBatch(request: BatchRequest) {
+    const videoIds = [...new Set(request.videoIds)];
+    const languages = [...new Set(request.languages)];
+    const options = request.options || {};
+
+    const videos = await prisma.video.findMany({ where: { id: { in: videoIds } } });
+    const rejection = new Map<string, string>();
+    for (const videoId of videoIds) {
+      const video = videos.find((v) => v.id === videoId);
+      if (!video) {
+        rejection.set(videoId, 'Video not found');
+      } else if (!(video.metadata as any)?.transcription?.segments?.length) {
+        rejection.set(videoId, 'Video has no transcription');
+      }
+    }
+
+    const batch = await prisma.translationBatch.create({
+      data: {
+        languages,
+        options: options as any,
+        totalItems: videoIds.length * languages.length,
+        items: {
+          create: videoIds.flatMap((videoId) =>
+            languages.map((language) => ({
+              videoId,
+              language,
+              status: rejection.has(videoId) ? ('FAILED' as const) : ('PENDING' as const),
+              error: rejection.get(videoId),
+              finishedAt: rejection.has(videoId) ? new Date() : undefined,
+            }))
+          ),
+        },
+      },
+      include: { items: true },
+    });
+
+    for (const item of batch.items.filter((i) => i.status === 'PENDING')) {
+      const data: TranslationJobData = {
+        batchId: batch.id,
+        itemId: item.id,
+        videoId: item.videoId,
+        language: item.language,
+        options,
+      };
+      try {
+        const job = await translationQueue.add(TRANSLATION_JOB, data, {
+          priority: request.priority,
+        });
+        await this.updateItem(item.id, { jobId: jobService.publicId(job) });
+      } catch (error: any) {
+        logger.error(`Could not queue translation of ${item.videoId} (${item.language})`, {
+          batchId: batch.id,
+          error: error.message,
+        });
+        await this.updateItem(item.id, {
+          status: 'FAILED',
+          error: `Could not queue job: ${error.message}`,
+          finishedAt: new Date(),
+        });
+      }
+    }
+
+    logger.info(`Queued translation batch ${batch.id}`, {
+      videos: videoIds.length,
+      languages: languages.length,
+      rejectedVideos: rejection.size,
+    });
+
+    return this.refresh(batch.id);
+  }
+
+  async get(batchId: string) {
+    return prisma.translationBatch.findUnique({
+      where: { id: batchId },
+      include: { items: { orderBy: [{ videoId: 'asc' }, { language: 'asc' }] } },
+    });
+  }
+
+  async list(limit = 20) {
+    return prisma.translationBatch.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  async updateItem(itemId: string, data: Partial<TranslationBatchItem>): Promise<void> {
+    await prisma.translationBatchItem.update({ where: { id: itemId }, data });
+  }
+
+  /**
+   * Recompute status, progress and per-language confidence from the items
+   */
+  async refresh(batchId: string) {
+    const batch = await this.get(batchId);
+    if (!batch) {
+      throw new Error(`Translation batch ${batchId} not found`);
+    }
+
+    const items = batch.items;
+    const count = (...statuses: BatchItemStatus[]) =>
+      items.filter((item) => statuses.includes(item.status)).length;
+
+    const completedItems = count('COMPLETED');
+    const failedItems = count('FAILED', 'CANCELLED');
+    const active = count(...ACTIVE_STATUSES);
+
+    let status: BatchStatus;
+    if (active > 0) {
+      status = count('RUNNING') === 0 && completedItems === 0 ? 'PENDING' : 'RUNNING';
+    } else if (failedItems === 0) {
+      status = 'COMPLETED';
+    } else {
+      status = completedItems === 0 ? 'FAILED' : 'PARTIAL';
+    }
+
+    const languageSummary: Record<string, LanguageSummary> = {};
+    for (const item of items) {
+      const summary = (languageSummary[item.language] ??= {
+        total: 0,
+        completed: 0,
+        failed: 0,
+        overallConfidence: null,
+      });
+      summary.total++;
+      if (item.status === 'COMPLETED') {
+        summary.completed++;
+        summary.overallConfidence =
+          ((summary.overallConfidence ?? 0) * (summary.completed - 1) +
+            (item.overallConfidence ?? 0)) /
+          summary.completed;
+      } else if (item.status === 'FAILED' || item.status === 'CANCELLED') {
+        summary.failed++;
+      }
+    }
+
+    // Finished items count as fully done, whatever the outcome
+    const progress =
+      items.reduce(
+        (acc, item) => acc + (ACTIVE_STATUSES.includes(item.status) ? item.progress : 100),
+        0
+      ) / Math.max(items.length, 1);
+
+    return prisma.translationBatch.update({
+      where: { id: batchId },
+      data: {
+        status,
+        progress: Math.round(progress * 10) / 10,
+        completedItems,
+        failedItems,
+        languageSummary: languageSummary as any,
+        completedAt: active === 0 ? (batch.completedAt ?? new Date()) : null,
+      },
+      include: { items: { orderBy: [{ videoId: 'asc' }, { language: 'asc' }] } },
+    });
+  }
+}
+
+export default new BatchTranslationService();
@@ -0,0 +1,203 @@
+import prisma from '../config/database';
+import { logger } from '../utils/logger';
+import { scriptOf } from '../utils/iso639';
+import { QAIssue } from '../types';
+import { SubtitleCue, wrap } from './subtitle.service';
+import openCaptionService, { SOURCE_LANGUAGE } from './open-caption.service';
+
+export interface CaptionQARules {
+  maxCharsPerSecond: number;
+  /** Seconds */
+  minDuration: number;
+  maxDuration: number;
+  maxLineLength: number;
+  maxLines: number;
+  /** Seconds between cues below which the screen visibly flickers */
+  minGap: number;
+}
+
+export interface CaptionQAResult {
+  /** "source" for the transcript, otherwise the translation's language */
+  language: string;
+  cueCount: number;
+  rules: CaptionQARules;
+  issues: QAIssue[];
+}
+
+// Defaults follow the DCMP Captioning Key: about 160 words a minute, two
+// lines of 32 characters (the CEA-608 row), on screen for 1.5 to 6 seconds
+const DEFAULT_RULES: CaptionQARules = {
+  maxCharsPerSecond: parseFloat(process.env.CAPTION_QA_MAX_CPS || '16'),
+  minDuration: parseFloat(process.env.CAPTION_QA_MIN_DURATION || '1.5'),
+  maxDuration: parseFloat(process.env.CAPTION_QA_MAX_DURATION || '6'),
+  maxLineLength: parseInt(process.env.CAPTION_QA_MAX_LINE_LENGTH || '32'),
+  maxLines: parseInt(process.env.CAPTION_QA_MAX_LINES || '2'),
+  minGap: parseInt(process.env.CAPTION_QA_MIN_GAP_FRAMES || '2') / (30000 / 1001),
+};
+
+// Each Hanzi or Hangul character carries more than a Latin letter, so lines
+// are shorter and fewer characters can be read a second
+const SCRIPT_RULES: Partial<Record<ReturnType<typeof scriptOf>, Partial<CaptionQARules>>> = {
+  Hans: { maxCharsPerSecond: 9, maxLineLength: 16 },
+  Kore: { maxCharsPerSecond: 12, maxLineLength: 16 },
+};
+
+// Reading speed this far over the limit is unreadable rather than just fast
+const SEVERE_CPS_FACTOR = 1.25;
+
+/** M:SS.s, for pointing reviewers at a cue */
+const clock = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(1).padStart(4, '0')}`;
+};
+
+export class CaptionQAService {
+  rulesFor(language?: string): CaptionQARules {
+    return { ...DEFAULT_RULES, ...SCRIPT_RULES[scriptOf(language)] };
+  }
+
+  /**
+   * Check cue timing and layout: reading speed, time on screen, line length
+   * and count as the captions would wrap, and the spacing between cues.
+   * Every finding is a `timing` issue stamped with the cue's start and end.
+   */
+  check(cues: SubtitleCue[], language?: string, label = language): QAIssue[] {
+    const rules = this.rulesFor(language);
+    const sorted = [...cues].sort((a, b) => a.startTime - b.startTime);
+    const issues: QAIssue[] = [];
+
+    sorted.forEach((cue, index) => {
+      const duration = cue.endTime - cue.startTime;
+      const where = `Caption ${cue.index} at ${clock(cue.startTime)}`;
+      const issue = (
+        rule: string,
+        severity: QAIssue['severity'],
+        description: string,
+        suggestedFix: string
+      ) =>
+        issues.push({
+          type: 'timing',
+          severity,
+          timestamp: cue.startTime,
+          endTime: cue.endTime,
+          language: label,
+          rule,
+          description: `${where} ${description}`,
+          suggestedFix,
+        });
+
+      if (duration < rules.minDuration) {
+        issue(
+          'min_duration',
+          duration <= 0 ? 'high' : 'medium',
+          `is on screen for ${duration.toFixed(2)}s (minimum ${rules.minDuration}s)`,
+          'Extend the caption or merge it with a neighbour'
+        );
+      } else if (duration > rules.maxDuration) {
+        issue(
+          'max_duration',
+          'low',
+          `stays on screen for ${duration.toFixed(1)}s (maximum ${rules.maxDuration}s)`,
+          'Split the caption or end it when the speech does'
+        );
+      }
+
+      const characters = [...cue.text.replace(/\s+/g, ' ').trim()].length;
+      const cps = duration > 0 ? characters / duration : Infinity;
+      if (duration > 0 && cps > rules.maxCharsPerSecond) {
+        issue(
+          'max_cps',
+          cps > rules.maxCharsPerSecond * SEVERE_CPS_FACTOR ? 'high' : 'medium',
+          `reads at ${cps.toFixed(1)} characters a second (maximum ${rules.maxCharsPerSecond})`,
+          'Condense the text or give the caption more time'
+        );
+      }
+
+      // Line breaks the captioner chose are kept; otherwise wrap as an export would
+      const given = cue.text.split(/\r?\n/).map((line) => line.trim());
+      const lines = given.length > 1 ? given : wrap(cue.text, rules.maxLineLength);
+      const longest = Math.max(0, ...lines.map((line) => [...line].length));
+      if (longest > rules.maxLineLength) {
+        issue(
+          'max_line_length',
+          'medium',
+          `has a ${longest}-character line (maximum ${rules.maxLineLength})`,
+          'Break the line or shorten the wording'
+        );
+      }
+      if (lines.length > rules.maxLines) {
+        issue(
+          'max_lines',
+          'medium',
+          `needs ${lines.length} lines (maximum ${rules.maxLines})`,
+          'Split the caption into consecutive cues'
+        );
+      }
+
+      const next = sorted[index + 1];
+      if (!next) {
+        return;
+      }
+      const gap = next.startTime - cue.endTime;
+      if (gap < 0) {
+        issue(
+          'overlap',
+          'high',
+          `overlaps caption ${next.index} by ${(-gap).toFixed(2)}s`,
+          `End the caption by ${clock(next.startTime)}`
+        );
+      } else if (gap > 0 && gap < rules.minGap) {
+        issue(
+          'min_gap',
+          'low',
+          `is followed by caption ${next.index} after only ${Math.round(gap * 1000)}ms`,
+          'Close the gap or widen it to at least two frames'
+        );
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Check the transcript and each translation of a video, or just the given
+   * languages. Languages with no captions are left out.
+   */
+  async checkVideo(videoId: string, languages?: string[]): Promise<CaptionQAResult[]> {
+    const requested =
+      languages ||
+      [SOURCE_LANGUAGE].concat(
+        (
+          await prisma.translation.findMany({
+            where: { videoId },
+            select: { language: true },
+            orderBy: { language: 'asc' },
+          })
+        ).map((translation) => translation.language)
+      );
+
+    const results: CaptionQAResult[] = [];
+    for (const language of requested) {
+      const captions = await openCaptionService.getCues(videoId, language);
+      if (!captions?.cues.length) {
+        continue;
+      }
+      const issues = this.check(captions.cues, captions.language, language);
+      results.push({
+        language,
+        cueCount: captions.cues.length,
+        rules: this.rulesFor(captions.language),
+        issues,
+      });
+    }
+
+    logger.info('Caption QA completed', {
+      videoId,
+      languages: results.map((result) => result.language),
+      issues: results.reduce((sum, result) => sum + result.issues.length, 0),
+    });
+    return results;
+  }
+}
+
+export default new CaptionQAService();
@@ -0,0 +1,74 @@
+import { transcriptionLogger as logger, logPerformance } from '../utils/logger';
+import diarizationRegistry, { DiarizationOptions, DiarizationSegment } from './diarization';
+
+export interface SpeakerInfo {
+  name: string;
+  segmentCount: number;
+  totalDuration: number;
+}
+
+export class DiarizationService {
+  /**
+   * Attach a speaker label to every transcript segment. Each segment takes the
+   * speaker whose turns overlap it the most.
+   */
+  async labelSegments<T extends DiarizationSegment>(
+    mediaPath: string,
+    segments: T[],
+    options: DiarizationOptions & { provider?: string } = {}
+  ): Promise<Array<T & { speaker: string }>> {
+    const startTime = Date.now();
+    const provider = diarizationRegistry.resolve(options.provider);
+    const turns = await provider.diarize(mediaPath, segments, options);
+
+    const labeled = segments.map((segment) => {
+      const overlap = new Map<string, number>();
+      for (const turn of turns) {
+        const shared =
+          Math.min(segment.endTime, turn.end) - Math.max(segment.startTime, turn.start);
+        if (shared > 0) overlap.set(turn.speaker, (overlap.get(turn.speaker) || 0) + shared);
+      }
+      const [speaker] = [...overlap.entries()].sort((a, b) => b[1] - a[1])[0] || ['SPEAKER_1'];
+      return { ...segment, speaker };
+    });
+
+    logPerformance('diarize', startTime, {
+      provider: provider.id,
+      segments: segments.length,
+      speakers: new Set(labeled.map((segment) => segment.speaker)).size,
+    });
+
+    return labeled;
+  }
+
+  /**
+   * Speaker list with display names, keeping names a reviewer already set
+   */
+  buildSpeakerMap(
+    segments: Array<DiarizationSegment & { speaker?: string }>,
+    existing: Record<string, { name: string }> = {}
+  ): Record<string, SpeakerInfo> {
+    const speakers: Record<string, SpeakerInfo> = {};
+
+    for (const segment of segments) {
+      if (!segment.speaker) continue;
+      const info = (speakers[segment.speaker] ??= {
+        name: existing[segment.speaker]?.name || this.defaultName(segment.speaker),
+        segmentCount: 0,
+        totalDuration: 0,
+      });
+      info.segmentCount++;
+      info.totalDuration += segment.endTime - segment.startTime;
+    }
+
+    logger.debug('Speaker map built', { speakers: Object.keys(speakers) });
+    return speakers;
+  }
+
+  private defaultName(speakerId: string): string {
+    const match = speakerId.match(/(\d+)$/);
+    return match ? `Speaker ${match[1]}` : speakerId;
+  }
+}
+
+export default new DiarizationService();
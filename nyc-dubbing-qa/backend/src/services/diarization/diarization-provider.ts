@@ -0,0 +1,35 @@
+export interface DiarizationSegment {
+  id: number;
+  startTime: number;
+  endTime: number;
+}
+
+export interface SpeakerTurn {
+  start: number;
+  end: number;
+  /** Provider label, e.g. "SPEAKER_1" */
+  speaker: string;
+}
+
+export interface DiarizationOptions {
+  /** Exact speaker count, when the producer knows it */
+  numSpeakers?: number;
+  maxSpeakers?: number;
+}
+
+/**
+ * A speaker diarization engine. Providers receive the transcript segments so
+ * segment-level engines can label them directly; frame-level engines may
+ * ignore them and return their own turns.
+ */
+export interface DiarizationProvider {
+  /** Registry key used in requests, e.g. "local" */
+  readonly id: string;
+
+  isAvailable(): boolean;
+  diarize(
+    mediaPath: string,
+    segments: DiarizationSegment[],
+    options: DiarizationOptions
+  ): Promise<SpeakerTurn[]>;
+}
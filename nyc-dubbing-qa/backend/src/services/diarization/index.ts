@@ -0,0 +1,63 @@
+import { transcriptionLogger as logger } from '../../utils/logger';
+import { DiarizationProvider } from './diarization-provider';
+import { LocalDiarizationProvider } from './local.provider';
+
+export * from './diarization-provider';
+
+const FALLBACK_PROVIDER = 'local';
+
+export class DiarizationProviderRegistry {
+  private providers = new Map<string, DiarizationProvider>();
+
+  register(provider: DiarizationProvider): void {
+    this.providers.set(provider.id, provider);
+    logger.info('Diarization provider registered', {
+      provider: provider.id,
+      available: provider.isAvailable(),
+    });
+  }
+
+  get(id: string): DiarizationProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): Array<{ id: string; available: boolean }> {
+    return [...this.providers.values()].map((provider) => ({
+      id: provider.id,
+      available: provider.isAvailable(),
+    }));
+  }
+
+  /**
+   * Requested providers must exist and be configured; the server default
+   * falls back to the local provider
+   */
+  resolve(requested?: string): DiarizationProvider {
+    if (requested) {
+      const provider = this.providers.get(requested);
+      if (!provider) {
+        throw new Error(`Unknown diarization provider: ${requested}`);
+      }
+      if (!provider.isAvailable()) {
+        throw new Error(`Diarization provider ${requested} is not configured`);
+      }
+      return provider;
+    }
+
+    const preferred = this.providers.get(process.env.DIARIZATION_PROVIDER || FALLBACK_PROVIDER);
+    if (preferred?.isAvailable()) {
+      return preferred;
+    }
+    logger.warn('Diarization provider unavailable, using fallback', {
+      requested: process.env.DIARIZATION_PROVIDER,
+      fallback: FALLBACK_PROVIDER,
+    });
+    return this.providers.get(FALLBACK_PROVIDER)!;
+  }
+}
+
+export const diarizationRegistry = new DiarizationProviderRegistry();
+
+diarizationRegistry.register(new LocalDiarizationProvider());
+
+export default diarizationRegistry;
@@ -0,0 +1,349 @@
+import * as fs from 'fs';
+import { DiarizationSegment, DiarizationOptions, SpeakerTurn } from './diarization-provider';
+
+export const SAMPLE_RATE = 16000;
+const FRAME_SIZE = 512; // 32 ms
+const HOP_SIZE = 320; // 20 ms
+const MEL_BANDS = 24;
+const MIN_VOICED_FRAMES = 10;
+// Frames sampled for the energy gate are this far apart (80 ms)
+const GATE_STRIDE = HOP_SIZE * 4;
+// Samples read per block while scanning the whole file (about 20 s)
+const SCAN_BLOCK = GATE_STRIDE * 256;
+
+// Cosine distance above which two clusters are treated as different speakers
+const CLUSTER_THRESHOLD = parseFloat(process.env.DIARIZATION_THRESHOLD || '0.6');
+
+export interface VoiceAnalysisRequest {
+  /** Mono 32-bit float PCM at SAMPLE_RATE */
+  pcmPath: string;
+  segments: DiarizationSegment[];
+  options: DiarizationOptions;
+}
+
+/**
+ * The local provider's analysis. Each transcript segment is summarized by the
+ * mean and spread of its log mel spectrum over voiced frames (a crude voice
+ * timbre embedding), and segments are grouped with average-link agglomerative
+ * clustering. Samples are read from the decoded file one segment at a time, so
+ * memory stays flat however long the video is.
+ */
+export class VoiceAnalyzer {
+  private melFilters = this.buildMelFilters();
+  private window = Float32Array.from(
+    { length: FRAME_SIZE },
+    (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1))
+  );
+
+  async analyze({ pcmPath, segments, options }: VoiceAnalysisRequest): Promise<SpeakerTurn[]> {
+    const file = await fs.promises.open(pcmPath, 'r');
+    try {
+      const totalSamples = (await file.stat()).size / 4;
+      const energyGate = await this.energyGate(file, totalSamples);
+
+      const embeddings: Array<number[] | null> = [];
+      for (const segment of segments) {
+        const first = Math.floor(segment.startTime * SAMPLE_RATE);
+        const end = Math.min(Math.floor(segment.endTime * SAMPLE_RATE), totalSamples);
+        embeddings.push(
+          end - first >= FRAME_SIZE
+            ? this.embed(await this.readSamples(file, first, end - first), energyGate)
+            : null
+        );
+      }
+
+      return this.label(segments, this.cluster(this.normalizeEmbeddings(embeddings), options));
+    } finally {
+      await file.close();
+    }
+  }
+
+  private label(segments: DiarizationSegment[], clusterOf: number[]): SpeakerTurn[] {
+    // Segments too quiet to embed (laughter, one-word replies) join the previous speaker
+    let previous = clusterOf.find((cluster) => cluster !== -1) ?? 0;
+    const assigned = clusterOf.map((cluster) => {
+      if (cluster !== -1) previous = cluster;
+      return previous;
+    });
+
+    // Number speakers in order of first appearance
+    const labels = new Map<number, string>();
+    for (const cluster of assigned) {
+      if (!labels.has(cluster)) labels.set(cluster, `SPEAKER_${labels.size + 1}`);
+    }
+
+    return segments.map((segment, index) => ({
+      start: segment.startTime,
+      end: segment.endTime,
+      speaker: labels.get(assigned[index])!,
+    }));
+  }
+
+  /**
+   * Mean and spread of the log mel bands over the voiced frames of one
+   * segment's samples, or null when too few frames are voiced
+   */
+  private embed(samples: Float32Array, energyGate: number): number[] | null {
+    const last = samples.length - FRAME_SIZE;
+    const sums = new Float64Array(MEL_BANDS);
+    const squares = new Float64Array(MEL_BANDS);
+    let voiced = 0;
+
+    for (let offset = 0; offset <= last; offset += HOP_SIZE) {
+      const frame = samples.subarray(offset, offset + FRAME_SIZE);
+      if (this.rms(frame) < energyGate) continue;
+
+      const bands = this.logMel(frame);
+      // Remove overall loudness so distance to the microphone matters less
+      const mean = bands.reduce((acc, value) => acc + value, 0) / MEL_BANDS;
+      for (let b = 0; b < MEL_BANDS; b++) {
+        const value = bands[b] - mean;
+        sums[b] += value;
+        squares[b] += value * value;
+      }
+      voiced++;
+    }
+
+    if (voiced < MIN_VOICED_FRAMES) {
+      return null;
+    }
+
+    const means = Array.from(sums, (sum) => sum / voiced);
+    const deviations = Array.from(squares, (square, b) =>
+      Math.sqrt(Math.max(square / voiced - means[b] * means[b], 0))
+    );
+    return [...means, ...deviations];
+  }
+
+  /**
+   * Z-score each dimension across segments so no single band dominates
+   */
+  private normalizeEmbeddings(embeddings: Array<number[] | null>): Array<number[] | null> {
+    const present = embeddings.filter((embedding): embedding is number[] => embedding !== null);
+    if (present.length < 2) {
+      return embeddings;
+    }
+
+    const dimensions = present[0].length;
+    const mean = new Array(dimensions).fill(0);
+    const deviation = new Array(dimensions).fill(0);
+    for (const embedding of present) {
+      embedding.forEach((value, d) => (mean[d] += value / present.length));
+    }
+    for (const embedding of present) {
+      embedding.forEach((value, d) => (deviation[d] += (value - mean[d]) ** 2 / present.length));
+    }
+
+    return embeddings.map((embedding) =>
+      embedding
+        ? embedding.map((value, d) => (value - mean[d]) / (Math.sqrt(deviation[d]) || 1))
+        : null
+    );
+  }
+
+  /**
+   * Average-link agglomerative clustering on cosine distance. Returns a
+   * cluster index per embedding, -1 where there was no embedding.
+   *
+   * Pairwise distances are computed once into a matrix; after each merge the
+   * merged row is the size-weighted mean of the two old rows (Lance-Williams),
+   * and each cluster caches its nearest neighbour so finding the closest pair
+   * is a scan over clusters rather than over pairs.
+   */
+  private cluster(embeddings: Array<number[] | null>, options: DiarizationOptions): number[] {
+    const members = embeddings.flatMap((embedding, index) => (embedding ? [index] : []));
+    const n = members.length;
+    const distance = new Float64Array(n * n);
+    for (let a = 0; a < n; a++) {
+      for (let b = a + 1; b < n; b++) {
+        const d = this.cosineDistance(embeddings[members[a]]!, embeddings[members[b]]!);
+        distance[a * n + b] = d;
+        distance[b * n + a] = d;
+      }
+    }
+
+    const size = new Array<number>(n).fill(1);
+    // Row of the cluster each point currently belongs to
+    const owner = Array.from({ length: n }, (_, i) => i);
+    const active = new Array<boolean>(n).fill(true);
+    const nearest = new Array<number>(n).fill(-1);
+    const nearestDistance = new Array<number>(n).fill(Infinity);
+    const findNearest = (a: number) => {
+      nearest[a] = -1;
+      nearestDistance[a] = Infinity;
+      for (let b = 0; b < n; b++) {
+        if (b !== a && active[b] && distance[a * n + b] < nearestDistance[a]) {
+          nearest[a] = b;
+          nearestDistance[a] = distance[a * n + b];
+        }
+      }
+    };
+    for (let a = 0; a < n; a++) findNearest(a);
+
+    const target = options.numSpeakers;
+    const max = options.maxSpeakers ?? Infinity;
+    let remaining = n;
+
+    while (remaining > 1 && (!target || remaining > target)) {
+      let a = -1;
+      for (let i = 0; i < n; i++) {
+        if (active[i] && (a === -1 || nearestDistance[i] < nearestDistance[a])) a = i;
+      }
+      const b = nearest[a];
+
+      const forced = !!target || remaining > max;
+      if (!forced && nearestDistance[a] > CLUSTER_THRESHOLD) break;
+
+      // Fold b into a
+      for (let k = 0; k < n; k++) {
+        if (!active[k] || k === a || k === b) continue;
+        const merged =
+          (size[a] * distance[a * n + k] + size[b] * distance[b * n + k]) / (size[a] + size[b]);
+        distance[a * n + k] = merged;
+        distance[k * n + a] = merged;
+      }
+      size[a] += size[b];
+      active[b] = false;
+      owner.forEach((row, i) => {
+        if (row === b) owner[i] = a;
+      });
+      remaining--;
+
+      // The merged distance is a mean of two distances no smaller than each
+      // other cluster's cached nearest, so only clusters pointing at a or b move
+      findNearest(a);
+      for (let k = 0; k < n; k++) {
+        if (active[k] && k !== a && (nearest[k] === a || nearest[k] === b)) findNearest(k);
+      }
+    }
+
+    const result = new Array(embeddings.length).fill(-1);
+    members.forEach((index, i) => (result[index] = owner[i]));
+    return result;
+  }
+
+  /**
+   * Frames quieter than half the median frame energy are treated as silence.
+   * The file is scanned in blocks rather than loaded whole.
+   */
+  private async energyGate(file: fs.promises.FileHandle, totalSamples: number): Promise<number> {
+    const energies: number[] = [];
+    for (let blockStart = 0; blockStart + FRAME_SIZE <= totalSamples; blockStart += SCAN_BLOCK) {
+      const block = await this.readSamples(file, blockStart, SCAN_BLOCK + FRAME_SIZE);
+      for (
+        let offset = 0;
+        offset < SCAN_BLOCK && offset + FRAME_SIZE <= block.length;
+        offset += GATE_STRIDE
+      ) {
+        energies.push(this.rms(block.subarray(offset, offset + FRAME_SIZE)));
+      }
+    }
+    energies.sort((a, b) => a - b);
+    return (energies[Math.floor(energies.length / 2)] || 0) * 0.5;
+  }
+
+  private async readSamples(
+    file: fs.promises.FileHandle,
+    start: number,
+    count: number
+  ): Promise<Float32Array> {
+    // Buffer.alloc is never pooled, so the offset is 0 and aligned for floats
+    const buffer = Buffer.alloc(count * 4);
+    const { bytesRead } = await file.read(buffer, 0, buffer.length, start * 4);
+    return new Float32Array(buffer.buffer, buffer.byteOffset, Math.floor(bytesRead / 4));
+  }
+
+  private cosineDistance(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA && normB ? 1 - dot / Math.sqrt(normA * normB) : 1;
+  }
+
+  private rms(frame: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    return Math.sqrt(sum / frame.length);
+  }
+
+  private logMel(frame: Float32Array): number[] {
+    const real = new Float64Array(FRAME_SIZE);
+    const imag = new Float64Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) real[i] = frame[i] * this.window[i];
+    this.fft(real, imag);
+
+    const power = new Float64Array(FRAME_SIZE / 2 + 1);
+    for (let k = 0; k < power.length; k++) power[k] = real[k] * real[k] + imag[k] * imag[k];
+
+    return this.melFilters.map((filter) => {
+      let energy = 0;
+      for (const [bin, weight] of filter) energy += power[bin] * weight;
+      return Math.log(energy + 1e-10);
+    });
+  }
+
+  /**
+   * In-place iterative radix-2 FFT
+   */
+  private fft(real: Float64Array, imag: Float64Array): void {
+    const n = real.length;
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]];
+      }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+      const angle = (-2 * Math.PI) / size;
+      for (let start = 0; start < n; start += size) {
+        for (let k = 0; k < size / 2; k++) {
+          const cos = Math.cos(angle * k);
+          const sin = Math.sin(angle * k);
+          const a = start + k;
+          const b = a + size / 2;
+          const tr = real[b] * cos - imag[b] * sin;
+          const ti = real[b] * sin + imag[b] * cos;
+          real[b] = real[a] - tr;
+          imag[b] = imag[a] - ti;
+          real[a] += tr;
+          imag[a] += ti;
+        }
+      }
+    }
+  }
+
+  /**
+   * Triangular mel filters between 80 Hz and 7.6 kHz as [bin, weight] pairs
+   */
+  private buildMelFilters(): Array<Array<[number, number]>> {
+    const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+    const toHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+    const low = toMel(80);
+    const high = toMel(7600);
+    const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) =>
+      Math.floor((toHz(low + ((high - low) * i) / (MEL_BANDS + 1)) * FRAME_SIZE) / SAMPLE_RATE)
+    );
+
+    return Array.from({ length: MEL_BANDS }, (_, band) => {
+      const [left, center, right] = [edges[band], edges[band + 1], edges[band + 2]];
+      const filter: Array<[number, number]> = [];
+      for (let bin = left; bin <= right; bin++) {
+        const weight =
+          bin <= center
+            ? (bin - left) / Math.max(center - left, 1)
+            : (right - bin) / Math.max(right - center, 1);
+        if (weight > 0) filter.push([bin, weight]);
+      }
+      return filter;
+    });
+  }
+}
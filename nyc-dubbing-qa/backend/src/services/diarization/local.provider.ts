@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import crypto from 'crypto';
+import { Worker } from 'worker_threads';
+import ffmpegService from '../ffmpeg.service';
+import {
+  DiarizationProvider,
+  DiarizationSegment,
+  DiarizationOptions,
+  SpeakerTurn,
+} from './diarization-provider';
+import { SAMPLE_RATE, VoiceAnalysisRequest } from './local-analysis';
+
+// Under ts-node the worker is the .ts source and needs the same loader
+const WORKER_EXTENSION = path.extname(__filename);
+const WORKER_SCRIPT = path.join(__dirname, `local.worker${WORKER_EXTENSION}`);
+const WORKER_EXEC_ARGV =
+  WORKER_EXTENSION === '.ts' ? ['--require', 'ts-node/register/transpile-only'] : undefined;
+
+/**
+ * Offline stand-in for a real diarization model: clusters segments by a crude
+ * voice timbre embedding (see VoiceAnalyzer). Good enough to separate an
+ * interviewer from a guest; not a replacement for a trained embedding model.
+ * The audio is decoded to a temporary file and analyzed in a worker thread,
+ * so long videos neither fill memory nor stall the queue process.
+ */
+export class LocalDiarizationProvider implements DiarizationProvider {
+  readonly id = 'local';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async diarize(
+    mediaPath: string,
+    segments: DiarizationSegment[],
+    options: DiarizationOptions
+  ): Promise<SpeakerTurn[]> {
+    const pcmPath = path.join(os.tmpdir(), `diarize_${crypto.randomBytes(6).toString('hex')}.f32`);
+    try {
+      await ffmpegService.decodePcmToFile(mediaPath, pcmPath, SAMPLE_RATE);
+      return await this.analyze({
+        pcmPath,
+        segments: segments.map(({ id, startTime, endTime }) => ({ id, startTime, endTime })),
+        options: { numSpeakers: options.numSpeakers, maxSpeakers: options.maxSpeakers },
+      });
+    } finally {
+      await fs.promises.unlink(pcmPath).catch(() => undefined);
+    }
+  }
+
+  private analyze(request: VoiceAnalysisRequest): Promise<SpeakerTurn[]> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(WORKER_SCRIPT, {
+        workerData: request,
+        execArgv: WORKER_EXEC_ARGV,
+      });
+      worker.once('message', resolve);
+      worker.once('error', reject);
+      worker.once('exit', (code) => {
+        if (code !== 0) reject(new Error(`Diarization worker exited with code ${code}`));
+      });
+    });
+  }
+}
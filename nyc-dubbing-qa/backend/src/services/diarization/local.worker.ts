@@ -0,0 +1,7 @@
+import { parentPort, workerData } from 'worker_threads';
+import { VoiceAnalyzer, VoiceAnalysisRequest } from './local-analysis';
+
+// Worker thread entry for the local provider; posts the speaker turns back
+new VoiceAnalyzer()
+  .analyze(workerData as VoiceAnalysisRequest)
+  .then((turns) => parentPort!.postMessage(turns));
@@ -0,0 +1,177 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { audioLogger as logger, logPerformance } from '../utils/logger';
+import ffmpegService from './ffmpeg.service';
+import storageService from './storage.service';
+
+export type RenderStatus = 'queued' | 'rendering' | 'completed' | 'failed' | 'cancelled';
+
+/** Kept on Dubbing.metadata.render */
+export interface RenderState {
+  status: RenderStatus;
+  jobId?: string;
+  keepOriginalAudio?: boolean;
+  videoPath?: string;
+  renderedAt?: string;
+  error?: string | null;
+}
+
+export interface RenderOptions {
+  keepOriginalAudio?: boolean;
+}
+
+export interface RenderSummary {
+  dubbingId: string;
+  videoId: string;
+  language: string;
+  videoPath: string;
+  keepOriginalAudio: boolean;
+}
+
+export interface DownloadFile {
+  path: string;
+  filename: string;
+}
+
+export class DubRenderService {
+  /**
+   * Latest approved track for a language, or the given one if it belongs to the video
+   */
+  async findApprovedTrack(videoId: string, language: string, dubbingId?: string) {
+    return prisma.dubbing.findFirst({
+      where: {
+        videoId,
+        language,
+        status: 'COMPLETED',
+        approvedAt: { not: null },
+        ...(dubbingId ? { id: dubbingId } : {}),
+      },
+      orderBy: { approvedAt: 'desc' },
+    });
+  }
+
+  async updateRender(dubbingId: string, patch: Partial<RenderState>): Promise<void> {
+    const dubbing = await prisma.dubbing.findUnique({ where: { id: dubbingId } });
+    if (!dubbing) {
+      return;
+    }
+    const metadata = (dubbing.metadata as any) || {};
+    await prisma.dubbing.update({
+      where: { id: dubbingId },
+      data: { metadata: { ...metadata, render: { ...metadata.render, ...patch } } },
+    });
+  }
+
+  /**
+   * Mux an approved dub track with the original video and store the result
+   * as the video's processed file
+   */
+  async render(
+    dubbingId: string,
+    options: RenderOptions = {},
+    onProgress: (percent: number) => void = () => undefined,
+    beforeStore: () => Promise<void> = async () => undefined
+  ): Promise<RenderSummary> {
+    const startTime = Date.now();
+    const dubbing = await prisma.dubbing.findUnique({
+      where: { id: dubbingId },
+      include: { video: true },
+    });
+    if (!dubbing) {
+      throw new Error(`Dubbing ${dubbingId} not found`);
+    }
+    if (!dubbing.approvedAt) {
+      throw new Error(`Dub track ${dubbingId} has not been approved`);
+    }
+
+    const trackPath = (dubbing.metadata as any)?.storagePath;
+    if (!trackPath || !fs.existsSync(trackPath)) {
+      throw new Error(`Dub track file for ${dubbingId} is missing`);
+    }
+    if (!fs.existsSync(dubbing.video.originalUrl)) {
+      throw new Error(`Video file for ${dubbing.videoId} is missing`);
+    }
+
+    const keepOriginalAudio = !!options.keepOriginalAudio;
+    const outputPath = path.join(
+      os.tmpdir(),
+      `render_${crypto.randomBytes(6).toString('hex')}_${dubbing.language}.mp4`
+    );
+
+    try {
+      await ffmpegService.mergeAudioVideo(dubbing.video.originalUrl, trackPath, outputPath, {
+        keepOriginalAudio,
+        dubTitle: `Dub (${dubbing.language})`,
+        onProgress,
+      });
+      await beforeStore();
+
+      const stored = await storageService.storeVideo(
+        outputPath,
+        `${dubbing.videoId}_${dubbing.language}_dubbed.mp4`
+      );
+
+      await prisma.video.update({
+        where: { id: dubbing.videoId },
+        data: { processedUrl: stored.path },
+      });
+      await this.updateRender(dubbingId, {
+        status: 'completed',
+        keepOriginalAudio,
+        videoPath: stored.path,
+        renderedAt: new Date().toISOString(),
+        error: null,
+      });
+
+      logPerformance('render_dub', startTime, {
+        dubbingId,
+        videoId: dubbing.videoId,
+        language: dubbing.language,
+        keepOriginalAudio,
+      });
+
+      return {
+        dubbingId,
+        videoId: dubbing.videoId,
+        language: dubbing.language,
+        videoPath: stored.path,
+        keepOriginalAudio,
+      };
+    } finally {
+      await fs.promises.unlink(outputPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Newest rendered video (or its dub track) for a language
+   */
+  async findDownload(
+    videoId: string,
+    language: string,
+    type: 'video' | 'audio'
+  ): Promise<DownloadFile | null> {
+    const dubbings = await prisma.dubbing.findMany({
+      where: { videoId, language, status: 'COMPLETED' },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    for (const dubbing of dubbings) {
+      const metadata = (dubbing.metadata as any) || {};
+      const filePath = type === 'video' ? metadata.render?.videoPath : metadata.storagePath;
+      if (filePath && fs.existsSync(filePath)) {
+        const extension = type === 'video' ? '.mp4' : path.extname(filePath);
+        return { path: filePath, filename: `${videoId}_${language}_dub${extension}` };
+      }
+    }
+
+    if (dubbings.length > 0) {
+      logger.warn(`No ${type} file on disk for video ${videoId} (${language})`);
+    }
+    return null;
+  }
+}
+
+export default new DubRenderService();
@@ -0,0 +1,332 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { audioLogger as logger, logPerformance } from '../utils/logger';
+import ffmpegService, { FitReport, TempoRange } from './ffmpeg.service';
+import storageService from './storage.service';
+
+// Speech needs no more; keeps an hour-long bed around 350 MB while mixing
+const SAMPLE_RATE = parseInt(process.env.DUB_TRACK_SAMPLE_RATE || '24000');
+const CROSSFADE_MS = parseInt(process.env.DUB_CROSSFADE_MS || '40');
+// Short ramps on every clip edge so cuts do not click
+const EDGE_FADE_MS = 5;
+// Speech sped up past ~1.25x starts to sound rushed; slowing down sounds drawn out
+const TEMPO_RANGE: TempoRange = {
+  minTempo: parseFloat(process.env.DUB_MIN_TEMPO || '1.0'),
+  maxTempo: parseFloat(process.env.DUB_MAX_TEMPO || '1.25'),
+};
+
+export interface DubClip {
+  segmentId: number | string;
+  startTime: number;
+  endTime: number;
+  audio: Buffer;
+  speaker?: string;
+  voice?: string;
+}
+
+export interface DubTrackRequest {
+  videoId: string;
+  language: string;
+  clips: DubClip[];
+  /** Default voice; per-speaker voices go in voiceMap */
+  voiceId: string;
+  voiceMap?: Record<string, string>;
+  /** Stretch each clip to its segment window first (default true) */
+  fitToWindow?: boolean;
+  tempoRange?: Partial<TempoRange>;
+}
+
+export interface ClipPlacement {
+  segmentId: number | string;
+  startTime: number;
+  endTime: number;
+  audioDuration: number;
+  /** Seconds of the clip that made it onto the track */
+  placedDuration: number;
+  /** Seconds the clip runs past its segment window */
+  overrun: number;
+  /** Seconds the clip ran into the next clip, resolved with a crossfade */
+  overlap: number;
+  /** Cut at the next clip or the end of the video */
+  truncated: boolean;
+  /** Time-stretch applied before placement, null when fitting was off */
+  fit: FitReport | null;
+}
+
+export interface DubTrackResult {
+  dubbingId: string;
+  audioUrl: string;
+  duration: number;
+  placements: ClipPlacement[];
+  overlapCount: number;
+  /** Segments that needed more compression than the tempo range allows */
+  overLimitCount: number;
+}
+
+interface DecodedClip {
+  clip: DubClip;
+  samples: Float32Array;
+  fit: FitReport | null;
+}
+
+const linearFade = (position: number, length: number) => (length > 0 ? position / length : 1);
+
+/**
+ * Lay clips onto a silent bed at their start times. A clip that runs into the
+ * next one is cut a crossfade after the next clip starts, and the two ramp
+ * across that window; the next clip keeps its start so speech stays on picture.
+ */
+const mixClips = (
+  decoded: DecodedClip[],
+  totalSamples: number,
+  sampleRate: number,
+  crossfadeSamples: number
+): { track: Float32Array; placements: ClipPlacement[] } => {
+  const track = new Float32Array(totalSamples);
+  const edge = Math.round((EDGE_FADE_MS / 1000) * sampleRate);
+  const sorted = [...decoded].sort((a, b) => a.clip.startTime - b.clip.startTime);
+  const placements: ClipPlacement[] = [];
+  let fadeInNext = edge;
+
+  sorted.forEach(({ clip, samples, fit }, index) => {
+    const start = Math.min(Math.round(Math.max(clip.startTime, 0) * sampleRate), totalSamples);
+    const next = sorted[index + 1];
+    const nextStart = next
+      ? Math.round(Math.max(next.clip.startTime, 0) * sampleRate)
+      : Number.POSITIVE_INFINITY;
+
+    let length = Math.min(samples.length, totalSamples - start);
+    let fadeOut = edge;
+    let overlap = 0;
+    const fadeIn = fadeInNext;
+    fadeInNext = edge;
+
+    if (start + length > nextStart) {
+      overlap = start + samples.length - nextStart;
+      length = Math.min(length, Math.max(nextStart - start, 0) + crossfadeSamples);
+      fadeOut = Math.min(crossfadeSamples, length);
+      fadeInNext = crossfadeSamples;
+    } else if (length < samples.length) {
+      // Runs past the end of the video
+      fadeOut = Math.min(crossfadeSamples, length);
+    }
+
+    for (let i = 0; i < length; i++) {
+      const gain = Math.min(linearFade(i, fadeIn), linearFade(length - i, fadeOut), 1);
+      track[start + i] += samples[i] * gain;
+    }
+
+    const audioDuration = samples.length / sampleRate;
+    placements.push({
+      segmentId: clip.segmentId,
+      startTime: clip.startTime,
+      endTime: clip.endTime,
+      audioDuration,
+      placedDuration: length / sampleRate,
+      overrun: Math.max(audioDuration - (clip.endTime - clip.startTime), 0),
+      overlap: overlap / sampleRate,
+      truncated: length < samples.length,
+      fit,
+    });
+  });
+
+  return { track, placements };
+};
+
+/**
+ * 16-bit mono PCM WAV, clipped to full scale
+ */
+const encodeWav = (samples: Float32Array, sampleRate: number): Buffer => {
+  const buffer = Buffer.alloc(44 + samples.length * 2);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + samples.length * 2, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(samples.length * 2, 40);
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    buffer.writeInt16LE(Math.round(sample * 32767), 44 + i * 2);
+  }
+  return buffer;
+};
+
+const tempPath = (name: string) =>
+  path.join(os.tmpdir(), `dub_${crypto.randomBytes(6).toString('hex')}_${name}`);
+
+export class DubTrackService {
+  /**
+   * Build one timeline-aligned track from per-segment TTS clips, store it and
+   * record it on a Dubbing row
+   */
+  async assemble(request: DubTrackRequest): Promise<DubTrackResult> {
+    const startTime = Date.now();
+    const { videoId, language, clips } = request;
+
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const dubbing = await prisma.dubbing.create({
+      data: {
+        videoId,
+        language,
+        voiceId: request.voiceId,
+        status: 'PROCESSING',
+        metadata: { voiceMap: request.voiceMap || {}, segmentCount: clips.length },
+      },
+    });
+
+    const range: TempoRange = {
+      minTempo: request.tempoRange?.minTempo ?? TEMPO_RANGE.minTempo,
+      maxTempo: request.tempoRange?.maxTempo ?? TEMPO_RANGE.maxTempo,
+    };
+    const fitToWindow = request.fitToWindow ?? process.env.DUB_FIT_TO_WINDOW !== 'false';
+
+    const temporary: string[] = [];
+    try {
+      const decoded: DecodedClip[] = [];
+      for (const clip of clips) {
+        const clipPath = tempPath(`${clip.segmentId}.mp3`);
+        temporary.push(clipPath);
+        await fs.promises.writeFile(clipPath, clip.audio);
+
+        let sourcePath = clipPath;
+        let fit: FitReport | null = null;
+        const window = clip.endTime - clip.startTime;
+        if (fitToWindow && window > 0) {
+          sourcePath = tempPath(`${clip.segmentId}_fitted.wav`);
+          temporary.push(sourcePath);
+          fit = await ffmpegService.fitAudioToDuration(clipPath, sourcePath, window, range);
+          if (fit.exceedsLimit) {
+            logger.warn(`Segment ${clip.segmentId} needs more compression than allowed`, {
+              videoId,
+              language,
+              window: window.toFixed(2),
+              originalDuration: fit.originalDuration.toFixed(2),
+              maxTempo: range.maxTempo,
+            });
+          }
+        }
+
+        decoded.push({
+          clip,
+          samples: await ffmpegService.decodePcm(sourcePath, `${sourcePath}.f32`, SAMPLE_RATE),
+          fit,
+        });
+      }
+
+      const duration = await this.resolveDuration(video, clips);
+      const { track, placements } = mixClips(
+        decoded,
+        Math.ceil(duration * SAMPLE_RATE),
+        SAMPLE_RATE,
+        Math.round((CROSSFADE_MS / 1000) * SAMPLE_RATE)
+      );
+
+      const wavPath = tempPath('track.wav');
+      const mp3Path = tempPath('track.mp3');
+      temporary.push(wavPath, mp3Path);
+      await fs.promises.writeFile(wavPath, encodeWav(track, SAMPLE_RATE));
+      await ffmpegService.convertAudio(wavPath, mp3Path, { codec: 'mp3', bitrate: '192k' });
+
+      const overlapCount = placements.filter((p) => p.overlap > 0).length;
+      const overLimitCount = placements.filter((p) => p.fit?.exceedsLimit).length;
+      const trackMetadata = {
+        videoId,
+        language,
+        duration,
+        sampleRate: SAMPLE_RATE,
+        crossfadeMs: CROSSFADE_MS,
+        tempoRange: fitToWindow ? range : null,
+        overlapCount,
+        overLimitCount,
+        placements,
+      };
+      const stored = await storageService.storeAudio(
+        mp3Path,
+        `${videoId}_${language}_dub.mp3`,
+        trackMetadata
+      );
+
+      await prisma.dubbing.update({
+        where: { id: dubbing.id },
+        data: {
+          status: 'COMPLETED',
+          audioUrl: stored.url,
+          metadata: {
+            ...trackMetadata,
+            voiceMap: request.voiceMap || {},
+            storagePath: stored.path,
+          } as any,
+        },
+      });
+
+      logPerformance('assemble_dub_track', startTime, {
+        dubbingId: dubbing.id,
+        clips: clips.length,
+        duration: duration.toFixed(2),
+        overlapCount,
+        overLimitCount,
+      });
+
+      return {
+        dubbingId: dubbing.id,
+        audioUrl: stored.url,
+        duration,
+        placements,
+        overlapCount,
+        overLimitCount,
+      };
+    } catch (error: any) {
+      logger.error(`Dub track assembly failed for video ${videoId} (${language})`, {
+        dubbingId: dubbing.id,
+        error: error.message,
+      });
+      await prisma.dubbing.update({
+        where: { id: dubbing.id },
+        data: {
+          status: 'FAILED',
+          metadata: { ...(dubbing.metadata as any), error: error.message },
+        },
+      });
+      throw error;
+    } finally {
+      await Promise.all(temporary.map((file) => fs.promises.unlink(file).catch(() => undefined)));
+    }
+  }
+
+  /**
+   * The bed matches the video; the stored duration is whole seconds, so probe
+   * the file first. Clips are the last resort.
+   */
+  private async resolveDuration(
+    video: { originalUrl: string; duration: number | null; metadata: any },
+    clips: DubClip[]
+  ): Promise<number> {
+    try {
+      const info = await ffmpegService.getVideoInfo(video.originalUrl);
+      if (info.duration > 0) {
+        return Number(info.duration);
+      }
+    } catch (error: any) {
+      logger.warn('Could not probe video duration for dub track', { error: error.message });
+    }
+
+    const known = video.metadata?.transcription?.duration || video.duration;
+    return known || Math.max(...clips.map((clip) => clip.endTime), 0);
+  }
+}
+
+export default new DubTrackService();
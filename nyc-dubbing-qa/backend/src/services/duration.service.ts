@@ -0,0 +1,216 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import ffmpegService from './ffmpeg.service';
+import { audioLogger as logger } from '../utils/logger';
+
+export type SpeechUnit = 'words' | 'characters' | 'syllables';
+
+interface SpeechRate {
+  unit: SpeechUnit;
+  unitsPerSecond: number;
+}
+
+export interface DurationFit {
+  windowDuration: number;
+  estimatedDuration: number;
+  overflow: number; // seconds over the window, 0 when it fits
+  overflowPercentage: number;
+  fits: boolean;
+}
+
+// Default speaking rates for synthesized speech. Chinese is counted in Han
+// characters and Korean in Hangul syllable blocks, since neither maps cleanly
+// onto whitespace-separated words.
+const DEFAULT_RATES: Record<string, SpeechRate> = {
+  en: { unit: 'words', unitsPerSecond: 160 / 60 },
+  es: { unit: 'words', unitsPerSecond: 180 / 60 },
+  zh: { unit: 'characters', unitsPerSecond: 4.5 },
+  ru: { unit: 'words', unitsPerSecond: 184 / 60 },
+  bn: { unit: 'words', unitsPerSecond: 170 / 60 },
+  ht: { unit: 'words', unitsPerSecond: 175 / 60 },
+  ko: { unit: 'syllables', unitsPerSecond: 6 },
+  ar: { unit: 'words', unitsPerSecond: 165 / 60 },
+  ur: { unit: 'words', unitsPerSecond: 170 / 60 },
+  fr: { unit: 'words', unitsPerSecond: 195 / 60 },
+  pl: { unit: 'words', unitsPerSecond: 190 / 60 },
+};
+
+const FALLBACK_RATE: SpeechRate = { unit: 'words', unitsPerSecond: 175 / 60 };
+
+// Calibrated rates replace the defaults once enough real TTS clips were measured
+const MIN_CALIBRATION_SAMPLES = parseInt(process.env.DURATION_MIN_CALIBRATION_SAMPLES || '5');
+const DEFAULT_OVERFLOW_TOLERANCE = parseFloat(process.env.DURATION_OVERFLOW_TOLERANCE || '0.1');
+
+export class DurationService {
+  private calibration = new Map<string, { unitsPerSecond: number; sampleCount: number }>();
+  private calibrationLoaded = false;
+
+  /**
+   * Estimate spoken duration in seconds for text in the given language
+   */
+  estimate(text: string, languageCode: string): number {
+    const rate = this.getRate(languageCode);
+    return this.countUnits(text, rate.unit) / rate.unitsPerSecond;
+  }
+
+  /**
+   * Compare an estimated (or measured) duration against the segment window
+   */
+  checkFit(
+    duration: number,
+    startTime: number,
+    endTime: number,
+    tolerance: number = DEFAULT_OVERFLOW_TOLERANCE
+  ): DurationFit {
+    const windowDuration = Math.max(endTime - startTime, 0);
+    const overflow = Math.max(duration - windowDuration, 0);
+    const overflowPercentage = windowDuration > 0 ? (overflow / windowDuration) * 100 : 0;
+
+    return {
+      windowDuration,
+      estimatedDuration: duration,
+      overflow,
+      overflowPercentage,
+      fits: duration <= windowDuration * (1 + tolerance),
+    };
+  }
+
+  /**
+   * How many speech units fit in a window, in the unit the language is counted in
+   */
+  budget(windowDuration: number, languageCode: string): { unit: SpeechUnit; maxUnits: number } {
+    const rate = this.getRate(languageCode);
+    return {
+      unit: rate.unit,
+      maxUnits: Math.max(Math.floor(windowDuration * rate.unitsPerSecond), 1),
+    };
+  }
+
+  /**
+   * Count speech units in the way the language's rate is expressed
+   */
+  countUnits(text: string, unit: SpeechUnit): number {
+    // Embedded Latin words and digits are read out in every script
+    const latinWords = (text.match(/[A-Za-z]+/g) || []).length;
+    const digits = (text.match(/\p{Nd}/gu) || []).length;
+
+    switch (unit) {
+      case 'characters':
+        return (text.match(/\p{Script=Han}/gu) || []).length + digits + latinWords * 2;
+      case 'syllables':
+        return (text.match(/\p{Script=Hangul}/gu) || []).length + digits + latinWords * 2;
+      default:
+        return (text.match(/[\p{L}\p{M}\p{N}]+(?:['’-][\p{L}\p{M}\p{N}]+)*/gu) || []).length;
+    }
+  }
+
+  /**
+   * Load calibrated rates; safe to call repeatedly
+   */
+  async ensureCalibrationLoaded(): Promise<void> {
+    if (this.calibrationLoaded) {
+      return;
+    }
+
+    try {
+      const rows = await prisma.speechRateCalibration.findMany();
+      for (const row of rows) {
+        this.calibration.set(row.language, {
+          unitsPerSecond: row.totalUnits / row.totalSeconds,
+          sampleCount: row.sampleCount,
+        });
+      }
+      this.calibrationLoaded = true;
+      logger.info('Speech rate calibration loaded', { languages: rows.length });
+    } catch (error) {
+      logger.warn('Could not load speech rate calibration, using defaults', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Record the real duration of a generated TTS clip
+   */
+  async recordSample(languageCode: string, text: string, actualSeconds: number): Promise<void> {
+    const units = this.countUnits(text, this.getDefaultRate(languageCode).unit);
+    if (units === 0 || actualSeconds <= 0) {
+      return;
+    }
+
+    const row = await prisma.speechRateCalibration.upsert({
+      where: { language: languageCode },
+      create: {
+        language: languageCode,
+        totalUnits: units,
+        totalSeconds: actualSeconds,
+        sampleCount: 1,
+      },
+      update: {
+        totalUnits: { increment: units },
+        totalSeconds: { increment: actualSeconds },
+        sampleCount: { increment: 1 },
+      },
+    });
+
+    this.calibration.set(languageCode, {
+      unitsPerSecond: row.totalUnits / row.totalSeconds,
+      sampleCount: row.sampleCount,
+    });
+
+    logger.debug('Speech rate sample recorded', {
+      language: languageCode,
+      units,
+      actualSeconds,
+      calibratedRate: (row.totalUnits / row.totalSeconds).toFixed(3),
+      sampleCount: row.sampleCount,
+    });
+  }
+
+  /**
+   * Measure an encoded audio clip and record it as a calibration sample.
+   * Returns the measured duration in seconds.
+   */
+  async recordSampleFromAudio(
+    languageCode: string,
+    text: string,
+    audio: Buffer,
+    extension = '.mp3'
+  ): Promise<number> {
+    const tempPath = path.join(
+      os.tmpdir(),
+      `tts_sample_${crypto.randomBytes(6).toString('hex')}${extension}`
+    );
+
+    try {
+      await fs.promises.writeFile(tempPath, audio);
+      const duration = await ffmpegService.getAudioDuration(tempPath);
+      await this.recordSample(languageCode, text, duration);
+      return duration;
+    } finally {
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Current rate for a language, reporting whether it came from calibration
+   */
+  getRate(languageCode: string): SpeechRate & { calibrated: boolean } {
+    const base = this.getDefaultRate(languageCode);
+    const calibrated = this.calibration.get(languageCode);
+
+    if (calibrated && calibrated.sampleCount >= MIN_CALIBRATION_SAMPLES) {
+      return { unit: base.unit, unitsPerSecond: calibrated.unitsPerSecond, calibrated: true };
+    }
+    return { ...base, calibrated: false };
+  }
+
+  private getDefaultRate(languageCode: string): SpeechRate {
+    return DEFAULT_RATES[languageCode] || FALLBACK_RATE;
+  }
+}
+
+export default new DurationService();
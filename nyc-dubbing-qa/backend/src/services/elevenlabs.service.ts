@@ -63,32 +63,6 @@ export class ElevenLabsService {
       throw error;
     }
   }
-
-  async generateDubbing(
-    videoPath: string, 
-    targetLanguage: string, 
-    voiceId?: string
-  ): Promise<any> {
-    try {
-      // This would involve:
-      // 1. Extract audio from video
-      // 2. Transcribe audio
-      // 3. Translate transcript
-      // 4. Generate speech in target language
-      // 5. Sync with video
-      
-      // Placeholder for actual implementation
-      return {
-        dubbedVideoUrl: '',
-        dubbedAudioUrl: '',
-        transcript: '',
-        translation: ''
-      };
-    } catch (error) {
-      logger.error('ElevenLabs dubbing error:', error);
-      throw error;
-    }
-  }
 }
 
 export default new ElevenLabsService();
\ No newline at end of file
@@ -10,6 +10,74 @@ interface AudioOptions {
   channels?: number;
 }
 
+export interface MergeOptions {
+  /** Keep the video's own audio as a second, non-default track */
+  keepOriginalAudio?: boolean;
+  /** Title of the dub audio track, e.g. "Spanish dub" */
+  dubTitle?: string;
+  onProgress?: (percent: number) => void;
+}
+
+export interface MuxTrack {
+  path: string;
+  /** ISO 639-2 code, e.g. "spa" */
+  language: string;
+  title: string;
+}
+
+export interface MasterMuxOptions {
+  format: 'mkv' | 'mp4';
+  /** Label for the video's own audio, kept as the first and default track */
+  originalAudio?: { language: string; title: string };
+  onProgress?: (percent: number) => void;
+}
+
+export interface BurnSubtitlesOptions {
+  /** Extra fonts for libass, searched before the system fonts */
+  fontsDir?: string;
+  onProgress?: (percent: number) => void;
+}
+
+export interface TempoRange {
+  /** Slowest playback rate allowed, e.g. 0.9; 1 means never slow down */
+  minTempo: number;
+  /** Fastest playback rate allowed, e.g. 1.25 */
+  maxTempo: number;
+}
+
+export interface FitReport {
+  targetDuration: number;
+  originalDuration: number;
+  fittedDuration: number;
+  /** Playback rate applied; above 1 compresses */
+  ratio: number;
+  /** Seconds of silence added to reach the target */
+  padding: number;
+  /** The clip needed a faster rate than maxTempo and still overruns */
+  exceedsLimit: boolean;
+}
+
+/**
+ * atempo only accepts 0.5-2.0 per instance on older FFmpeg builds, so larger
+ * changes are split into a chain
+ */
+export const atempoChain = (tempo: number): string[] => {
+  const filters: string[] = [];
+  let remaining = tempo;
+  while (remaining > 2) {
+    filters.push('atempo=2.0');
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    filters.push('atempo=0.5');
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 1e-3) {
+    filters.push(`atempo=${remaining.toFixed(4)}`);
+  }
+  return filters;
+};
+
 export class FFmpegService {
   constructor() {
     // Set FFmpeg path if provided in environment
@@ -151,6 +219,89 @@ export class FFmpegService {
     });
   }
 
+  /**
+   * Decode the audio track to mono 32-bit float samples for analysis
+   */
+  async decodePcm(inputPath: string, outputPath: string, sampleRate = 16000): Promise<Float32Array> {
+    await this.decodePcmToFile(inputPath, outputPath, sampleRate);
+
+    try {
+      const buffer = await fs.promises.readFile(outputPath);
+      // Copy into an aligned buffer; Buffer pooling can leave byteOffset unaligned
+      return new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength));
+    } finally {
+      await fs.promises.unlink(outputPath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Decode the audio track to a raw mono 32-bit float file, for callers that
+   * read it piecewise instead of holding every sample in memory
+   */
+  decodePcmToFile(inputPath: string, outputPath: string, sampleRate = 16000): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      ffmpeg(inputPath)
+        .noVideo()
+        .audioChannels(1)
+        .audioFrequency(sampleRate)
+        .audioCodec('pcm_f32le')
+        .format('f32le')
+        .output(outputPath)
+        .on('end', () => resolve())
+        .on('error', (err) => {
+          logger.error('PCM decode error:', err);
+          reject(err);
+        })
+        .run();
+    });
+  }
+
+  /**
+   * Speed a clip up or down within the allowed range so it fills
+   * targetDuration, padding with silence when it is still short. Clips that
+   * need more compression than maxTempo are left long and flagged.
+   */
+  async fitAudioToDuration(
+    inputPath: string,
+    outputPath: string,
+    targetDuration: number,
+    range: TempoRange
+  ): Promise<FitReport> {
+    const originalDuration = await this.getAudioDuration(inputPath);
+    const wanted = targetDuration > 0 ? originalDuration / targetDuration : 1;
+    const ratio = Math.min(Math.max(wanted, range.minTempo), range.maxTempo);
+    const stretched = originalDuration / ratio;
+    const padding = Math.max(targetDuration - stretched, 0);
+
+    const filters = atempoChain(ratio);
+    if (padding > 0) {
+      filters.push(`apad=whole_dur=${targetDuration.toFixed(3)}`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const command = ffmpeg(inputPath).noVideo().output(outputPath);
+      if (filters.length > 0) {
+        command.audioFilters(filters);
+      }
+      command
+        .on('end', () => resolve())
+        .on('error', (err) => {
+          logger.error('Audio fit error:', err);
+          reject(err);
+        })
+        .run();
+    });
+
+    return {
+      targetDuration,
+      originalDuration,
+      fittedDuration: stretched + padding,
+      ratio,
+      padding,
+      exceedsLimit: wanted > range.maxTempo,
+    };
+  }
+
   async getVideoInfo(videoPath: string): Promise<any> {
     return new Promise((resolve, reject) => {
       ffmpeg.ffprobe(videoPath, (err, metadata) => {
@@ -192,9 +343,14 @@ export class FFmpegService {
     });
   }
 
-  async mergeAudioVideo(videoPath: string, audioPath: string, outputPath: string): Promise<string> {
+  async mergeAudioVideo(
+    videoPath: string,
+    audioPath: string,
+    outputPath: string,
+    options: MergeOptions = {}
+  ): Promise<string> {
     return new Promise((resolve, reject) => {
-      ffmpeg()
+      const command = ffmpeg()
         .input(videoPath)
         .input(audioPath)
         .outputOptions([
@@ -203,8 +359,27 @@ export class FFmpegService {
           '-map 0:v:0',
           '-map 1:a:0',
           '-shortest'
-        ])
+        ]);
+
+      if (options.keepOriginalAudio) {
+        // Dub first and default; the trailing '?' tolerates videos without sound.
+        // Passed as separate arguments so titles with spaces are not split.
+        command.outputOptions(
+          '-map', '0:a:0?',
+          '-metadata:s:a:0', `title=${options.dubTitle || 'Dub'}`,
+          '-metadata:s:a:1', 'title=Original',
+          '-disposition:a:0', 'default',
+          '-disposition:a:1', '0'
+        );
+      }
+
+      command
         .output(outputPath)
+        .on('progress', (progress) => {
+          if (typeof progress.percent === 'number') {
+            options.onProgress?.(Math.min(Math.max(progress.percent, 0), 100));
+          }
+        })
         .on('end', () => {
           logger.info('Audio-video merge completed');
           resolve(outputPath);
@@ -217,6 +392,138 @@ export class FFmpegService {
     });
   }
 
+  /**
+   * Original video stream plus any number of tagged audio and subtitle
+   * tracks, in one container. Subtitles must be SRT files.
+   */
+  async muxMaster(
+    videoPath: string,
+    audioTracks: MuxTrack[],
+    subtitleTracks: MuxTrack[],
+    outputPath: string,
+    options: MasterMuxOptions
+  ): Promise<string> {
+    const audio: Array<{ map: string; language: string; title: string }> = [];
+    if (options.originalAudio) {
+      audio.push({ map: '0:a:0', ...options.originalAudio });
+    }
+    audioTracks.forEach((track, i) => audio.push({ map: `${i + 1}:a:0`, ...track }));
+    const firstSubtitleInput = audioTracks.length + 1;
+
+    // Separate arguments throughout so titles with spaces are not split
+    const args: string[] = ['-map', '0:v:0'];
+    audio.forEach((track) => args.push('-map', track.map));
+    subtitleTracks.forEach((_track, i) => args.push('-map', `${firstSubtitleInput + i}:s:0`));
+
+    args.push(
+      '-c:v', 'copy',
+      '-c:a', 'aac',
+      '-c:s', options.format === 'mp4' ? 'mov_text' : 'srt'
+    );
+    audio.forEach((track, i) => {
+      args.push(
+        `-metadata:s:a:${i}`, `language=${track.language}`,
+        `-metadata:s:a:${i}`, `title=${track.title}`,
+        `-disposition:a:${i}`, i === 0 ? 'default' : '0'
+      );
+    });
+    subtitleTracks.forEach((track, i) => {
+      args.push(
+        `-metadata:s:s:${i}`, `language=${track.language}`,
+        `-metadata:s:s:${i}`, `title=${track.title}`,
+        `-disposition:s:${i}`, '0'
+      );
+    });
+
+    return new Promise((resolve, reject) => {
+      const command = ffmpeg().input(videoPath);
+      [...audioTracks, ...subtitleTracks].forEach((track) => command.input(track.path));
+
+      command
+        .outputOptions(...args)
+        .output(outputPath)
+        .on('progress', (progress) => {
+          if (typeof progress.percent === 'number') {
+            options.onProgress?.(Math.min(Math.max(progress.percent, 0), 100));
+          }
+        })
+        .on('end', () => {
+          logger.info('Master export mux completed', {
+            audioTracks: audio.length,
+            subtitleTracks: subtitleTracks.length
+          });
+          resolve(outputPath);
+        })
+        .on('error', (err) => {
+          logger.error('Master export mux error:', err);
+          reject(err);
+        })
+        .run();
+    });
+  }
+
+  /**
+   * Render an ASS script onto the picture with libass. The video is
+   * re-encoded; audio is copied untouched.
+   */
+  async burnSubtitles(
+    videoPath: string,
+    subtitlePath: string,
+    outputPath: string,
+    options: BurnSubtitlesOptions = {}
+  ): Promise<string> {
+    // Quoted filter option values; a quote inside is closed, escaped and reopened
+    const quote = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+    const filter = [
+      `subtitles=filename=${quote(subtitlePath)}`,
+      options.fontsDir ? `fontsdir=${quote(options.fontsDir)}` : null
+    ].filter(Boolean).join(':');
+
+    return new Promise((resolve, reject) => {
+      ffmpeg()
+        .input(videoPath)
+        .videoFilters(filter)
+        .outputOptions([
+          '-map 0:v:0',
+          '-map 0:a:0?',
+          '-c:v libx264',
+          '-preset medium',
+          '-crf 20',
+          // Social platforms reject 4:2:2 and 4:4:4 uploads
+          '-pix_fmt yuv420p',
+          '-c:a copy',
+          '-movflags +faststart'
+        ])
+        .output(outputPath)
+        .on('progress', (progress) => {
+          if (typeof progress.percent === 'number') {
+            options.onProgress?.(Math.min(Math.max(progress.percent, 0), 100));
+          }
+        })
+        .on('end', () => {
+          logger.info('Subtitle burn-in completed');
+          resolve(outputPath);
+        })
+        .on('error', (err) => {
+          logger.error('Subtitle burn-in error:', err);
+          reject(err);
+        })
+        .run();
+    });
+  }
+
+  async hasAudioStream(mediaPath: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      ffmpeg.ffprobe(mediaPath, (err, metadata) => {
+        if (err) {
+          reject(new Error(`Failed to probe media file: ${err.message}`));
+        } else {
+          resolve(metadata.streams.some(stream => stream.codec_type === 'audio'));
+        }
+      });
+    });
+  }
+
   async convertVideo(inputPath: string, outputPath: string, options: any = {}): Promise<string> {
     return new Promise((resolve, reject) => {
       let command = ffmpeg(inputPath);
@@ -0,0 +1,194 @@
+import { GlossaryTerm } from '@prisma/client';
+import prisma from '../config/database';
+import { translationLogger as logger } from '../utils/logger';
+
+export const ALL_LANGUAGES = '*';
+
+export interface GlossaryEntry {
+  sourceTerm: string;
+  targetTerm: string | null;
+  doNotTranslate: boolean;
+  caseSensitive: boolean;
+}
+
+export interface GlossaryViolation {
+  sourceTerm: string;
+  expectedTerm: string;
+  type: 'missing_required_term' | 'do_not_translate_changed';
+}
+
+export interface GlossaryTermInput {
+  language: string;
+  sourceTerm: string;
+  targetTerm?: string | null;
+  doNotTranslate?: boolean;
+  caseSensitive?: boolean;
+  notes?: string | null;
+}
+
+export class GlossaryTermError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GlossaryTermError';
+  }
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class GlossaryService {
+  /**
+   * List a project's terms, optionally restricted to one language (plus global terms)
+   */
+  async listTerms(projectId: string, language?: string): Promise<GlossaryTerm[]> {
+    return prisma.glossaryTerm.findMany({
+      where: {
+        projectId,
+        ...(language && { language: { in: [language, ALL_LANGUAGES] } }),
+      },
+      orderBy: [{ language: 'asc' }, { sourceTerm: 'asc' }],
+    });
+  }
+
+  async createTerm(projectId: string, input: GlossaryTermInput): Promise<GlossaryTerm> {
+    const term = await prisma.glossaryTerm.create({
+      data: {
+        projectId,
+        language: input.language,
+        sourceTerm: input.sourceTerm.trim(),
+        targetTerm: input.doNotTranslate ? null : input.targetTerm?.trim(),
+        doNotTranslate: input.doNotTranslate ?? false,
+        caseSensitive: input.caseSensitive ?? false,
+        notes: input.notes,
+      },
+    });
+
+    logger.info('Glossary term created', {
+      projectId,
+      termId: term.id,
+      language: term.language,
+      doNotTranslate: term.doNotTranslate,
+    });
+
+    return term;
+  }
+
+  async updateTerm(
+    projectId: string,
+    termId: string,
+    input: Partial<GlossaryTermInput>
+  ): Promise<GlossaryTerm | null> {
+    const existing = await prisma.glossaryTerm.findFirst({ where: { id: termId, projectId } });
+    if (!existing) {
+      return null;
+    }
+
+    // Fields left out of the update keep their stored values, so the merged
+    // term must still have a target unless it is do-not-translate
+    const doNotTranslate = input.doNotTranslate ?? existing.doNotTranslate;
+    const targetTerm =
+      input.targetTerm === undefined ? existing.targetTerm : input.targetTerm?.trim() || null;
+    if (!doNotTranslate && !targetTerm) {
+      throw new GlossaryTermError(
+        'Target term is required unless the term is marked do-not-translate'
+      );
+    }
+
+    return prisma.glossaryTerm.update({
+      where: { id: termId },
+      data: {
+        language: input.language,
+        sourceTerm: input.sourceTerm?.trim(),
+        targetTerm: doNotTranslate ? null : targetTerm,
+        doNotTranslate,
+        caseSensitive: input.caseSensitive,
+        notes: input.notes,
+      },
+    });
+  }
+
+  async deleteTerm(projectId: string, termId: string): Promise<boolean> {
+    const { count } = await prisma.glossaryTerm.deleteMany({ where: { id: termId, projectId } });
+    return count > 0;
+  }
+
+  /**
+   * Terms whose source form appears in the given English text
+   */
+  findMatches(text: string, entries: GlossaryEntry[]): GlossaryEntry[] {
+    return entries.filter((entry) => this.containsTerm(text, entry.sourceTerm, entry, true));
+  }
+
+  /**
+   * Prompt lines instructing the model to use the matched terminology
+   */
+  buildInstructions(matches: GlossaryEntry[], targetLanguage: string): string[] {
+    const required = matches.filter((entry) => !entry.doNotTranslate && entry.targetTerm);
+    const keep = matches.filter((entry) => entry.doNotTranslate);
+
+    if (required.length === 0 && keep.length === 0) {
+      return [];
+    }
+
+    const lines = ['Mandatory terminology (project glossary):'];
+    for (const entry of required) {
+      lines.push(`- Translate "${entry.sourceTerm}" as "${entry.targetTerm}" in ${targetLanguage}`);
+    }
+    for (const entry of keep) {
+      lines.push(`- Keep "${entry.sourceTerm}" exactly as written, do not translate it`);
+    }
+    return lines;
+  }
+
+  /**
+   * Check a translation against the glossary terms present in its source text
+   */
+  checkTranslation(
+    sourceText: string,
+    translatedText: string,
+    entries: GlossaryEntry[]
+  ): GlossaryViolation[] {
+    const violations: GlossaryViolation[] = [];
+
+    for (const entry of this.findMatches(sourceText, entries)) {
+      if (entry.doNotTranslate) {
+        if (!this.containsTerm(translatedText, entry.sourceTerm, entry, false)) {
+          violations.push({
+            sourceTerm: entry.sourceTerm,
+            expectedTerm: entry.sourceTerm,
+            type: 'do_not_translate_changed',
+          });
+        }
+      } else if (
+        entry.targetTerm &&
+        !this.containsTerm(translatedText, entry.targetTerm, entry, false)
+      ) {
+        violations.push({
+          sourceTerm: entry.sourceTerm,
+          expectedTerm: entry.targetTerm,
+          type: 'missing_required_term',
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Word boundaries only apply to the English side; target scripts such as
+   * Chinese or Korean do not separate words with spaces.
+   */
+  private containsTerm(
+    text: string,
+    term: string,
+    entry: GlossaryEntry,
+    wordBoundaries: boolean
+  ): boolean {
+    const flags = entry.caseSensitive ? 'u' : 'iu';
+    const pattern = wordBoundaries
+      ? `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`
+      : escapeRegExp(term);
+    return new RegExp(pattern, flags).test(text);
+  }
+}
+
+export default new GlossaryService();
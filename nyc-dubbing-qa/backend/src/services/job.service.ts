@@ -0,0 +1,289 @@
+import { Job, JobStatus, Queue } from 'bull';
+import {
+  videoProcessingQueue,
+  translationQueue,
+  dubbingQueue,
+  reportGenerationQueue,
+} from '../config/queue';
+import { logger } from '../utils/logger';
+
+export type JobState = JobStatus | 'stuck';
+
+export interface JobSummary {
+  /** Queue-qualified id, e.g. "video-processing:42" */
+  id: string;
+  queue: string;
+  type: string;
+  state: JobState;
+  progress: number;
+  priority: number | null;
+  attemptsMade: number;
+  maxAttempts: number;
+  failedReason: string | null;
+  cancelRequested: boolean;
+  data: any;
+  result: any;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  durationMs: number | null;
+}
+
+export interface JobListFilter {
+  queue?: string;
+  states?: JobStatus[];
+  type?: string;
+  videoId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export class JobNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Job ${id} not found`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+/** Thrown when a request is not valid for the job's current state */
+export class JobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobStateError';
+  }
+}
+
+/** Thrown by workers at a checkpoint once cancellation was requested */
+export class JobCancelledError extends Error {
+  constructor(id: string) {
+    super(`Job ${id} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+const ALL_STATES: JobStatus[] = ['waiting', 'active', 'delayed', 'paused', 'completed', 'failed'];
+// Jobs loaded per round trip when a filter has to be applied outside Redis
+const SCAN_CHUNK = 200;
+
+export class JobService {
+  private queues = new Map<string, Queue>(
+    [videoProcessingQueue, translationQueue, dubbingQueue, reportGenerationQueue].map((queue) => [
+      queue.name,
+      queue,
+    ])
+  );
+
+  queueNames(): string[] {
+    return [...this.queues.keys()];
+  }
+
+  /** Bull ids are only unique per queue, so the public id carries the queue name */
+  publicId(job: Job): string {
+    return `${job.queue.name}:${job.id}`;
+  }
+
+  async get(id: string): Promise<Job> {
+    const separator = id.lastIndexOf(':');
+    const queue = separator > 0 ? this.queues.get(id.slice(0, separator)) : undefined;
+    const job = queue ? await queue.getJob(id.slice(separator + 1)) : null;
+    if (!job) {
+      throw new JobNotFoundError(id);
+    }
+    return job;
+  }
+
+  async list(filter: JobListFilter = {}): Promise<{ total: number; jobs: JobSummary[] }> {
+    if (filter.queue && !this.queues.has(filter.queue)) {
+      throw new JobNotFoundError(filter.queue);
+    }
+
+    const queues = filter.queue ? [this.queues.get(filter.queue)!] : [...this.queues.values()];
+    const states = filter.states?.length ? filter.states : ALL_STATES;
+    const offset = filter.offset || 0;
+    const limit = filter.limit || 50;
+
+    const { total, jobs } =
+      filter.type || filter.videoId || (await this.hasPrioritizedJobs(queues))
+        ? await this.scan(
+            queues,
+            states,
+            (job) =>
+              (!filter.type || job.name === filter.type) &&
+              (!filter.videoId || job.data?.videoId === filter.videoId)
+          )
+        : await this.head(queues, states, offset + limit);
+
+    const page = jobs.sort((a, b) => b.timestamp - a.timestamp).slice(offset, offset + limit);
+    return { total, jobs: await Promise.all(page.map((job) => this.summarize(job))) };
+  }
+
+  /**
+   * Bull adds jobs to the front of each state list, so unless a job was queued
+   * with a priority only the first `count` jobs of each can land on a page
+   * ending at `count`; the rest are only counted
+   */
+  private async head(
+    queues: Queue[],
+    states: JobStatus[],
+    count: number
+  ): Promise<{ total: number; jobs: Job[] }> {
+    const [counts, jobs] = await Promise.all([
+      Promise.all(
+        queues.map((queue): Promise<Partial<Record<JobStatus, number>>> => queue.getJobCounts())
+      ),
+      Promise.all(queues.map((queue) => queue.getJobs(states, 0, count - 1))),
+    ]);
+    let total = 0;
+    for (const queueCounts of counts) {
+      for (const state of states) total += queueCounts[state] || 0;
+    }
+    return { total, jobs: jobs.flat().filter((job): job is Job => !!job) };
+  }
+
+  /**
+   * Prioritized jobs are slotted into the waiting list by priority rather than
+   * age, so the newest waiting jobs are no longer at its head
+   */
+  private async hasPrioritizedJobs(queues: Queue[]): Promise<boolean> {
+    const sizes = await Promise.all(
+      queues.map((queue) => queue.client.zcard(queue.toKey('priority')))
+    );
+    return sizes.some((size) => size > 0);
+  }
+
+  /**
+   * Filters Redis cannot apply are checked a chunk at a time, keeping only
+   * the matches in memory
+   */
+  private async scan(
+    queues: Queue[],
+    states: JobStatus[],
+    matches: (job: Job) => boolean
+  ): Promise<{ total: number; jobs: Job[] }> {
+    const found: Job[] = [];
+    for (const queue of queues) {
+      for (const state of states) {
+        for (let start = 0; ; start += SCAN_CHUNK) {
+          const chunk = await queue.getJobs([state], start, start + SCAN_CHUNK - 1);
+          found.push(...chunk.filter((job): job is Job => !!job && matches(job)));
+          if (chunk.length < SCAN_CHUNK) break;
+        }
+      }
+    }
+    return { total: found.length, jobs: found };
+  }
+
+  async counts(): Promise<Record<string, Record<string, number>>> {
+    const entries = await Promise.all(
+      [...this.queues.entries()].map(async ([name, queue]) => [name, await queue.getJobCounts()])
+    );
+    return Object.fromEntries(entries);
+  }
+
+  async summarize(job: Job): Promise<JobSummary> {
+    const progress = job.progress();
+    return {
+      id: this.publicId(job),
+      queue: job.queue.name,
+      type: job.name,
+      state: (await job.getState()) as JobState,
+      progress: typeof progress === 'number' ? progress : 0,
+      priority: job.opts.priority ?? null,
+      attemptsMade: job.attemptsMade,
+      maxAttempts: job.opts.attempts || 1,
+      failedReason: job.failedReason || null,
+      cancelRequested: !!job.data?.cancelRequested,
+      data: job.data,
+      result: job.returnvalue ?? null,
+      createdAt: new Date(job.timestamp),
+      startedAt: job.processedOn ? new Date(job.processedOn) : null,
+      finishedAt: job.finishedOn ? new Date(job.finishedOn) : null,
+      durationMs: job.processedOn && job.finishedOn ? job.finishedOn - job.processedOn : null,
+    };
+  }
+
+  /**
+   * Queued jobs are removed outright. Bull cannot interrupt a running job, so
+   * active jobs are flagged and their worker stops at its next checkpoint.
+   */
+  async cancel(id: string): Promise<{ job: Job; removed: boolean }> {
+    const job = await this.get(id);
+    const state = await job.getState();
+
+    if (state === 'waiting' || state === 'delayed' || state === 'paused') {
+      await job.remove();
+      logger.info(`Job ${id} removed from queue`);
+      return { job, removed: true };
+    }
+
+    if (state === 'active') {
+      await job.update({ ...job.data, cancelRequested: true });
+      logger.info(`Cancellation requested for running job ${id}`);
+      return { job, removed: false };
+    }
+
+    throw new JobStateError(`Job ${id} is ${state} and cannot be cancelled`);
+  }
+
+  async retry(id: string): Promise<Job> {
+    const job = await this.get(id);
+    const state = await job.getState();
+    if (state !== 'failed') {
+      throw new JobStateError(`Only failed jobs can be retried; job ${id} is ${state}`);
+    }
+
+    if (job.data?.cancelRequested) {
+      const data = { ...job.data };
+      delete data.cancelRequested;
+      await job.update(data);
+    }
+    await job.retry();
+    logger.info(`Job ${id} queued for retry`);
+    return job;
+  }
+
+  /**
+   * Bull has no in-place priority change, so a queued job is re-added with
+   * the new priority (1 is highest) and gets a new id
+   */
+  async changePriority(id: string, priority: number): Promise<Job> {
+    const job = await this.get(id);
+    const state = await job.getState();
+    if (state !== 'waiting' && state !== 'delayed') {
+      throw new JobStateError(`Priority can only change while queued; job ${id} is ${state}`);
+    }
+
+    const remainingDelay = job.opts.delay
+      ? Math.max(job.timestamp + job.opts.delay - Date.now(), 0)
+      : 0;
+    const opts = { ...job.opts };
+    delete opts.jobId;
+
+    try {
+      await job.remove();
+    } catch {
+      throw new JobStateError(`Job ${id} started before its priority could change`);
+    }
+
+    const replacement = await job.queue.add(job.name, job.data, {
+      ...opts,
+      priority,
+      delay: remainingDelay,
+    });
+    logger.info(`Job ${id} re-queued as ${this.publicId(replacement)} with priority ${priority}`);
+    return replacement;
+  }
+
+  /**
+   * Worker checkpoint: reloads the job and throws once cancellation was requested
+   */
+  async throwIfCancelled(job: Job): Promise<void> {
+    const current = await job.queue.getJob(job.id);
+    if (current?.data?.cancelRequested) {
+      job.discard();
+      throw new JobCancelledError(this.publicId(job));
+    }
+  }
+}
+
+export default new JobService();
@@ -0,0 +1,266 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { dubbingQueue, MASTER_EXPORT_JOB } from '../config/queue';
+import { audioLogger as logger, logPerformance } from '../utils/logger';
+import { toIso6392 } from '../utils/iso639';
+import ffmpegService, { MuxTrack } from './ffmpeg.service';
+import storageService from './storage.service';
+import subtitleService from './subtitle.service';
+import jobService from './job.service';
+import { RenderStatus, DownloadFile } from './dub-render.service';
+
+export type MasterFormat = 'mkv' | 'mp4';
+
+export interface MasterExportOptions {
+  format?: MasterFormat;
+  /** Limit to these dub languages; every completed dub otherwise */
+  languages?: string[];
+  /** Keep the video's own audio as the first track (default true) */
+  includeOriginalAudio?: boolean;
+  /** Embed a subtitle track for the source and each dubbed language */
+  includeSubtitles?: boolean;
+  /** Skip dub tracks a reviewer has not signed off */
+  approvedOnly?: boolean;
+}
+
+/** Kept on Video.metadata.masterExport */
+export interface MasterExportState {
+  status: RenderStatus;
+  jobId?: string;
+  format?: MasterFormat;
+  path?: string;
+  /** Dub languages in track order */
+  languages?: string[];
+  subtitles?: string[];
+  exportedAt?: string;
+  error?: string | null;
+}
+
+export interface MasterExportSummary {
+  videoId: string;
+  path: string;
+  format: MasterFormat;
+  languages: string[];
+  subtitles: string[];
+}
+
+export interface QueuedMasterExport {
+  videoId: string;
+  jobId: string;
+  languages: string[];
+}
+
+const tempPath = (name: string) =>
+  path.join(os.tmpdir(), `master_${crypto.randomBytes(6).toString('hex')}_${name}`);
+
+export class MasterExportService {
+  /**
+   * Newest completed track per language whose file is still on disk
+   */
+  async findTracks(videoId: string, options: MasterExportOptions = {}) {
+    const dubbings = await prisma.dubbing.findMany({
+      where: {
+        videoId,
+        status: 'COMPLETED',
+        ...(options.languages?.length ? { language: { in: options.languages } } : {}),
+        ...(options.approvedOnly ? { approvedAt: { not: null } } : {}),
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const latest = new Map<string, (typeof dubbings)[number]>();
+    for (const dubbing of dubbings) {
+      const trackPath = (dubbing.metadata as any)?.storagePath;
+      if (!latest.has(dubbing.language) && trackPath && fs.existsSync(trackPath)) {
+        latest.set(dubbing.language, dubbing);
+      }
+    }
+    return [...latest.values()].sort((a, b) => a.language.localeCompare(b.language));
+  }
+
+  async updateExport(videoId: string, patch: Partial<MasterExportState>): Promise<void> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      return;
+    }
+    const metadata = (video.metadata as any) || {};
+    await prisma.video.update({
+      where: { id: videoId },
+      data: { metadata: { ...metadata, masterExport: { ...metadata.masterExport, ...patch } } },
+    });
+  }
+
+  async queue(videoId: string, options: MasterExportOptions = {}): Promise<QueuedMasterExport> {
+    const tracks = await this.findTracks(videoId, options);
+    if (tracks.length === 0) {
+      throw new Error(`No completed dub tracks for video ${videoId}`);
+    }
+
+    const job = await dubbingQueue.add(MASTER_EXPORT_JOB, { videoId, options });
+    const jobId = jobService.publicId(job);
+    await this.updateExport(videoId, {
+      status: 'queued',
+      jobId,
+      format: options.format || 'mkv',
+      error: null,
+    });
+
+    return { videoId, jobId, languages: tracks.map((track) => track.language) };
+  }
+
+  /**
+   * One export per project video that has at least one usable dub track
+   */
+  async queueForProject(
+    projectId: string,
+    options: MasterExportOptions = {}
+  ): Promise<QueuedMasterExport[]> {
+    const videos = await prisma.video.findMany({
+      where: { projectId, dubbings: { some: { status: 'COMPLETED' } } },
+      select: { id: true },
+    });
+
+    const queued: QueuedMasterExport[] = [];
+    for (const video of videos) {
+      if ((await this.findTracks(video.id, options)).length > 0) {
+        queued.push(await this.queue(video.id, options));
+      }
+    }
+    return queued;
+  }
+
+  /**
+   * Mux the original video with every selected dub as a tagged audio track,
+   * plus optional subtitle tracks, and store the result
+   */
+  async export(
+    videoId: string,
+    options: MasterExportOptions = {},
+    onProgress: (percent: number) => void = () => undefined,
+    beforeStore: () => Promise<void> = async () => undefined
+  ): Promise<MasterExportSummary> {
+    const startTime = Date.now();
+    const format: MasterFormat = options.format === 'mp4' ? 'mp4' : 'mkv';
+
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      include: { project: true },
+    });
+    if (!video) {
+      throw new Error(`Video ${videoId} not found`);
+    }
+    if (!fs.existsSync(video.originalUrl)) {
+      throw new Error(`Video file for ${videoId} is missing`);
+    }
+
+    const tracks = await this.findTracks(videoId, options);
+    if (tracks.length === 0) {
+      throw new Error(`No completed dub tracks for video ${videoId}`);
+    }
+
+    const sourceLanguage =
+      (video.project.settings as any)?.sourceLanguage ||
+      (video.metadata as any)?.transcription?.language ||
+      'en';
+    const keepOriginal =
+      options.includeOriginalAudio !== false &&
+      (await ffmpegService.hasAudioStream(video.originalUrl));
+
+    const audioTracks: MuxTrack[] = tracks.map((track) => ({
+      path: (track.metadata as any).storagePath,
+      language: toIso6392(track.language),
+      title: `Dub (${track.language})`,
+    }));
+
+    const temporary: string[] = [];
+    const subtitleTracks: MuxTrack[] = [];
+    const subtitleLanguages: string[] = [];
+    const outputPath = tempPath(`${videoId}.${format}`);
+    temporary.push(outputPath);
+
+    try {
+      if (options.includeSubtitles) {
+        const sources = [
+          {
+            language: sourceLanguage,
+            title: 'Original',
+            cues: await subtitleService.getSourceCues(videoId),
+          },
+          ...(await Promise.all(
+            tracks.map(async (track) => ({
+              language: track.language,
+              title: track.language,
+              cues: (await subtitleService.getTranslationCues(videoId, track.language)) || [],
+            }))
+          )),
+        ];
+
+        for (const source of sources) {
+          if (source.cues.length === 0) {
+            continue;
+          }
+          const srtPath = tempPath(`${source.language}.srt`);
+          temporary.push(srtPath);
+          await fs.promises.writeFile(srtPath, subtitleService.toSrt(source.cues), 'utf8');
+          subtitleTracks.push({
+            path: srtPath,
+            language: toIso6392(source.language),
+            title: source.title,
+          });
+          subtitleLanguages.push(source.language);
+        }
+      }
+
+      await ffmpegService.muxMaster(video.originalUrl, audioTracks, subtitleTracks, outputPath, {
+        format,
+        originalAudio: keepOriginal
+          ? { language: toIso6392(sourceLanguage), title: 'Original' }
+          : undefined,
+        onProgress,
+      });
+      await beforeStore();
+
+      const stored = await storageService.storeVideo(outputPath, `${videoId}_master.${format}`);
+      const languages = tracks.map((track) => track.language);
+
+      await this.updateExport(videoId, {
+        status: 'completed',
+        format,
+        path: stored.path,
+        languages,
+        subtitles: subtitleLanguages,
+        exportedAt: new Date().toISOString(),
+        error: null,
+      });
+
+      logPerformance('export_master', startTime, {
+        videoId,
+        format,
+        audioTracks: audioTracks.length + (keepOriginal ? 1 : 0),
+        subtitleTracks: subtitleTracks.length,
+      });
+
+      return { videoId, path: stored.path, format, languages, subtitles: subtitleLanguages };
+    } finally {
+      await Promise.all(temporary.map((file) => fs.promises.unlink(file).catch(() => undefined)));
+    }
+  }
+
+  async findDownload(videoId: string): Promise<DownloadFile | null> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const state: MasterExportState | undefined = (video?.metadata as any)?.masterExport;
+    if (state?.status !== 'completed' || !state.path) {
+      return null;
+    }
+    if (!fs.existsSync(state.path)) {
+      logger.warn(`Master export file missing for video ${videoId}`, { path: state.path });
+      return null;
+    }
+    return { path: state.path, filename: `${videoId}_master.${state.format || 'mkv'}` };
+  }
+}
+
+export default new MasterExportService();
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { dubbingQueue, OPEN_CAPTION_JOB } from '../config/queue';
+import { audioLogger as logger, logPerformance } from '../utils/logger';
+import ffmpegService from './ffmpeg.service';
+import storageService from './storage.service';
+import subtitleService, {
+  CaptionStyle,
+  DEFAULT_CAPTION_STYLE,
+  SubtitleCue,
+} from './subtitle.service';
+import jobService from './job.service';
+import { RenderStatus, DownloadFile } from './dub-render.service';
+
+/** Burns the transcript rather than a translation */
+export const SOURCE_LANGUAGE = 'source';
+
+const FONTS_DIR = process.env.CAPTION_FONTS_DIR;
+
+/** Kept on Video.metadata.openCaptions, keyed by language */
+export interface OpenCaptionState {
+  status: RenderStatus;
+  jobId?: string;
+  style?: CaptionStyle;
+  path?: string;
+  renderedAt?: string;
+  error?: string | null;
+}
+
+export interface OpenCaptionSummary {
+  videoId: string;
+  language: string;
+  path: string;
+  cueCount: number;
+}
+
+const tempPath = (name: string) =>
+  path.join(os.tmpdir(), `captions_${crypto.randomBytes(6).toString('hex')}_${name}`);
+
+export class OpenCaptionService {
+  /** Style fields the caller left out take the defaults; unknown ones are dropped */
+  resolveStyle(style: Partial<CaptionStyle> = {}): CaptionStyle {
+    const keys = ['fontFamily', ...Object.keys(DEFAULT_CAPTION_STYLE)];
+    const given = Object.fromEntries(
+      Object.entries(style).filter(
+        ([key, value]) => keys.includes(key) && value !== undefined && value !== null
+      )
+    );
+    return { ...DEFAULT_CAPTION_STYLE, ...given };
+  }
+
+  /**
+   * Cues and their language; null if there is nothing to caption with
+   */
+  async getCues(
+    videoId: string,
+    language: string
+  ): Promise<{ language?: string; cues: SubtitleCue[] } | null> {
+    if (language === SOURCE_LANGUAGE) {
+      return subtitleService.getSource(videoId);
+    }
+    const cues = await subtitleService.getTranslationCues(videoId, language);
+    return cues ? { language, cues } : null;
+  }
+
+  async updateState(
+    videoId: string,
+    language: string,
+    patch: Partial<OpenCaptionState>
+  ): Promise<void> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      return;
+    }
+    const metadata = (video.metadata as any) || {};
+    const openCaptions = metadata.openCaptions || {};
+    await prisma.video.update({
+      where: { id: videoId },
+      data: {
+        metadata: {
+          ...metadata,
+          openCaptions: { ...openCaptions, [language]: { ...openCaptions[language], ...patch } },
+        },
+      },
+    });
+  }
+
+  async queue(
+    videoId: string,
+    language: string,
+    style: Partial<CaptionStyle> = {}
+  ): Promise<{ jobId: string; style: CaptionStyle }> {
+    const resolved = this.resolveStyle(style);
+    const job = await dubbingQueue.add(OPEN_CAPTION_JOB, { videoId, language, style: resolved });
+    const jobId = jobService.publicId(job);
+    await this.updateState(videoId, language, {
+      status: 'queued',
+      jobId,
+      style: resolved,
+      error: null,
+    });
+    return { jobId, style: resolved };
+  }
+
+  /**
+   * Burn a language's captions into the picture and store the result
+   */
+  async burn(
+    videoId: string,
+    language: string,
+    style: CaptionStyle = DEFAULT_CAPTION_STYLE,
+    onProgress: (percent: number) => void = () => undefined,
+    beforeStore: () => Promise<void> = async () => undefined
+  ): Promise<OpenCaptionSummary> {
+    const startTime = Date.now();
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      throw new Error(`Video ${videoId} not found`);
+    }
+    if (!fs.existsSync(video.originalUrl)) {
+      throw new Error(`Video file for ${videoId} is missing`);
+    }
+
+    const source = await this.getCues(videoId, language);
+    if (!source?.cues.length) {
+      throw new Error(`No ${language} captions for video ${videoId}`);
+    }
+
+    const info = await ffmpegService.getVideoInfo(video.originalUrl).catch(() => ({}));
+    const scriptPath = tempPath(`${language}.ass`);
+    const outputPath = tempPath(`${language}.mp4`);
+
+    try {
+      await fs.promises.writeFile(
+        scriptPath,
+        subtitleService.toAss(source.cues, style, {
+          language: source.language,
+          width: info.width,
+          height: info.height,
+        }),
+        'utf8'
+      );
+      await ffmpegService.burnSubtitles(video.originalUrl, scriptPath, outputPath, {
+        fontsDir: FONTS_DIR,
+        onProgress,
+      });
+      await beforeStore();
+
+      const stored = await storageService.storeVideo(
+        outputPath,
+        `${videoId}_${language}_captioned.mp4`,
+        { subfolder: 'open-captions' }
+      );
+      await this.updateState(videoId, language, {
+        status: 'completed',
+        style,
+        path: stored.path,
+        renderedAt: new Date().toISOString(),
+        error: null,
+      });
+
+      logPerformance('burn_open_captions', startTime, {
+        videoId,
+        language,
+        cues: source.cues.length,
+      });
+
+      return { videoId, language, path: stored.path, cueCount: source.cues.length };
+    } finally {
+      await Promise.all(
+        [scriptPath, outputPath].map((file) => fs.promises.unlink(file).catch(() => undefined))
+      );
+    }
+  }
+
+  async findDownload(videoId: string, language: string): Promise<DownloadFile | null> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const state: OpenCaptionState | undefined = (video?.metadata as any)?.openCaptions?.[language];
+    if (state?.status !== 'completed' || !state.path) {
+      return null;
+    }
+    if (!fs.existsSync(state.path)) {
+      logger.warn(`Captioned video missing for video ${videoId} (${language})`, {
+        path: state.path,
+      });
+      return null;
+    }
+    return { path: state.path, filename: `${videoId}_${language}_captioned.mp4` };
+  }
+}
+
+export default new OpenCaptionService();
@@ -0,0 +1,344 @@
+import { QAIssue } from '../types';
+
+export type PreservedKind = 'url' | 'email' | 'phone' | 'time' | 'date' | 'amount' | 'number';
+
+export interface PreservedEntity {
+  kind: PreservedKind;
+  /** The expression as written, used in issue descriptions */
+  text: string;
+  /** Canonical forms; two entities match when they share any key */
+  keys: string[];
+}
+
+const KIND_LABELS: Record<PreservedKind, string> = {
+  url: 'URL',
+  email: 'Email address',
+  phone: 'Phone number',
+  time: 'Time',
+  date: 'Date',
+  amount: 'Dollar amount',
+  number: 'Number',
+};
+
+// Zero code points of the decimal digit systems used by our languages
+const DIGIT_ZEROS = [0x0660, 0x06f0, 0x0966, 0x09e6, 0xff10];
+
+// Languages that write 1.234,5 rather than 1,234.5
+const DECIMAL_COMMA_LANGUAGES = ['es', 'fr', 'ru', 'pl', 'ht'];
+
+const ENGLISH_MONTHS = [
+  'jan(?:uary)?',
+  'feb(?:ruary)?',
+  'mar(?:ch)?',
+  'apr(?:il)?',
+  'may',
+  'june?',
+  'july?',
+  'aug(?:ust)?',
+  'sep(?:t(?:ember)?)?',
+  'oct(?:ober)?',
+  'nov(?:ember)?',
+  'dec(?:ember)?',
+];
+
+// Month names (or stems, for inflected languages) by target language. Chinese
+// and Korean write months as numerals (11月, 11월) and need no table.
+// prettier-ignore
+const TARGET_MONTHS: Record<string, string[]> = {
+  es: ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'se?ptiembre', 'octubre', 'noviembre', 'diciembre'],
+  fr: ['janvier', 'février', 'mars', 'avril', 'mai', 'juin', 'juillet', 'août', 'septembre', 'octobre', 'novembre', 'décembre'],
+  ht: ['janvye', 'fevriye', 'mas', 'avril', 'me', 'jen', 'jiy[èe]', 'out', 'septanm', 'okt[òo]b', 'novanm', 'desanm'],
+  ru: ['январ', 'феврал', 'март', 'апрел', 'ма[йя]', 'июн', 'июл', 'август', 'сентябр', 'октябр', 'ноябр', 'декабр'],
+  pl: ['stycz', 'lut', 'mar(?:zec|ca)', 'kwie', 'maj', 'czerw', 'lip', 'sierp', 'wrze', 'październik', 'listopad', 'grud'],
+  ar: ['يناير|كانون الثاني', 'فبراير|شباط', 'مارس|آذار', '[أإا]بريل|نيسان', 'مايو|أيار', 'يوني[وه]|حزيران', 'يولي[وه]|تموز', 'أغسطس|آب', 'سبتمبر|أيلول', 'أكتوبر|تشرين الأول', 'نوفمبر|تشرين الثاني', 'ديسمبر|كانون الأول'],
+  ur: ['جنوری', 'فروری', 'مارچ', 'اپریل', 'مئی', 'جون', 'جولائی', 'اگست', 'ستمبر', 'اکتوبر', 'نومبر', 'دسمبر'],
+  bn: ['জানুয়ারি', 'ফেব্রুয়ারি', 'মার্চ', 'এপ্রিল', 'মে', 'জুন', 'জুলাই', 'আগস্ট', 'সেপ্টেম্বর', 'অক্টোবর', 'নভেম্বর', 'ডিসেম্বর'],
+};
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const URL =
+  /(?:https?:\/\/|www\.)[^\s<>"]+|\b[a-z0-9][a-z0-9-]*(?:\.[a-z0-9-]+)*\.(?:gov|org|com|net|edu|nyc|us)\b(?:\/[^\s<>"]*)?/gi;
+const PHONE = /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|(?<!\d)\d{3}[\s.-])\d{3}[\s.-]\d{4}(?!\d)/g;
+const CLOCK_TIME = /(?<!\d)(\d{1,2})\s?[:h]\s?(\d{2})(?!\d)(?:\s*([ap])\.?\s?m(?!\p{L})\.?)?/giu;
+const HOUR_TIME = /(?<!\d)(\d{1,2})\s*(?:([ap])\.?\s?m(?!\p{L})\.?|h(?!\p{L}))/giu;
+const AMOUNT = /\$\s?(\d[\d,]*(?:\.\d+)?)/g;
+const ORDINAL = '(?:st|nd|rd|th)?';
+
+export class PreservationService {
+  /**
+   * Compare numbers, dates, times, phone numbers, URLs, emails and dollar amounts
+   * between an English source and its translation. Every mismatch is critical:
+   * a wrong hotline digit or election date is worse than an awkward sentence.
+   */
+  check(
+    sourceText: string,
+    translatedText: string,
+    targetLanguageCode: string,
+    timestamp?: number
+  ): QAIssue[] {
+    const source = this.extract(sourceText, 'en');
+    const target = this.extract(translatedText, targetLanguageCode);
+    const missing = new Map<string, PreservedEntity>();
+
+    for (const entity of source) {
+      if (!this.consume(entity, target)) {
+        missing.set(`${entity.kind}:${entity.text}`, entity);
+      }
+    }
+
+    const issues: QAIssue[] = [];
+    for (const entity of missing.values()) {
+      issues.push({
+        type: 'translation',
+        severity: 'critical',
+        timestamp,
+        description: `${KIND_LABELS[entity.kind]} "${entity.text}" is missing or altered in the translation`,
+        suggestedFix: `Restore "${entity.text}" exactly as it appears in the source`,
+      });
+    }
+
+    // Whatever is left in the translation was never in the source
+    const added = new Map(target.map((entity) => [`${entity.kind}:${entity.text}`, entity]));
+    for (const entity of added.values()) {
+      issues.push({
+        type: 'translation',
+        severity: 'critical',
+        timestamp,
+        description: `Translation contains ${KIND_LABELS[entity.kind].toLowerCase()} "${entity.text}" that is not in the source`,
+        suggestedFix: 'Remove or correct the added value',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Pull preservable expressions out of text. Each step blanks what it matched
+   * so later, broader patterns do not count it twice.
+   */
+  extract(text: string, languageCode: string): PreservedEntity[] {
+    const entities: PreservedEntity[] = [];
+    let working = this.normalizeDigits(text);
+
+    const take = (
+      pattern: RegExp,
+      toEntities: (match: string, groups: string[]) => PreservedEntity[]
+    ) => {
+      working = working.replace(pattern, (match: string, ...rest: unknown[]) => {
+        // Trailing replacer arguments are the offset and the whole string
+        const groups = rest.slice(0, -2).map((group) => (group as string | undefined) ?? '');
+        entities.push(...toEntities(match, groups));
+        return ' ';
+      });
+    };
+
+    take(EMAIL, (match) => [
+      { kind: 'email', text: match, keys: [match.toLowerCase().replace(/\.$/, '')] },
+    ]);
+    take(URL, (match) => {
+      const trimmed = match.replace(/[.,;:!?)\]'"»。]+$/, '');
+      const key = trimmed
+        .toLowerCase()
+        .replace(/^https?:\/\//, '')
+        .replace(/^www\./, '')
+        .replace(/\/$/, '');
+      return [{ kind: 'url', text: trimmed, keys: [key] }];
+    });
+    take(PHONE, (match) => [
+      { kind: 'phone', text: match.trim(), keys: [match.replace(/\D/g, '').slice(-10)] },
+    ]);
+    take(CLOCK_TIME, (match, [hour, minute, meridiem]) => [
+      this.timeEntity(match, parseInt(hour), parseInt(minute), meridiem),
+    ]);
+    take(HOUR_TIME, (match, [hour, meridiem]) => [
+      this.timeEntity(match, parseInt(hour), 0, meridiem),
+    ]);
+
+    if (languageCode === 'en') {
+      const month = `(${ENGLISH_MONTHS.join('|')})\\.?`;
+      // "November 5, 2024" and "5th of November 2024"
+      take(
+        new RegExp(`\\b${month}\\s+(\\d{1,2})${ORDINAL}(?:,?\\s+(\\d{4}))?(?!\\d)`, 'gi'),
+        (match, [name, day, year]) => this.dateEntities(match, this.englishMonth(name), day, year)
+      );
+      take(
+        new RegExp(
+          `(?<!\\d)(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${month}(?!\\p{L})(?:,?\\s+(\\d{4}))?`,
+          'giu'
+        ),
+        (match, [day, name, year]) => this.dateEntities(match, this.englishMonth(name), day, year)
+      );
+      take(/(?<!\d)(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?(?!\d)/g, (match, [month, day, year]) =>
+        this.dateEntities(match, parseInt(month), day, year)
+      );
+    } else {
+      this.targetMonths(languageCode).forEach((name, index) => {
+        // Only names next to a numeral count, so "me"/"mai" in running text are ignored
+        take(
+          new RegExp(
+            `(?<=\\d[\\s.,]*(?:de\\s+)?)(?:${name})[\\p{L}\\p{M}]*|(?:${name})[\\p{L}\\p{M}]*(?=[\\s.,]*\\d)`,
+            'giu'
+          ),
+          (match) => [{ kind: 'date', text: match, keys: [String(index + 1)] }]
+        );
+      });
+      // Day-first dotted dates (5.11.2024) would otherwise read as decimals
+      take(/(?<!\d)(\d{1,2})\.(\d{1,2})\.(\d{2,4})(?!\d)/g, (match, [day, month, year]) =>
+        this.dateEntities(match, parseInt(month), day, year)
+      );
+    }
+
+    take(AMOUNT, (match, [value]) => [
+      { kind: 'amount', text: match, keys: [this.canonicalNumber(value.replace(/,/g, ''))] },
+    ]);
+
+    // Decimal-comma locales also group thousands with (narrow) no-break spaces
+    const numberPattern = DECIMAL_COMMA_LANGUAGES.includes(languageCode)
+      ? /(?<!\d)\d{1,3}(?:[.\u00a0\u202f ]\d{3})+(?:,\d+)?(?!\d)|\d+(?:,\d+)?/g
+      : /(?<!\d)\d{1,3}(?:,\d{3})+(?:\.\d+)?(?!\d)|\d+(?:\.\d+)?/g;
+    take(numberPattern, (match) => [
+      { kind: 'number', text: match, keys: this.numberKeys(match, languageCode) },
+    ]);
+
+    return entities;
+  }
+
+  /**
+   * Map native digit systems (Bengali, Eastern Arabic, Urdu, full-width) to ASCII
+   */
+  normalizeDigits(text: string): string {
+    return text
+      .replace(/\p{Nd}/gu, (digit) => {
+        const code = digit.codePointAt(0)!;
+        const zero = DIGIT_ZEROS.find((start) => code >= start && code <= start + 9);
+        return zero === undefined ? digit : String(code - zero);
+      })
+      .replace(/٫/g, '.')
+      .replace(/٬/g, ',');
+  }
+
+  /**
+   * Remove a matching entity from the translation's pool. Dates, amounts and
+   * numbers match on value, since a translation may reformat "$5" as "5 dólares".
+   */
+  private consume(entity: PreservedEntity, target: PreservedEntity[]): boolean {
+    const numeric = ['date', 'amount', 'number'];
+    const compatible = (candidate: PreservedEntity) =>
+      candidate.kind === entity.kind ||
+      (numeric.includes(entity.kind) && numeric.includes(candidate.kind));
+
+    const index = target.findIndex(
+      (candidate) =>
+        compatible(candidate) && candidate.keys.some((key) => entity.keys.includes(key))
+    );
+    if (index !== -1) {
+      target.splice(index, 1);
+      return true;
+    }
+
+    // A reformatted phone number may come back as one run of digits
+    if (entity.kind === 'phone') {
+      return this.consumeNumbers([entity.keys[0]], target);
+    }
+    // "7 PM" is often written out as "7 de la noche" or "오후 7시 30분"
+    if (entity.kind === 'time') {
+      const [hour, minute] = entity.keys[1].split(':').map(Number);
+      const hours = [String(hour || 12), String(hour + 12)];
+      return minute === 0
+        ? this.consumeNumbers([hours], target)
+        : this.consumeNumbers([hours, String(minute)], target);
+    }
+    return false;
+  }
+
+  /**
+   * Consume one number per requirement; each requirement lists acceptable values
+   */
+  private consumeNumbers(
+    requirements: Array<string | string[]>,
+    target: PreservedEntity[]
+  ): boolean {
+    const indexes: number[] = [];
+    for (const requirement of requirements) {
+      const accepted = Array.isArray(requirement) ? requirement : [requirement];
+      const index = target.findIndex(
+        (candidate, i) =>
+          !indexes.includes(i) &&
+          candidate.kind === 'number' &&
+          candidate.keys.some((key) => accepted.includes(key))
+      );
+      if (index === -1) return false;
+      indexes.push(index);
+    }
+
+    indexes.sort((a, b) => b - a).forEach((index) => target.splice(index, 1));
+    return true;
+  }
+
+  /**
+   * Times match on the 12-hour clock: a translation may say "7:30 de la tarde"
+   * for 7:30 PM or use 19:30 instead.
+   */
+  private timeEntity(
+    text: string,
+    hour: number,
+    minute: number,
+    meridiem?: string
+  ): PreservedEntity {
+    let hour24 = hour;
+    if (meridiem?.toLowerCase() === 'p' && hour < 12) hour24 += 12;
+    if (meridiem?.toLowerCase() === 'a' && hour === 12) hour24 = 0;
+
+    return {
+      kind: 'time',
+      text: text.trim(),
+      keys: [String((hour24 % 12) * 60 + minute), `${hour24 % 12}:${minute}`],
+    };
+  }
+
+  private dateEntities(text: string, month: number, day: string, year?: string): PreservedEntity[] {
+    const parts = [String(month), day, year].filter((part): part is string => !!part);
+    return parts.map((part) => ({
+      kind: 'date',
+      text: text.trim(),
+      keys: [this.canonicalNumber(part)],
+    }));
+  }
+
+  private englishMonth(name: string): number {
+    const lower = name.toLowerCase();
+    return ENGLISH_MONTHS.findIndex((pattern) => new RegExp(`^(?:${pattern})$`).test(lower)) + 1;
+  }
+
+  private targetMonths(languageCode: string): string[] {
+    return TARGET_MONTHS[languageCode] || [];
+  }
+
+  /**
+   * Candidate values for a number written in the target locale. "1,200" or
+   * "1.200" is ambiguous when the model kept the English separators.
+   */
+  private numberKeys(text: string, languageCode: string): string[] {
+    const compact = text.replace(/[\s\u00a0\u202f]/g, '');
+    const decimalComma = DECIMAL_COMMA_LANGUAGES.includes(languageCode);
+    const localized = decimalComma
+      ? compact.replace(/\./g, '').replace(',', '.')
+      : compact.replace(/,/g, '');
+    const keys = [this.canonicalNumber(localized)];
+
+    if (/^\d{1,3}[.,]\d{3}$/.test(compact)) {
+      keys.push(
+        this.canonicalNumber(compact.replace(/[.,]/, '')),
+        this.canonicalNumber(compact.replace(',', '.'))
+      );
+    }
+    return Array.from(new Set(keys));
+  }
+
+  private canonicalNumber(value: string): string {
+    const parsed = parseFloat(value);
+    return Number.isNaN(parsed) ? value : String(parsed);
+  }
+}
+
+export default new PreservationService();
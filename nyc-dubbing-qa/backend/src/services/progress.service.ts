@@ -0,0 +1,176 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventEmitter } from 'events';
+import { Job, Queue } from 'bull';
+import Redis from 'ioredis';
+import redisClient from '../config/redis';
+import { logger, performanceEvents, PerformanceMetric } from '../utils/logger';
+import jobService from './job.service';
+
+export type PipelineEventType =
+  | 'job.active'
+  | 'job.progress'
+  | 'job.completed'
+  | 'job.failed'
+  | 'transcription.chunk'
+  | 'translation.segment'
+  | 'tts.segment'
+  | 'performance';
+
+/** What an event belongs to; filled in from the surrounding job or request */
+export interface PipelineContext {
+  videoId?: string;
+  jobId?: string;
+  batchId?: string;
+  language?: string;
+}
+
+export interface PipelineEvent extends PipelineContext {
+  type: PipelineEventType;
+  /** Overall percent for the job or request, when known */
+  progress?: number;
+  data?: Record<string, any>;
+  timestamp: string;
+}
+
+export type PipelineEventFilter = Pick<PipelineContext, 'videoId' | 'jobId'>;
+
+// API and worker processes may be separate, so events travel over Redis
+const CHANNEL = 'pipeline-events';
+
+const matches = (event: PipelineEvent, filter: PipelineEventFilter): boolean =>
+  (!filter.videoId || event.videoId === filter.videoId) &&
+  (!filter.jobId || event.jobId === filter.jobId);
+
+export class ProgressService {
+  private emitter = new EventEmitter();
+  private context = new AsyncLocalStorage<PipelineContext>();
+  private subscriber?: Redis;
+  private watched = new Set<string>();
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+
+    // Performance hooks only surface when they run inside a job or request scope
+    performanceEvents.on('metric', (metric: PerformanceMetric) => {
+      if (this.context.getStore()) {
+        this.publish({ type: 'performance', data: metric });
+      }
+    });
+  }
+
+  /**
+   * Run `fn` with a context that every event published inside it inherits
+   */
+  runInContext<T>(context: PipelineContext, fn: () => T): T {
+    return this.context.run({ ...this.context.getStore(), ...context }, fn);
+  }
+
+  /**
+   * Fire-and-forget; progress reporting must never fail the work it describes
+   */
+  publish(event: Omit<PipelineEvent, 'timestamp'>): void {
+    const full: PipelineEvent = {
+      ...this.context.getStore(),
+      ...event,
+      timestamp: new Date().toISOString(),
+    };
+
+    // Without Redis, listeners in this process still hear about local work
+    if (redisClient.status !== 'ready') {
+      this.emitter.emit('event', full);
+      return;
+    }
+    redisClient.publish(CHANNEL, JSON.stringify(full)).catch((error) => {
+      logger.debug('Could not publish pipeline event', { type: full.type, error: error.message });
+      this.emitter.emit('event', full);
+    });
+  }
+
+  /**
+   * Listen for events matching the filter; returns the unsubscribe function
+   */
+  subscribe(filter: PipelineEventFilter, listener: (event: PipelineEvent) => void): () => void {
+    this.startRelay();
+    const handler = (event: PipelineEvent) => {
+      if (matches(event, filter)) {
+        listener(event);
+      }
+    };
+    this.emitter.on('event', handler);
+    return () => {
+      this.emitter.off('event', handler);
+    };
+  }
+
+  /**
+   * Forward Bull lifecycle and progress events for jobs processed in this
+   * process. Call where workers run.
+   */
+  watchQueues(queues: Queue[]): void {
+    for (const queue of queues) {
+      if (this.watched.has(queue.name)) {
+        continue;
+      }
+      this.watched.add(queue.name);
+
+      queue.on('active', (job: Job) => {
+        this.publish({ ...this.jobContext(job), type: 'job.active', progress: 0 });
+      });
+      queue.on('progress', (job: Job, progress: number) => {
+        this.publish({ ...this.jobContext(job), type: 'job.progress', progress });
+      });
+      queue.on('completed', (job: Job, result: any) => {
+        this.publish({
+          ...this.jobContext(job),
+          type: 'job.completed',
+          progress: 100,
+          data: { result },
+        });
+      });
+      queue.on('failed', (job: Job, error: Error) => {
+        this.publish({
+          ...this.jobContext(job),
+          type: 'job.failed',
+          data: {
+            error: error.message,
+            attemptsMade: job.attemptsMade,
+            maxAttempts: job.opts.attempts || 1,
+          },
+        });
+      });
+    }
+  }
+
+  jobContext(job: Job): PipelineContext {
+    return {
+      videoId: job.data?.videoId,
+      jobId: jobService.publicId(job),
+      batchId: job.data?.batchId,
+      language: job.data?.language,
+    };
+  }
+
+  private startRelay(): void {
+    if (this.subscriber) {
+      return;
+    }
+
+    this.subscriber = redisClient.duplicate();
+    this.subscriber.on('message', (_channel: string, message: string) => {
+      try {
+        this.emitter.emit('event', JSON.parse(message));
+      } catch (error: any) {
+        logger.warn('Dropped malformed pipeline event', { error: error.message });
+      }
+    });
+    this.subscriber.on('error', (error) => {
+      logger.debug('Pipeline event subscriber error', { error: error.message });
+    });
+    this.subscriber.subscribe(CHANNEL).catch((error) => {
+      logger.error('Could not subscribe to pipeline events', { error: error.message });
+    });
+  }
+}
+
+export default new ProgressService();
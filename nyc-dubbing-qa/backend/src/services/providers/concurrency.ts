@@ -0,0 +1,68 @@
+import { TranslationProvider } from './translation-provider';
+
+/**
+ * Counting semaphore: at most `limit` tasks run at once, the rest wait in order
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      // The finishing task hands its slot over without releasing it, so a
+      // new caller cannot take it between the wake-up and this task starting
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+}
+
+/**
+ * Limit from TRANSLATION_CONCURRENCY_<ID> (e.g. TRANSLATION_CONCURRENCY_OPENAI),
+ * else TRANSLATION_PROVIDER_CONCURRENCY
+ */
+export const providerConcurrency = (id: string): number =>
+  Math.max(
+    parseInt(
+      process.env[`TRANSLATION_CONCURRENCY_${id.toUpperCase()}`] ||
+        process.env.TRANSLATION_PROVIDER_CONCURRENCY ||
+        '4'
+    ) || 1,
+    1
+  );
+
+/**
+ * Route every call to a provider through its limiter. Limits apply per
+ * process, shared by interactive requests and queue workers.
+ */
+export const withConcurrencyLimit = (
+  provider: TranslationProvider,
+  limiter: ConcurrencyLimiter
+): TranslationProvider => {
+  const compare = provider.compare?.bind(provider);
+  return {
+    id: provider.id,
+    model: provider.model,
+    baseConfidence: provider.baseConfidence,
+    isAvailable: () => provider.isAvailable(),
+    translate: (request) => limiter.run(() => provider.translate(request)),
+    compare: compare && ((request) => limiter.run(() => compare(request))),
+  };
+};
@@ -0,0 +1,58 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { translationLogger as logger } from '../../utils/logger';
+import {
+  TranslationProvider,
+  ProviderTranslationRequest,
+  ProviderTranslation,
+  ProviderComparisonRequest,
+  buildTranslationPrompt,
+  buildComparisonPrompt,
+  COMPARISON_SYSTEM_PROMPT,
+} from './translation-provider';
+
+export class GeminiTranslationProvider implements TranslationProvider {
+  readonly id = 'gemini';
+  readonly model = 'gemini-1.5-flash';
+  readonly baseConfidence = 0.85;
+  private client: GoogleGenerativeAI | null = null;
+
+  isAvailable(): boolean {
+    return !!process.env.GOOGLE_API_KEY;
+  }
+
+  async translate(request: ProviderTranslationRequest): Promise<ProviderTranslation> {
+    const model = this.getClient().getGenerativeModel({ model: this.model });
+    const prompt = `${request.contextPrompt}\n\n${buildTranslationPrompt(request)}`;
+
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+
+    return {
+      translatedText: response.text().trim(),
+      usageTokens: response.usageMetadata?.totalTokenCount,
+    };
+  }
+
+  async compare(request: ProviderComparisonRequest): Promise<'A' | 'B'> {
+    const model = this.getClient().getGenerativeModel({ model: this.model });
+    const prompt = `${COMPARISON_SYSTEM_PROMPT}\n\n${buildComparisonPrompt(request)}`;
+
+    const result = await model.generateContent(prompt);
+    const response = await result.response;
+    return response.text().trim().toUpperCase().startsWith('A') ? 'A' : 'B';
+  }
+
+  /**
+   * Create the client on first use so the backend boots without an API key
+   */
+  private getClient(): GoogleGenerativeAI {
+    if (!this.client) {
+      if (!this.isAvailable()) {
+        throw new Error('GOOGLE_API_KEY is not set in the environment variables.');
+      }
+      this.client = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY!);
+      logger.info('Gemini translation provider initialized');
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,99 @@
+import { translationLogger as logger } from '../../utils/logger';
+import { TranslationProvider } from './translation-provider';
+import { OpenAITranslationProvider } from './openai.provider';
+import { GeminiTranslationProvider } from './gemini.provider';
+import { LocalTranslationProvider } from './local.provider';
+import { ConcurrencyLimiter, providerConcurrency, withConcurrencyLimit } from './concurrency';
+
+export * from './translation-provider';
+
+const DEFAULT_PROVIDERS = ['openai', 'gemini'];
+const FALLBACK_PROVIDER = 'local';
+
+export class TranslationProviderRegistry {
+  private providers = new Map<string, TranslationProvider>();
+
+  register(provider: TranslationProvider): void {
+    const limiter = new ConcurrencyLimiter(providerConcurrency(provider.id));
+    this.providers.set(provider.id, withConcurrencyLimit(provider, limiter));
+    logger.info('Translation provider registered', {
+      provider: provider.id,
+      model: provider.model,
+      available: provider.isAvailable(),
+      concurrency: limiter.limit,
+    });
+  }
+
+  get(id: string): TranslationProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): Array<{ id: string; model: string; available: boolean }> {
+    return [...this.providers.values()].map((provider) => ({
+      id: provider.id,
+      model: provider.model,
+      available: provider.isAvailable(),
+    }));
+  }
+
+  /**
+   * Resolve the "model A vs model B" pair for a translation run.
+   * Explicitly requested providers must exist and be configured; the default
+   * pair falls back to the local provider for any engine without credentials.
+   */
+  resolvePair(requested?: string[]): [TranslationProvider, TranslationProvider] {
+    if (requested && requested.length > 0) {
+      const ids = requested.length === 1 ? [requested[0], requested[0]] : requested.slice(0, 2);
+      const pair = ids.map((id) => {
+        const provider = this.providers.get(id);
+        if (!provider) {
+          throw new Error(`Unknown translation provider: ${id}`);
+        }
+        if (!provider.isAvailable()) {
+          throw new Error(`Translation provider ${id} is not configured`);
+        }
+        return provider;
+      });
+      return [pair[0], pair[1]];
+    }
+
+    const defaults = (process.env.TRANSLATION_PROVIDERS?.split(',') || DEFAULT_PROVIDERS)
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    const pair = [0, 1].map((index) => {
+      const provider = this.providers.get(defaults[index] ?? defaults[0]);
+      if (provider?.isAvailable()) {
+        return provider;
+      }
+      logger.warn('Translation provider unavailable, using fallback', {
+        requested: defaults[index] ?? defaults[0],
+        fallback: FALLBACK_PROVIDER,
+      });
+      return this.providers.get(FALLBACK_PROVIDER)!;
+    });
+
+    return [pair[0], pair[1]];
+  }
+
+  /**
+   * Provider used to break ties when the pair only moderately agrees
+   */
+  resolveJudge(pair: [TranslationProvider, TranslationProvider]): TranslationProvider | undefined {
+    const preferred = process.env.TRANSLATION_JUDGE_PROVIDER || 'openai';
+    const candidates = [this.providers.get(preferred), ...pair];
+    return candidates.find((provider) => provider?.isAvailable() && provider.compare);
+  }
+}
+
+export const providerRegistry = new TranslationProviderRegistry();
+
+providerRegistry.register(new OpenAITranslationProvider());
+providerRegistry.register(new GeminiTranslationProvider());
+providerRegistry.register(new LocalTranslationProvider());
+
+export default providerRegistry;
@@ -0,0 +1,229 @@
+import {
+  TranslationProvider,
+  ProviderTranslationRequest,
+  ProviderTranslation,
+  ProviderComparisonRequest,
+} from './translation-provider';
+
+type PhraseTable = Record<string, string>;
+
+// Small English phrase table per Local Law 30 language. Unknown words pass through
+// untouched, which keeps output stable for CI and offline development.
+const DICTIONARY: Record<string, PhraseTable> = {
+  es: {
+    'new york city': 'la ciudad de Nueva York',
+    'thank you': 'gracias',
+    hello: 'hola',
+    vote: 'votar',
+    voter: 'votante',
+    election: 'elección',
+    citizen: 'ciudadano',
+    health: 'salud',
+    free: 'gratis',
+    information: 'información',
+    help: 'ayuda',
+    city: 'ciudad',
+    mayor: 'alcalde',
+  },
+  zh: {
+    'new york city': '纽约市',
+    'thank you': '谢谢',
+    hello: '你好',
+    vote: '投票',
+    voter: '选民',
+    election: '选举',
+    citizen: '公民',
+    health: '健康',
+    free: '免费',
+    information: '信息',
+    help: '帮助',
+    city: '城市',
+    mayor: '市长',
+  },
+  ru: {
+    'new york city': 'город Нью-Йорк',
+    'thank you': 'спасибо',
+    hello: 'здравствуйте',
+    vote: 'голосовать',
+    voter: 'избиратель',
+    election: 'выборы',
+    citizen: 'гражданин',
+    health: 'здоровье',
+    free: 'бесплатно',
+    information: 'информация',
+    help: 'помощь',
+    city: 'город',
+    mayor: 'мэр',
+  },
+  bn: {
+    'new york city': 'নিউ ইয়র্ক সিটি',
+    'thank you': 'ধন্যবাদ',
+    hello: 'হ্যালো',
+    vote: 'ভোট',
+    voter: 'ভোটার',
+    election: 'নির্বাচন',
+    citizen: 'নাগরিক',
+    health: 'স্বাস্থ্য',
+    free: 'বিনামূল্যে',
+    information: 'তথ্য',
+    help: 'সাহায্য',
+    city: 'শহর',
+    mayor: 'মেয়র',
+  },
+  ht: {
+    'new york city': 'Vil New York',
+    'thank you': 'mèsi',
+    hello: 'bonjou',
+    voter: 'votè',
+    election: 'eleksyon',
+    citizen: 'sitwayen',
+    health: 'sante',
+    free: 'gratis',
+    information: 'enfòmasyon',
+    help: 'èd',
+    city: 'vil',
+    mayor: 'majistra',
+  },
+  ko: {
+    'new york city': '뉴욕시',
+    'thank you': '감사합니다',
+    hello: '안녕하세요',
+    vote: '투표',
+    voter: '유권자',
+    election: '선거',
+    citizen: '시민',
+    health: '건강',
+    free: '무료',
+    information: '정보',
+    help: '도움',
+    city: '도시',
+    mayor: '시장',
+  },
+  ar: {
+    'new york city': 'مدينة نيويورك',
+    'thank you': 'شكرا',
+    hello: 'مرحبا',
+    vote: 'التصويت',
+    voter: 'ناخب',
+    election: 'الانتخابات',
+    citizen: 'مواطن',
+    health: 'الصحة',
+    free: 'مجاني',
+    information: 'معلومات',
+    help: 'مساعدة',
+    city: 'المدينة',
+    mayor: 'العمدة',
+  },
+  ur: {
+    'new york city': 'نیو یارک شہر',
+    'thank you': 'شکریہ',
+    hello: 'ہیلو',
+    vote: 'ووٹ',
+    voter: 'ووٹر',
+    election: 'انتخابات',
+    citizen: 'شہری',
+    health: 'صحت',
+    free: 'مفت',
+    information: 'معلومات',
+    help: 'مدد',
+    city: 'شہر',
+    mayor: 'میئر',
+  },
+  fr: {
+    'new york city': 'la ville de New York',
+    'thank you': 'merci',
+    hello: 'bonjour',
+    vote: 'voter',
+    voter: 'électeur',
+    election: 'élection',
+    citizen: 'citoyen',
+    health: 'santé',
+    free: 'gratuit',
+    information: 'information',
+    help: 'aide',
+    city: 'ville',
+    mayor: 'maire',
+  },
+  pl: {
+    'new york city': 'miasto Nowy Jork',
+    'thank you': 'dziękuję',
+    hello: 'dzień dobry',
+    vote: 'głosować',
+    voter: 'wyborca',
+    election: 'wybory',
+    citizen: 'obywatel',
+    health: 'zdrowie',
+    free: 'bezpłatny',
+    information: 'informacja',
+    help: 'pomoc',
+    city: 'miasto',
+    mayor: 'burmistrz',
+  },
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Deterministic dictionary-based stand-in for the LLM providers. It needs no
+ * network access or API keys, so the translation pipeline runs in CI and offline.
+ */
+export class LocalTranslationProvider implements TranslationProvider {
+  readonly id = 'local';
+  readonly model = 'local-dictionary';
+  readonly baseConfidence = 0.5;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async translate(request: ProviderTranslationRequest): Promise<ProviderTranslation> {
+    const { sourceLanguageCode, targetLanguageCode, text } = request;
+
+    if (sourceLanguageCode === 'en' && DICTIONARY[targetLanguageCode]) {
+      return { translatedText: this.substitute(text, DICTIONARY[targetLanguageCode], true) };
+    }
+
+    if (targetLanguageCode === 'en' && DICTIONARY[sourceLanguageCode]) {
+      const reversed = Object.fromEntries(
+        Object.entries(DICTIONARY[sourceLanguageCode]).map(([en, target]) => [target, en])
+      );
+      return { translatedText: this.substitute(text, reversed, false) };
+    }
+
+    return { translatedText: text };
+  }
+
+  async compare(request: ProviderComparisonRequest): Promise<'A' | 'B'> {
+    // Prefer the candidate whose length stays closest to the source for dubbing
+    const source = request.originalText.length;
+    const diffA = Math.abs(request.translationA.length - source);
+    const diffB = Math.abs(request.translationB.length - source);
+    return diffB < diffA ? 'B' : 'A';
+  }
+
+  /**
+   * Replace known phrases in one pass over the original text, so a
+   * replacement is never translated again. The alternation lists longer
+   * phrases first, so multi-word entries win.
+   */
+  private substitute(text: string, table: PhraseTable, wordBoundaries: boolean): string {
+    const lookup = new Map(
+      Object.entries(table).map(([phrase, replacement]) => [phrase.toLowerCase(), replacement])
+    );
+    const alternation = [...lookup.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|');
+    if (!alternation) {
+      return text;
+    }
+    const pattern = wordBoundaries ? `\\b(?:${alternation})\\b` : alternation;
+
+    return text.replace(new RegExp(pattern, 'gi'), (match) => {
+      const replacement = lookup.get(match.toLowerCase()) ?? match;
+      return match[0] !== match[0].toLowerCase()
+        ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+        : replacement;
+    });
+  }
+}
@@ -0,0 +1,80 @@
+import OpenAI from 'openai';
+import { translationLogger as logger } from '../../utils/logger';
+import {
+  TranslationProvider,
+  ProviderTranslationRequest,
+  ProviderTranslation,
+  ProviderComparisonRequest,
+  buildTranslationPrompt,
+  buildComparisonPrompt,
+  COMPARISON_SYSTEM_PROMPT,
+} from './translation-provider';
+
+export class OpenAITranslationProvider implements TranslationProvider {
+  readonly id = 'openai';
+  readonly model = 'gpt-4';
+  readonly baseConfidence = 0.9;
+  private client: OpenAI | null = null;
+
+  isAvailable(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async translate(request: ProviderTranslationRequest): Promise<ProviderTranslation> {
+    const completion = await this.getClient().chat.completions.create({
+      model: 'gpt-4-turbo-preview',
+      messages: [
+        {
+          role: 'system',
+          content: request.contextPrompt,
+        },
+        {
+          role: 'user',
+          content: buildTranslationPrompt(request),
+        },
+      ],
+      temperature: 0.3,
+      max_tokens: 500,
+    });
+
+    return {
+      translatedText: completion.choices[0].message.content?.trim() || '',
+      usageTokens: completion.usage?.total_tokens,
+    };
+  }
+
+  async compare(request: ProviderComparisonRequest): Promise<'A' | 'B'> {
+    const completion = await this.getClient().chat.completions.create({
+      model: 'gpt-4-turbo-preview',
+      messages: [
+        {
+          role: 'system',
+          content: COMPARISON_SYSTEM_PROMPT,
+        },
+        {
+          role: 'user',
+          content: buildComparisonPrompt(request),
+        },
+      ],
+      temperature: 0,
+      max_tokens: 10,
+    });
+
+    const choice = completion.choices[0].message.content?.trim().toUpperCase();
+    return choice === 'A' ? 'A' : 'B';
+  }
+
+  /**
+   * Create the client on first use so the backend boots without an API key
+   */
+  private getClient(): OpenAI {
+    if (!this.client) {
+      if (!this.isAvailable()) {
+        throw new Error('OPENAI_API_KEY is not set in the environment variables.');
+      }
+      this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      logger.info('OpenAI translation provider initialized');
+    }
+    return this.client;
+  }
+}
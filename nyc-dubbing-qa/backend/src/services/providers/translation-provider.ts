@@ -0,0 +1,83 @@
+export interface ProviderTranslationRequest {
+  segmentId: number;
+  text: string;
+  sourceLanguage: string;
+  sourceLanguageCode: string;
+  targetLanguage: string;
+  targetLanguageCode: string;
+  contextPrompt: string;
+  duration: number;
+  instructions?: string[];
+}
+
+export interface ProviderTranslation {
+  translatedText: string;
+  usageTokens?: number;
+}
+
+export interface ProviderComparisonRequest {
+  originalText: string;
+  translationA: string;
+  translationB: string;
+  targetLanguage: string;
+}
+
+/**
+ * A translation engine that can take part in a model A vs model B comparison
+ */
+export interface TranslationProvider {
+  /** Registry key used in requests and project settings, e.g. "openai" */
+  readonly id: string;
+  /** Model name reported in results, e.g. "gpt-4" */
+  readonly model: string;
+  /** Confidence assigned to this provider's output before merging */
+  readonly baseConfidence: number;
+
+  isAvailable(): boolean;
+  translate(request: ProviderTranslationRequest): Promise<ProviderTranslation>;
+  /** Pick the better of two translations; providers without a judge omit this */
+  compare?(request: ProviderComparisonRequest): Promise<'A' | 'B'>;
+}
+
+/**
+ * Build the user prompt shared by the LLM-backed providers
+ */
+export const buildTranslationPrompt = (request: ProviderTranslationRequest): string => {
+  const lines = [
+    `Translate the following segment from ${request.sourceLanguage} to ${request.targetLanguage}. The segment duration is ${request.duration.toFixed(1)} seconds.`,
+    '',
+    `Original text: "${request.text}"`,
+  ];
+
+  if (request.instructions && request.instructions.length > 0) {
+    lines.push('', ...request.instructions);
+  }
+
+  lines.push('', 'Provide only the translation, no explanations.');
+  return lines.join('\n');
+};
+
+/**
+ * Build the prompt used to ask a provider which of two translations is better
+ */
+export const buildComparisonPrompt = (request: ProviderComparisonRequest): string =>
+  `Original English: "${request.originalText}"
+
+Translation A: "${request.translationA}"
+Translation B: "${request.translationB}"
+
+Target language: ${request.targetLanguage}
+
+Which translation better preserves meaning, tone, and timing for video dubbing? Consider:
+1. Accuracy of meaning
+2. Natural flow in ${request.targetLanguage}
+3. Appropriate formality for government communication
+4. Similar length to original for dubbing
+
+Respond with only "A" or "B".`;
+
+export const COMPARISON_SYSTEM_PROMPT =
+  'You are a professional translation quality assessor for NYC government content. Compare two translations and select the better one.';
+
+export const BACK_TRANSLATION_SYSTEM_PROMPT =
+  'You are checking a translation for meaning drift. Translate the text back into English as literally as possible. Do not correct, improve or smooth over errors; reproduce what the text actually says.';
@@ -0,0 +1,108 @@
+import prisma from '../config/database';
+import { QAIssue, QAReport } from '../types';
+import captionQAService, { CaptionQAResult } from './caption-qa.service';
+import { segmentMetadata } from './video-translation.service';
+
+export interface VideoQAReport extends QAReport {
+  captions: Array<Omit<CaptionQAResult, 'issues'> & { issueCount: number }>;
+  generatedAt: string;
+}
+
+const SEVERITY_ORDER: QAIssue['severity'][] = ['critical', 'high', 'medium', 'low'];
+
+// What to do about each caption rule, given how many cues and which languages break it
+const CAPTION_ADVICE: Record<string, (count: number, languages: string) => string> = {
+  max_cps: (count, languages) =>
+    `Condense or lengthen ${count} caption(s) that read too fast (${languages})`,
+  min_duration: (count, languages) =>
+    `Extend or merge ${count} caption(s) that flash by too quickly (${languages})`,
+  max_duration: (count, languages) =>
+    `Split ${count} caption(s) that linger on screen (${languages})`,
+  max_line_length: (count, languages) =>
+    `Re-break ${count} caption(s) with over-long lines (${languages})`,
+  max_lines: (count, languages) =>
+    `Split ${count} caption(s) that need too many lines (${languages})`,
+  overlap: (count, languages) => `Resolve ${count} overlapping caption(s) (${languages})`,
+  min_gap: (count, languages) =>
+    `Close or widen ${count} near-touching caption gap(s) (${languages})`,
+};
+
+export class QAReportService {
+  /**
+   * QA report for one video: caption timing issues for every language plus
+   * the preservation issues recorded on translated segments. Null if the
+   * video does not exist.
+   */
+  async generate(videoId: string, languages?: string[]): Promise<VideoQAReport | null> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      return null;
+    }
+
+    const captions = await captionQAService.checkVideo(videoId, languages);
+    const translations = await prisma.translation.findMany({
+      where: { videoId, ...(languages ? { language: { in: languages } } : {}) },
+      include: { segments: true },
+    });
+    const translationIssues = translations.flatMap((translation) =>
+      translation.segments.flatMap((segment) =>
+        (segmentMetadata(segment.metadata).preservationIssues || []).map((issue) => ({
+          ...issue,
+          timestamp: issue.timestamp ?? segment.startTime,
+          language: translation.language,
+        }))
+      )
+    );
+
+    const issues = [...captions.flatMap((result) => result.issues), ...translationIssues].sort(
+      (a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0)
+    );
+
+    return {
+      projectId: video.projectId,
+      videoId,
+      issues,
+      overallRating: this.rate(issues),
+      recommendations: this.recommend(issues),
+      captions: captions.map(({ issues: found, ...result }) => ({
+        ...result,
+        issueCount: found.length,
+      })),
+      generatedAt: new Date().toISOString(),
+    };
+  }
+
+  /** 1-5 like a reviewer's rating; the worst issue caps it */
+  private rate(issues: QAIssue[]): number {
+    const worst = SEVERITY_ORDER.findIndex((severity) =>
+      issues.some((issue) => issue.severity === severity)
+    );
+    return worst < 0 ? 5 : worst + 1;
+  }
+
+  private recommend(issues: QAIssue[]): string[] {
+    const recommendations: string[] = [];
+
+    const translationIssues = issues.filter((issue) => issue.type === 'translation');
+    if (translationIssues.length) {
+      recommendations.push(
+        `Correct ${translationIssues.length} altered number(s), date(s) or contact detail(s) before approval`
+      );
+    }
+
+    const byRule = new Map<string, QAIssue[]>();
+    for (const issue of issues) {
+      if (issue.type === 'timing' && issue.rule) {
+        byRule.set(issue.rule, [...(byRule.get(issue.rule) || []), issue]);
+      }
+    }
+    for (const [rule, found] of byRule) {
+      const languages = [...new Set(found.map((issue) => issue.language))].join(', ');
+      recommendations.push(CAPTION_ADVICE[rule]?.(found.length, languages) || found[0].description);
+    }
+
+    return recommendations;
+  }
+}
+
+export default new QAReportService();
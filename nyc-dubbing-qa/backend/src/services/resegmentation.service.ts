@@ -0,0 +1,276 @@
+import { transcriptionLogger as logger } from '../utils/logger';
+import { WhisperSegment, WhisperWord } from './whisper.service';
+
+export interface ResegmentationRules {
+  /** Segments shorter than this are merged into a neighbor */
+  minDuration: number;
+  /** Longer segments are split, preferring clause boundaries */
+  maxDuration: number;
+  /** Two subtitle lines of 42 characters */
+  maxChars: number;
+  /** A silence at least this long ends a segment even without punctuation */
+  pauseThreshold: number;
+}
+
+interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+  sentenceEnd: boolean;
+  clauseEnd: boolean;
+}
+
+export const DEFAULT_RESEGMENTATION_RULES: ResegmentationRules = {
+  minDuration: parseFloat(process.env.RESEGMENT_MIN_DURATION || '1'),
+  maxDuration: parseFloat(process.env.RESEGMENT_MAX_DURATION || '7'),
+  maxChars: parseInt(process.env.RESEGMENT_MAX_CHARS || '84'),
+  pauseThreshold: parseFloat(process.env.RESEGMENT_PAUSE_THRESHOLD || '0.6'),
+};
+
+const SENTENCE_END = /[.?!…。？！؟।]["'”’»)]*$/;
+const CLAUSE_END = /[,;:—–،؛、，；：]["'”’»)]*$/;
+
+export class ResegmentationService {
+  /**
+   * Rebuild Whisper's acoustic segments along sentence boundaries and pauses
+   * using word timestamps. Segment boundaries always fall on word boundaries,
+   * so start and end times are exact word times.
+   */
+  resegment(
+    segments: WhisperSegment[],
+    words: WhisperWord[],
+    rules: Partial<ResegmentationRules> = {}
+  ): WhisperSegment[] {
+    const config = { ...DEFAULT_RESEGMENTATION_RULES, ...rules };
+    if (words.length === 0) {
+      return segments;
+    }
+
+    const timedWords = this.alignPunctuation(segments, words);
+    const groups = this.mergeShort(this.split(timedWords, config), config);
+    const result = groups.map((group, index) => this.toSegment(group, index, segments));
+
+    logger.info('Transcript resegmented', {
+      acousticSegments: segments.length,
+      words: words.length,
+      segments: result.length,
+      rules: config,
+    });
+
+    return result;
+  }
+
+  /**
+   * Whisper's word list has no punctuation or casing, so walk the segment text
+   * alongside it and give each word the text token(s) it covers.
+   */
+  alignPunctuation(segments: WhisperSegment[], words: WhisperWord[]): TimedWord[] {
+    const tokens = segments
+      .map((segment) => segment.text)
+      .join(' ')
+      .split(/\s+/)
+      .filter(Boolean);
+    const aligned: TimedWord[] = [];
+    let tokenIndex = 0;
+    let remaining = '';
+    let display = '';
+
+    for (const word of words) {
+      const normalizedWord = this.normalize(word.word);
+
+      if (!remaining && tokenIndex < tokens.length) {
+        // Skip tokens with no counterpart in the word list, keeping their text
+        const lookahead = tokens
+          .slice(tokenIndex, tokenIndex + 5)
+          .findIndex((token) => this.normalize(token).startsWith(normalizedWord));
+        if (lookahead === -1) {
+          aligned.push(this.timedWord(word.word.trim(), word));
+          continue;
+        }
+        display = tokens.slice(tokenIndex, tokenIndex + lookahead + 1).join(' ');
+        remaining = this.normalize(tokens[tokenIndex + lookahead]);
+        tokenIndex += lookahead + 1;
+      }
+
+      if (remaining.startsWith(normalizedWord)) {
+        remaining = remaining.slice(normalizedWord.length);
+      } else {
+        remaining = '';
+      }
+
+      // A token spanning several words ("twenty-five") is shown on its last word
+      aligned.push(this.timedWord(remaining ? '' : display, word));
+      if (!remaining) {
+        display = '';
+      }
+    }
+
+    // Text Whisper produced after the last timed word stays on that word
+    if (tokenIndex < tokens.length && aligned.length > 0) {
+      const last = aligned[aligned.length - 1];
+      Object.assign(
+        last,
+        this.timedWord([last.text, ...tokens.slice(tokenIndex)].join(' ').trim(), last)
+      );
+    }
+
+    return aligned;
+  }
+
+  private split(words: TimedWord[], rules: ResegmentationRules): TimedWord[][] {
+    const groups: TimedWord[][] = [];
+    let current: TimedWord[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+      const word = words[i];
+
+      if (current.length > 0 && this.exceeds([...current, word], rules)) {
+        const breakAt = this.bestBreak(current, rules);
+        groups.push(current.slice(0, breakAt));
+        current = current.slice(breakAt);
+      }
+      current.push(word);
+
+      const next = words[i + 1];
+      const pause = next ? next.start - word.end : Infinity;
+      const longEnough = this.duration(current) >= rules.minDuration;
+
+      if ((word.sentenceEnd && longEnough) || (pause >= rules.pauseThreshold && longEnough)) {
+        groups.push(current);
+        current = [];
+      }
+    }
+
+    if (current.length > 0) {
+      groups.push(current);
+    }
+    return groups;
+  }
+
+  /**
+   * Where to cut an over-long group: the latest sentence end, then clause end,
+   * then the longest pause, never leaving a first part under the minimum
+   * unless it is a whole sentence
+   */
+  private bestBreak(group: TimedWord[], rules: ResegmentationRules): number {
+    let best = group.length;
+    let bestScore = -Infinity;
+
+    for (let i = 1; i < group.length; i++) {
+      const previous = group[i - 1];
+      // A short sentence is still a clean cut; mergeShort folds it in afterwards
+      if (!previous.sentenceEnd && this.duration(group.slice(0, i)) < rules.minDuration) continue;
+
+      const pause = group[i].start - previous.end;
+      const score =
+        (previous.sentenceEnd ? 3 : previous.clauseEnd ? 2 : 0) + pause + i / group.length;
+
+      if (score > bestScore) {
+        bestScore = score;
+        best = i;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Fold segments under the minimum duration into a neighbor when the result
+   * still respects the limits
+   */
+  private mergeShort(groups: TimedWord[][], rules: ResegmentationRules): TimedWord[][] {
+    const merged = [...groups];
+
+    for (let i = 0; i < merged.length; i++) {
+      if (merged.length < 2 || this.duration(merged[i]) >= rules.minDuration) continue;
+
+      const gapBefore =
+        i > 0 ? merged[i][0].start - merged[i - 1][merged[i - 1].length - 1].end : Infinity;
+      const gapAfter =
+        i < merged.length - 1
+          ? merged[i + 1][0].start - merged[i][merged[i].length - 1].end
+          : Infinity;
+      // Prefer the closer neighbor, fall back to the other one
+      const targets = (gapBefore <= gapAfter ? [i - 1, i + 1] : [i + 1, i - 1]).filter(
+        (target) => target >= 0 && target < merged.length
+      );
+      for (const target of targets) {
+        const combined =
+          target < i ? [...merged[target], ...merged[i]] : [...merged[i], ...merged[target]];
+        if (this.exceeds(combined, rules)) continue;
+
+        merged.splice(Math.min(i, target), 2, combined);
+        i = Math.min(i, target) - 1;
+        break;
+      }
+    }
+
+    return merged;
+  }
+
+  /**
+   * Build a Whisper-shaped segment so confidence scoring and UI formatting
+   * work unchanged. Quality figures are averaged over the acoustic segments
+   * the new segment overlaps, weighted by overlap.
+   */
+  private toSegment(group: TimedWord[], index: number, acoustic: WhisperSegment[]): WhisperSegment {
+    const start = group[0].start;
+    const end = group[group.length - 1].end;
+    const overlapping = acoustic
+      .map((segment) => ({
+        segment,
+        overlap: Math.min(end, segment.end) - Math.max(start, segment.start),
+      }))
+      .filter(({ overlap }) => overlap > 0);
+    const totalOverlap = overlapping.reduce((acc, { overlap }) => acc + overlap, 0);
+    const weighted = (pick: (segment: WhisperSegment) => number) =>
+      totalOverlap > 0
+        ? overlapping.reduce((acc, { segment, overlap }) => acc + pick(segment) * overlap, 0) /
+          totalOverlap
+        : 0;
+
+    return {
+      id: index,
+      seek: overlapping[0]?.segment.seek ?? 0,
+      start,
+      end,
+      text: group
+        .map((word) => word.text)
+        .filter(Boolean)
+        .join(' '),
+      tokens: [],
+      temperature: overlapping[0]?.segment.temperature ?? 0,
+      avg_logprob: weighted((segment) => segment.avg_logprob),
+      compression_ratio: weighted((segment) => segment.compression_ratio),
+      no_speech_prob: weighted((segment) => segment.no_speech_prob),
+    };
+  }
+
+  private exceeds(group: TimedWord[], rules: ResegmentationRules): boolean {
+    const chars = group
+      .map((word) => word.text)
+      .filter(Boolean)
+      .join(' ').length;
+    return this.duration(group) > rules.maxDuration || chars > rules.maxChars;
+  }
+
+  private duration(group: TimedWord[]): number {
+    return group.length > 0 ? group[group.length - 1].end - group[0].start : 0;
+  }
+
+  private timedWord(text: string, timing: { start: number; end: number }): TimedWord {
+    return {
+      text,
+      start: timing.start,
+      end: timing.end,
+      sentenceEnd: SENTENCE_END.test(text),
+      clauseEnd: CLAUSE_END.test(text),
+    };
+  }
+
+  private normalize(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+  }
+}
+
+export default new ResegmentationService();
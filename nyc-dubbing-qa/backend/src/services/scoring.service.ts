@@ -0,0 +1,224 @@
+import { getAgreementThresholds, AgreementThresholds } from '../config/agreement';
+
+export interface AgreementScore {
+  score: number;
+  chrF: number;
+  tokenEditSimilarity: number;
+  thresholds: AgreementThresholds;
+}
+
+export interface DriftScore {
+  drift: number;
+  chrF: number;
+  contentOverlap: number;
+}
+
+// Function words carry little meaning and would inflate back-translation overlap
+const ENGLISH_STOPWORDS = new Set(
+  (
+    'a an the and or but if of to in on at by for with from as is are was were be been being ' +
+    'it its this that these those there here we you they he she i our your their his her my me us ' +
+    'them do does did will would shall should can could may might must have has had not no so than ' +
+    'then too very just also about into over under up down out all any each some such'
+  ).split(' ')
+);
+
+// Arabic-script conjunction and preposition clitics that attach to the next word
+const ARABIC_PREFIX_CLITICS = /^((?:و|ف|ب|ك|ل)?ال|و)(?=[؀-ۿ]{3,})/;
+const ARABIC_SCRIPT_LANGUAGES = ['ar', 'ur'];
+
+export class ScoringService {
+  private segmenters = new Map<string, Intl.Segmenter>();
+
+  /**
+   * Agreement between two translations of the same segment, used to route merges
+   */
+  agreement(textA: string, textB: string, languageCode: string): AgreementScore {
+    const chrF = (this.chrF(textA, textB, 1) + this.chrF(textB, textA, 1)) / 2;
+    const tokenEditSimilarity = this.tokenEditSimilarity(textA, textB, languageCode);
+
+    return {
+      score: 0.6 * chrF + 0.4 * tokenEditSimilarity,
+      chrF,
+      tokenEditSimilarity,
+      thresholds: getAgreementThresholds(languageCode),
+    };
+  }
+
+  /**
+   * Character n-gram F-score (chrF). Works on characters, so it is meaningful
+   * for scripts without word spacing. Beta > 1 weights recall over precision.
+   */
+  chrF(hypothesis: string, reference: string, beta = 2, maxOrder = 6): number {
+    const hyp = this.normalize(hypothesis).replace(/\s+/g, '');
+    const ref = this.normalize(reference).replace(/\s+/g, '');
+
+    if (!hyp && !ref) return 1;
+    if (!hyp || !ref) return 0;
+
+    let precisionSum = 0;
+    let recallSum = 0;
+    let orders = 0;
+
+    for (let n = 1; n <= maxOrder; n++) {
+      const hypGrams = this.charNgrams(hyp, n);
+      const refGrams = this.charNgrams(ref, n);
+      const hypTotal = this.total(hypGrams);
+      const refTotal = this.total(refGrams);
+      if (hypTotal === 0 || refTotal === 0) break;
+
+      let overlap = 0;
+      for (const [gram, count] of hypGrams) {
+        overlap += Math.min(count, refGrams.get(gram) || 0);
+      }
+
+      precisionSum += overlap / hypTotal;
+      recallSum += overlap / refTotal;
+      orders++;
+    }
+
+    const precision = precisionSum / orders;
+    const recall = recallSum / orders;
+    if (precision === 0 && recall === 0) return 0;
+
+    const betaSquared = beta * beta;
+    return ((1 + betaSquared) * precision * recall) / (betaSquared * precision + recall);
+  }
+
+  /**
+   * Meaning drift between an English source and the back-translation of its
+   * translation: 0 means the same content came back, 1 means nothing did.
+   * Combines character n-grams (robust to inflection) with content-word overlap
+   * (robust to reordering).
+   */
+  drift(original: string, backTranslation: string): DriftScore {
+    const chrF = this.chrF(backTranslation, original, 2);
+    const contentOverlap = this.contentOverlap(original, backTranslation);
+
+    return {
+      drift: 1 - (0.5 * chrF + 0.5 * contentOverlap),
+      chrF,
+      contentOverlap,
+    };
+  }
+
+  /**
+   * 1 - normalized Levenshtein distance over script-aware tokens
+   */
+  tokenEditSimilarity(textA: string, textB: string, languageCode: string): number {
+    const a = this.tokenize(textA, languageCode);
+    const b = this.tokenize(textB, languageCode);
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return 1 - previous[b.length] / longest;
+  }
+
+  /**
+   * Split text into word tokens using ICU word boundaries, which segment
+   * Chinese by dictionary rather than whitespace. Arabic-script clitics are
+   * split off so "والمدينة" and "المدينة" share a token.
+   */
+  tokenize(text: string, languageCode: string): string[] {
+    const segmenter = this.getSegmenter(languageCode);
+    const tokens: string[] = [];
+
+    for (const { segment, isWordLike } of segmenter.segment(this.normalize(text))) {
+      if (!isWordLike) continue;
+
+      if (ARABIC_SCRIPT_LANGUAGES.includes(languageCode)) {
+        const clitic = segment.match(ARABIC_PREFIX_CLITICS)?.[0];
+        if (clitic) {
+          tokens.push(clitic, segment.slice(clitic.length));
+          continue;
+        }
+      }
+      tokens.push(segment);
+    }
+
+    return tokens;
+  }
+
+  /**
+   * Case-fold and strip marks that vary between otherwise identical outputs
+   */
+  normalize(text: string): string {
+    return (
+      text
+        .normalize('NFKC')
+        .toLowerCase()
+        // Arabic diacritics and tatweel, unify alef forms
+        .replace(/[ً-ٰٟـ]/g, '')
+        .replace(/[آأإ]/g, 'ا')
+        .replace(/[\p{P}\p{S}]+/gu, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+    );
+  }
+
+  /**
+   * F1 over stemmed English content words
+   */
+  private contentOverlap(textA: string, textB: string): number {
+    const a = this.contentWords(textA);
+    const b = this.contentWords(textB);
+    if (a.size === 0 && b.size === 0) return 1;
+    if (a.size === 0 || b.size === 0) return 0;
+
+    let shared = 0;
+    for (const word of a) {
+      if (b.has(word)) shared++;
+    }
+    if (shared === 0) return 0;
+
+    const precision = shared / b.size;
+    const recall = shared / a.size;
+    return (2 * precision * recall) / (precision + recall);
+  }
+
+  private contentWords(text: string): Set<string> {
+    return new Set(
+      this.tokenize(text, 'en')
+        .filter((token) => !ENGLISH_STOPWORDS.has(token))
+        // Crude suffix stripping so "voters"/"voter" and "registered"/"register" match
+        .map((token) => token.replace(/(?:ing|ed|es|s|ly)$/, '') || token)
+    );
+  }
+
+  private getSegmenter(languageCode: string): Intl.Segmenter {
+    let segmenter = this.segmenters.get(languageCode);
+    if (!segmenter) {
+      segmenter = new Intl.Segmenter(languageCode, { granularity: 'word' });
+      this.segmenters.set(languageCode, segmenter);
+    }
+    return segmenter;
+  }
+
+  private charNgrams(text: string, n: number): Map<string, number> {
+    const chars = Array.from(text);
+    const grams = new Map<string, number>();
+    for (let i = 0; i + n <= chars.length; i++) {
+      const gram = chars.slice(i, i + n).join('');
+      grams.set(gram, (grams.get(gram) || 0) + 1);
+    }
+    return grams;
+  }
+
+  private total(grams: Map<string, number>): number {
+    let sum = 0;
+    for (const count of grams.values()) sum += count;
+    return sum;
+  }
+}
+
+export default new ScoringService();
@@ -566,6 +566,13 @@ export class LocalStorageService {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
   }
 
+  /**
+   * Directory backing a storage type, e.g. for serving stored files
+   */
+  getStoragePath(type: 'videos' | 'audio' | 'thumbnails'): string {
+    return this.paths[type];
+  }
+
   /**
    * Create storage URL for file
    */
@@ -0,0 +1,630 @@
+import prisma from '../config/database';
+import { encodeScc, SCC_MAX_LINE_LENGTH, SCC_MAX_LINES } from '../utils/cea608';
+import { isLatinScript, isRightToLeft, scriptOf, toIso6391 } from '../utils/iso639';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml' | 'scc';
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, { extension: string; contentType: string }> =
+  {
+    srt: { extension: 'srt', contentType: 'application/x-subrip; charset=utf-8' },
+    vtt: { extension: 'vtt', contentType: 'text/vtt; charset=utf-8' },
+    ttml: { extension: 'ttml', contentType: 'application/ttml+xml; charset=utf-8' },
+    scc: { extension: 'scc', contentType: 'text/plain; charset=us-ascii' },
+  };
+
+// Broadcast norms: 42 characters a line, two lines on screen
+const DEFAULT_MAX_LINE_LENGTH = parseInt(process.env.SUBTITLE_MAX_LINE_LENGTH || '42');
+const DEFAULT_MAX_LINES = parseInt(process.env.SUBTITLE_MAX_LINES || '2');
+
+export interface SubtitleCue {
+  index: number;
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+export interface SubtitleOptions {
+  /** Tags the file and decides text direction; also checked against the SCC character set */
+  language?: string;
+  maxLineLength?: number;
+  maxLines?: number;
+}
+
+export interface SourceSubtitles {
+  language?: string;
+  cues: SubtitleCue[];
+}
+
+/** Look of burned-in captions */
+export interface CaptionStyle {
+  /** Overrides the per-script default font */
+  fontFamily?: string;
+  /** Pixels on a 1080-line frame, so the size holds at any resolution */
+  fontSize: number;
+  /** #RRGGBB */
+  color: string;
+  bold: boolean;
+  /** Opaque box behind the text instead of an outline */
+  box: boolean;
+  boxColor: string;
+  /** 0 (clear) to 1 (solid) */
+  boxOpacity: number;
+  position: 'bottom' | 'top';
+  /** Percent of the frame kept clear at each edge; 10 is title safe */
+  safeArea: number;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  fontSize: 54,
+  color: '#FFFFFF',
+  bold: false,
+  box: true,
+  boxColor: '#000000',
+  boxOpacity: 0.75,
+  position: 'bottom',
+  safeArea: 10,
+};
+
+export interface AssOptions {
+  language?: string;
+  /** Source frame size; the script is laid out at 1080 lines with this aspect */
+  width?: number;
+  height?: number;
+  maxLines?: number;
+}
+
+/** Formats captions can be imported from */
+export type CaptionImportFormat = Exclude<SubtitleFormat, 'scc'>;
+
+export interface ParsedCue {
+  startTime: number;
+  endTime: number;
+  /** Display lines joined with spaces */
+  text: string;
+  /** WebVTT voice or TTML agent */
+  speaker?: string;
+}
+
+export interface ParsedSubtitles {
+  format: CaptionImportFormat;
+  /** Declared by the file (TTML xml:lang, WebVTT "Language:" header) */
+  language?: string;
+  cues: ParsedCue[];
+}
+
+/** A caption file that could not be read */
+export class SubtitleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubtitleParseError';
+  }
+}
+
+/** Text in a script the format cannot carry, e.g. Arabic in SCC */
+export class UnsupportedSubtitleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedSubtitleError';
+  }
+}
+
+/** One cue as it appears on screen */
+interface SubtitleBlock {
+  startTime: number;
+  endTime: number;
+  lines: string[];
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/** HH:MM:SS + separator + mmm */
+const timestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(Math.round(seconds * 1000), 0);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`;
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toCues = (segments: Array<{ startTime: number; endTime: number; text: string }>) =>
+  segments
+    .filter((segment) => segment.text?.trim())
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((segment, index) => ({
+      index: index + 1,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      text: segment.text.trim(),
+    }));
+
+/**
+ * Greedy word wrap. Words longer than a line, and scripts written without
+ * spaces, are broken at the line length.
+ */
+export const wrap = (text: string, maxLineLength: number): string[] => {
+  const words = text
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap((word) => {
+      const chars = [...word];
+      const pieces: string[] = [];
+      for (let i = 0; i < chars.length; i += maxLineLength) {
+        pieces.push(chars.slice(i, i + maxLineLength).join(''));
+      }
+      return pieces;
+    });
+
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if ([...candidate].length > maxLineLength && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+};
+
+/**
+ * Wrap every cue; one that needs more lines than allowed becomes several
+ * consecutive cues, sharing its time in proportion to their length
+ */
+const layout = (cues: SubtitleCue[], maxLineLength: number, maxLines: number): SubtitleBlock[] =>
+  cues.flatMap((cue) => {
+    const lines = wrap(cue.text, maxLineLength);
+    const pages: string[][] = [];
+    for (let i = 0; i < lines.length; i += maxLines) {
+      pages.push(lines.slice(i, i + maxLines));
+    }
+
+    const total = lines.reduce((sum, line) => sum + line.length, 0) || 1;
+    const duration = Math.max(cue.endTime - cue.startTime, 0);
+    let start = cue.startTime;
+    return pages.map((page, index) => {
+      const share = page.reduce((sum, line) => sum + line.length, 0) / total;
+      const end = index === pages.length - 1 ? cue.endTime : start + duration * share;
+      const block = { startTime: start, endTime: end, lines: page };
+      start = end;
+      return block;
+    });
+  });
+
+const formatSrt = (blocks: SubtitleBlock[]) =>
+  blocks
+    .map(
+      (block, index) =>
+        `${index + 1}\n${timestamp(block.startTime, ',')} --> ${timestamp(block.endTime, ',')}\n${block.lines.join('\n')}\n`
+    )
+    .join('\n');
+
+/**
+ * Arabic-script lines are wrapped in right-to-left embedding marks so
+ * trailing punctuation and embedded numbers render on the correct side
+ */
+const formatVtt = (blocks: SubtitleBlock[], rtl: boolean) => {
+  const line = (text: string) => (rtl ? `\u202b${text}\u202c` : text);
+  const body = blocks
+    .map(
+      (block, index) =>
+        `${index + 1}\n${timestamp(block.startTime, '.')} --> ${timestamp(block.endTime, '.')}\n${block.lines.map(line).join('\n')}\n`
+    )
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+};
+
+/** IMSC1 text profile, bottom-centred */
+const formatTtml = (blocks: SubtitleBlock[], language: string, rtl: boolean) => {
+  const direction = rtl ? ' tts:direction="rtl" tts:unicodeBidi="embed"' : '';
+  const paragraphs = blocks
+    .map(
+      (block) =>
+        `      <p begin="${timestamp(block.startTime, '.')}" end="${timestamp(block.endTime, '.')}">` +
+        `${block.lines.map(escapeXml).join('<br/>')}</p>`
+    )
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" xmlns:tts="http://www.w3.org/ns/ttml#styling" ttp:profile="http://www.w3.org/ns/ttml/profile/imsc1/text" ttp:timeBase="media" xml:lang="${language}">`,
+    '  <head>',
+    '    <styling>',
+    `      <style xml:id="default" tts:color="white" tts:backgroundColor="rgba(0,0,0,0.8)" tts:fontFamily="proportionalSansSerif" tts:fontSize="100%" tts:textAlign="center"${direction}/>`,
+    '    </styling>',
+    '    <layout>',
+    '      <region xml:id="bottom" tts:origin="10% 75%" tts:extent="80% 20%" tts:displayAlign="after"/>',
+    '    </layout>',
+    '  </head>',
+    '  <body region="bottom" style="default">',
+    '    <div>',
+    paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Noto families that cover each script. libass shapes with HarfBuzz and falls
+ * back through fontconfig for any glyph the chosen font lacks.
+ */
+const CAPTION_FONTS: Record<string, string> = {
+  Latn: 'Noto Sans',
+  Cyrl: 'Noto Sans',
+  Hans: 'Noto Sans CJK SC',
+  Kore: 'Noto Sans CJK KR',
+  Beng: 'Noto Sans Bengali',
+  Arab: 'Noto Naskh Arabic',
+};
+// Urdu is written in Nastaliq rather than the Naskh style Arabic uses
+const URDU_FONT = 'Noto Nastaliq Urdu';
+
+/** #RRGGBB and opacity to ASS &HAABBGGRR, where alpha 00 is opaque */
+const assColor = (hex: string, opacity = 1) => {
+  const [r, g, b] = [1, 3, 5].map((i) => hex.slice(i, i + 2).toUpperCase());
+  const alpha = Math.round((1 - Math.min(Math.max(opacity, 0), 1)) * 255)
+    .toString(16)
+    .toUpperCase()
+    .padStart(2, '0');
+  return `&H${alpha}${b}${g}${r}`;
+};
+
+/** H:MM:SS.cc */
+const assTimestamp = (seconds: number) => {
+  const totalCs = Math.max(Math.round(seconds * 100), 0);
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const secs = Math.floor((totalCs % 6000) / 100);
+  return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(totalCs % 100)}`;
+};
+
+/** Braces open override blocks and backslashes start tags, so neither may reach libass as-is */
+const assText = (text: string) =>
+  text.replace(/\{/g, '(').replace(/\}/g, ')').replace(/\\/g, '\\\u200b');
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  lrm: '',
+  rlm: '',
+};
+
+/** Markup, entities and bidi controls out; whitespace collapsed */
+const plainText = (markup: string) =>
+  markup
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+      if (name[0] === '#') {
+        const code =
+          name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1));
+        return String.fromCodePoint(code);
+      }
+      return ENTITIES[name.toLowerCase()] ?? entity;
+    })
+    .replace(/[\u200e\u200f\u202a-\u202e]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/** [HH:]MM:SS[,.]mmm; null if the text is not a timestamp */
+const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    parseInt(hours || '0') * 3600 +
+    parseInt(minutes) * 60 +
+    parseInt(seconds) +
+    (fraction ? parseInt(fraction.padEnd(3, '0')) / 1000 : 0)
+  );
+};
+
+/** SRT and WebVTT share cue blocks: optional id, timing line, text lines */
+const parseCueBlocks = (content: string, format: 'srt' | 'vtt'): ParsedSubtitles => {
+  const blocks = content.split(/\n{2,}/);
+  let language: string | undefined;
+  const cues: ParsedCue[] = [];
+
+  blocks.forEach((block, index) => {
+    const lines = block.split('\n');
+    if (format === 'vtt' && index === 0 && /^WEBVTT/.test(lines[0])) {
+      language = lines.map((line) => line.match(/^Language:\s*(\S+)/i)?.[1]).find(Boolean);
+      return;
+    }
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(lines[0])) {
+      return;
+    }
+
+    const timing = lines.findIndex((line) => line.includes('-->'));
+    if (timing < 0) {
+      return;
+    }
+    // WebVTT cue settings follow the end time
+    const [start, end] = lines[timing].split('-->').map((part) => part.trim().split(/\s+/)[0]);
+    const startTime = parseTimestamp(start);
+    const endTime = parseTimestamp(end);
+    if (startTime === null || endTime === null) {
+      throw new SubtitleParseError(`Unreadable cue timing: "${lines[timing]}"`);
+    }
+
+    const markup = lines.slice(timing + 1).join('\n');
+    cues.push({
+      startTime,
+      endTime,
+      text: plainText(markup),
+      speaker: markup.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/)?.[1].trim(),
+    });
+  });
+
+  return { format, language, cues };
+};
+
+/**
+ * TTML clock times (HH:MM:SS.fff or HH:MM:SS:FF) and offset times
+ * (12.5s, 500ms, 30f, 9000t)
+ */
+const parseTtmlTime = (value: string, frameRate: number, tickRate: number): number | null => {
+  const clock = value.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+)(?:\.\d+)?)?$/);
+  if (clock) {
+    const [, hours, minutes, seconds, fraction, frames] = clock;
+    return (
+      parseInt(hours) * 3600 +
+      parseInt(minutes) * 60 +
+      parseInt(seconds) +
+      (fraction ? parseFloat(`0.${fraction}`) : 0) +
+      (frames ? parseInt(frames) / frameRate : 0)
+    );
+  }
+
+  const offset = value.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (!offset) {
+    return null;
+  }
+  const amount = parseFloat(offset[1]);
+  const seconds: Record<string, number> = {
+    h: amount * 3600,
+    m: amount * 60,
+    s: amount,
+    ms: amount / 1000,
+    f: amount / frameRate,
+    t: amount / tickRate,
+  };
+  return seconds[offset[2]];
+};
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*["']([^"']*)["']`))?.[1];
+
+const parseTtml = (content: string): ParsedSubtitles => {
+  const root = content.match(/<tt\b([^>]*)>/)?.[1] || '';
+  const frameRate = parseFloat(attribute(root, 'ttp:frameRate') || '30');
+  const tickRate = parseFloat(attribute(root, 'ttp:tickRate') || String(frameRate));
+  const time = (value: string | undefined) =>
+    value === undefined ? null : parseTtmlTime(value.trim(), frameRate, tickRate);
+
+  const cues: ParsedCue[] = [];
+  for (const [, attributes, markup] of content.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/g)) {
+    const startTime = time(attribute(attributes, 'begin'));
+    const duration = time(attribute(attributes, 'dur'));
+    const endTime =
+      time(attribute(attributes, 'end')) ??
+      (startTime !== null && duration !== null ? startTime + duration : null);
+    if (startTime === null || endTime === null) {
+      throw new SubtitleParseError('TTML paragraph without a readable begin and end');
+    }
+    cues.push({
+      startTime,
+      endTime,
+      text: plainText(markup),
+      speaker: attribute(attributes, 'ttm:agent'),
+    });
+  }
+
+  return { format: 'ttml', language: attribute(root, 'xml:lang') || undefined, cues };
+};
+
+export class SubtitleService {
+  /**
+   * Cues for a translated language, preferring reviewer-approved wording;
+   * null if the video has no translation into it
+   */
+  async getTranslationCues(videoId: string, language: string): Promise<SubtitleCue[] | null> {
+    const translation = await prisma.translation.findUnique({
+      where: { videoId_language: { videoId, language } },
+      include: { segments: true },
+    });
+    if (!translation) {
+      return null;
+    }
+
+    return toCues(
+      translation.segments.map((segment) => ({
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        text: segment.approvedText || segment.translatedText,
+      }))
+    );
+  }
+
+  /**
+   * Source-language cues from the stored transcription, or null if the video
+   * has not been transcribed
+   */
+  async getSource(videoId: string): Promise<SourceSubtitles | null> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const transcription = (video?.metadata as any)?.transcription;
+    if (!transcription) {
+      return null;
+    }
+    return { language: transcription.language, cues: toCues(transcription.segments || []) };
+  }
+
+  async getSourceCues(videoId: string): Promise<SubtitleCue[]> {
+    return (await this.getSource(videoId))?.cues || [];
+  }
+
+  render(cues: SubtitleCue[], format: SubtitleFormat, options: SubtitleOptions = {}): string {
+    let maxLineLength = options.maxLineLength || DEFAULT_MAX_LINE_LENGTH;
+    let maxLines = options.maxLines || DEFAULT_MAX_LINES;
+    const rtl = isRightToLeft(options.language);
+
+    if (format === 'scc') {
+      if (!isLatinScript(options.language)) {
+        throw new UnsupportedSubtitleError(
+          `SCC (CEA-608) cannot carry ${options.language} text; use SRT, WebVTT or TTML`
+        );
+      }
+      maxLineLength = Math.min(maxLineLength, SCC_MAX_LINE_LENGTH);
+      maxLines = Math.min(maxLines, SCC_MAX_LINES);
+    }
+
+    const blocks = layout(cues, maxLineLength, maxLines);
+    switch (format) {
+      case 'vtt':
+        return formatVtt(blocks, rtl);
+      case 'ttml':
+        return formatTtml(blocks, toIso6391(options.language) || 'und', rtl);
+      case 'scc':
+        return encodeScc(blocks);
+      default:
+        return formatSrt(blocks);
+    }
+  }
+
+  toSrt(cues: SubtitleCue[], options: SubtitleOptions = {}): string {
+    return this.render(cues, 'srt', options);
+  }
+
+  /**
+   * Advanced SubStation script for burning captions in with libass. Lines are
+   * wrapped here to what fits inside the safe area at the chosen size.
+   */
+  toAss(cues: SubtitleCue[], style: CaptionStyle, options: AssOptions = {}): string {
+    const playResY = 1080;
+    const aspect = options.width && options.height ? options.width / options.height : 16 / 9;
+    const playResX = Math.round(playResY * aspect);
+    const marginX = Math.round((playResX * style.safeArea) / 100);
+    const marginY = Math.round((playResY * style.safeArea) / 100);
+
+    const script = scriptOf(options.language);
+    const font =
+      style.fontFamily ||
+      (toIso6391(options.language) === 'ur' ? URDU_FONT : CAPTION_FONTS[script]);
+    // Ideographs and Hangul are about a full em wide, most other scripts about half
+    const charWidth = style.fontSize * (script === 'Hans' || script === 'Kore' ? 1 : 0.5);
+    const maxLineLength = Math.max(
+      Math.min(Math.floor((playResX - 2 * marginX) / charWidth), DEFAULT_MAX_LINE_LENGTH),
+      8
+    );
+
+    const outlineColor = style.box
+      ? assColor(style.boxColor, style.boxOpacity)
+      : assColor('#000000');
+    const fields = [
+      'Default',
+      font,
+      style.fontSize,
+      assColor(style.color),
+      assColor(style.color),
+      outlineColor,
+      style.box ? outlineColor : assColor('#000000', 0.5),
+      style.bold ? -1 : 0,
+      0,
+      0,
+      0,
+      100,
+      100,
+      0,
+      0,
+      // 3 draws an opaque box with the outline colour, the outline width as padding
+      style.box ? 3 : 1,
+      style.box ? Math.round(style.fontSize / 6) : Math.max(Math.round(style.fontSize / 18), 1),
+      style.box ? 0 : 1,
+      style.position === 'top' ? 8 : 2,
+      marginX,
+      marginX,
+      marginY,
+      // -1 lets libass pick the base direction per line, so right-to-left
+      // lines keep punctuation on the correct side
+      isRightToLeft(options.language) ? -1 : 1,
+    ];
+
+    const events = layout(cues, maxLineLength, options.maxLines || DEFAULT_MAX_LINES).map(
+      (block) =>
+        `Dialogue: 0,${assTimestamp(block.startTime)},${assTimestamp(block.endTime)},Default,,0,0,0,,` +
+        block.lines.map(assText).join('\\N')
+    );
+
+    return [
+      '[Script Info]',
+      'ScriptType: v4.00+',
+      `PlayResX: ${playResX}`,
+      `PlayResY: ${playResY}`,
+      // Already wrapped above
+      'WrapStyle: 2',
+      'ScaledBorderAndShadow: yes',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      `Style: ${fields.join(',')}`,
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      ...events,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Read an SRT, WebVTT or TTML file into timed cues. The format is taken
+   * from the file name when given, otherwise sniffed from the content.
+   */
+  parse(content: string, format?: CaptionImportFormat, filename?: string): ParsedSubtitles {
+    const text = content
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .trim();
+    const extension = filename?.split('.').pop()?.toLowerCase();
+    const resolved: CaptionImportFormat | undefined =
+      format ||
+      (extension === 'srt' || extension === 'vtt' ? extension : undefined) ||
+      (extension === 'ttml' || extension === 'dfxp' || extension === 'xml' ? 'ttml' : undefined) ||
+      (/^WEBVTT/.test(text)
+        ? 'vtt'
+        : /<tt[\s>]/.test(text)
+          ? 'ttml'
+          : /-->/.test(text)
+            ? 'srt'
+            : undefined);
+    if (!resolved) {
+      throw new SubtitleParseError('Unrecognised caption format; expected SRT, WebVTT or TTML');
+    }
+
+    const parsed = resolved === 'ttml' ? parseTtml(text) : parseCueBlocks(text, resolved);
+    const cues = parsed.cues
+      .filter((cue) => cue.text && cue.endTime > cue.startTime)
+      .sort((a, b) => a.startTime - b.startTime);
+    if (cues.length === 0) {
+      throw new SubtitleParseError(`No timed cues found in the ${resolved.toUpperCase()} file`);
+    }
+    return { ...parsed, cues };
+  }
+}
+
+export default new SubtitleService();
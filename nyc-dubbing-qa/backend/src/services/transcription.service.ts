@@ -0,0 +1,348 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import prisma from '../config/database';
+import { transcriptionLogger as logger } from '../utils/logger';
+import whisperService, { WhisperWord } from './whisper.service';
+import resegmentationService, { ResegmentationRules } from './resegmentation.service';
+import diarizationService from './diarization.service';
+import progressService from './progress.service';
+import subtitleService, { CaptionImportFormat, SubtitleParseError } from './subtitle.service';
+import alignmentService, { AlignmentReport } from './alignment.service';
+import { toIso6391 } from '../utils/iso639';
+
+export interface TranscriptionJobOptions {
+  language?: string;
+  prompt?: string;
+  resegment?: boolean;
+  rules?: Partial<ResegmentationRules>;
+  diarize?: boolean;
+  numSpeakers?: number;
+  maxSpeakers?: number;
+}
+
+export interface TranscriptionSummary {
+  videoId: string;
+  language: string;
+  duration: number;
+  segmentCount: number;
+  speakerCount: number;
+}
+
+export interface CaptionImportOptions {
+  format?: CaptionImportFormat;
+  /** Original file name, used to tell the format */
+  filename?: string;
+  /** Needed when the file does not declare its language */
+  language?: string;
+}
+
+export interface CaptionImportSummary {
+  videoId: string;
+  language: string;
+  format: CaptionImportFormat;
+  duration: number;
+  segmentCount: number;
+  speakerCount: number;
+}
+
+export type AlignmentStatus = 'queued' | 'aligning' | 'completed' | 'failed' | 'cancelled';
+
+/** Kept on the transcription as `alignment` */
+export interface AlignmentState extends Partial<AlignmentReport> {
+  status: AlignmentStatus;
+  jobId?: string;
+  alignedAt?: string;
+  error?: string | null;
+}
+
+/** Share of overall progress each stage reports, in percent */
+const PROGRESS = {
+  started: 5,
+  transcribed: 85,
+  labeled: 95,
+};
+
+export class TranscriptionService {
+  /**
+   * Full transcription pipeline for an uploaded video: Whisper, sentence
+   * resegmentation, speaker labels, then the result is stored on the video
+   */
+  async transcribeVideo(
+    videoId: string,
+    options: TranscriptionJobOptions = {},
+    onProgress: (percent: number) => void | Promise<void> = () => undefined
+  ): Promise<TranscriptionSummary> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video || !fs.existsSync(video.originalUrl)) {
+      throw new Error('Video not found');
+    }
+
+    const videoPath = path.resolve(video.originalUrl);
+    await onProgress(PROGRESS.started);
+
+    try {
+      const transcriptionResult = await whisperService.transcribeFile(videoPath, {
+        language: options.language,
+        prompt: options.prompt,
+        timestamp_granularities: ['segment', 'word'],
+        onProgress: async (completed, total, chunkText) => {
+          const percent = Math.round(
+            PROGRESS.started + ((PROGRESS.transcribed - PROGRESS.started) * completed) / total
+          );
+          progressService.publish({
+            type: 'transcription.chunk',
+            videoId,
+            progress: percent,
+            data: { completed, total, text: chunkText },
+          });
+          await onProgress(percent);
+        },
+      });
+
+      // Acoustic segments often cut mid-sentence; rebuild them from word timings
+      const words: WhisperWord[] = transcriptionResult.words || [];
+      const segments =
+        words.length > 0 && options.resegment !== false
+          ? resegmentationService.resegment(transcriptionResult.segments, words, options.rules)
+          : transcriptionResult.segments;
+
+      let formattedSegments = whisperService.formatSegmentsForUI(segments);
+
+      // Label speakers; a failed diarization should not lose the transcript
+      if (options.diarize !== false && formattedSegments.length > 0) {
+        try {
+          formattedSegments = await diarizationService.labelSegments(videoPath, formattedSegments, {
+            numSpeakers: options.numSpeakers,
+            maxSpeakers: options.maxSpeakers,
+          });
+        } catch (error: any) {
+          logger.warn(`Speaker diarization failed for video ${videoId}: ${error.message}`);
+        }
+      }
+      const speakers = diarizationService.buildSpeakerMap(formattedSegments);
+      await onProgress(PROGRESS.labeled);
+
+      // Re-read metadata; reviewers may have changed it while Whisper ran
+      const current = await prisma.video.findUnique({ where: { id: videoId } });
+      await prisma.video.update({
+        where: { id: videoId },
+        data: {
+          metadata: {
+            ...((current?.metadata ?? video.metadata) as any),
+            transcription: {
+              source: 'whisper',
+              language: transcriptionResult.language,
+              duration: transcriptionResult.duration,
+              fullText: transcriptionResult.text,
+              segments: formattedSegments,
+              speakers,
+              words,
+              acousticSegmentCount: transcriptionResult.segments.length,
+              createdAt: new Date(),
+            },
+          },
+        },
+      });
+
+      return {
+        videoId,
+        language: transcriptionResult.language,
+        duration: transcriptionResult.duration,
+        segmentCount: formattedSegments.length,
+        speakerCount: Object.keys(speakers).length,
+      };
+    } finally {
+      // Clean up temporary audio files
+      await whisperService.cleanupTempFiles(videoPath);
+    }
+  }
+
+  /**
+   * Store vendor captions as the video's transcript, in the same segment
+   * shape Whisper output is given, without calling Whisper
+   */
+  async importCaptions(
+    videoId: string,
+    content: string,
+    options: CaptionImportOptions = {}
+  ): Promise<CaptionImportSummary> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) {
+      throw new Error('Video not found');
+    }
+
+    const parsed = subtitleService.parse(content, options.format, options.filename);
+    const language = options.language || parsed.language;
+    if (!language) {
+      throw new SubtitleParseError('language is required; the caption file does not declare one');
+    }
+
+    // Voice names become speaker labels, keeping the names for display
+    const speakerIds = new Map<string, string>();
+    for (const cue of parsed.cues) {
+      if (cue.speaker && !speakerIds.has(cue.speaker)) {
+        speakerIds.set(cue.speaker, `SPEAKER_${speakerIds.size + 1}`);
+      }
+    }
+    const segments = parsed.cues.map((cue, index) => ({
+      id: index + 1,
+      startTime: cue.startTime,
+      endTime: cue.endTime,
+      text: cue.text,
+      // Human-made captions; nothing to flag for low recognition confidence
+      confidence: 1,
+      tokens: 0,
+      avgLogProb: null,
+      noSpeechProb: null,
+      ...(cue.speaker ? { speaker: speakerIds.get(cue.speaker) } : {}),
+    }));
+    const speakers = diarizationService.buildSpeakerMap(
+      segments,
+      Object.fromEntries([...speakerIds].map(([name, id]) => [id, { name }]))
+    );
+    const duration = Math.max(...segments.map((segment) => segment.endTime));
+
+    await prisma.video.update({
+      where: { id: videoId },
+      data: {
+        status: 'READY',
+        duration: video.duration ?? Math.round(duration),
+        metadata: {
+          ...(video.metadata as any),
+          transcription: {
+            source: 'import',
+            format: parsed.format,
+            language,
+            duration,
+            fullText: segments.map((segment) => segment.text).join(' '),
+            segments,
+            speakers,
+            words: [],
+            createdAt: new Date(),
+          },
+        },
+      },
+    });
+
+    logger.info(`Imported ${parsed.format} captions for video ${videoId}`, {
+      language,
+      segments: segments.length,
+    });
+
+    return {
+      videoId,
+      language,
+      format: parsed.format,
+      duration,
+      segmentCount: segments.length,
+      speakerCount: Object.keys(speakers).length,
+    };
+  }
+
+  async updateAlignment(videoId: string, patch: Partial<AlignmentState>): Promise<void> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const metadata = (video?.metadata as any) || {};
+    if (!metadata.transcription) {
+      return;
+    }
+    await prisma.video.update({
+      where: { id: videoId },
+      data: {
+        metadata: {
+          ...metadata,
+          transcription: {
+            ...metadata.transcription,
+            alignment: { ...metadata.transcription.alignment, ...patch },
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Correct drifted timings of an imported transcript: recognise words from
+   * the audio, match them to the caption text and re-time each segment.
+   * The text itself is never changed.
+   */
+  async alignCaptions(
+    videoId: string,
+    onProgress: (percent: number) => void | Promise<void> = () => undefined
+  ): Promise<AlignmentReport> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    const transcription = (video?.metadata as any)?.transcription;
+    if (!video || !fs.existsSync(video.originalUrl)) {
+      throw new Error('Video not found');
+    }
+    if (!transcription?.segments?.length) {
+      throw new Error(`Video ${videoId} has no transcript to align`);
+    }
+
+    const videoPath = path.resolve(video.originalUrl);
+    await onProgress(PROGRESS.started);
+
+    try {
+      const recognised = await whisperService.transcribeFile(videoPath, {
+        language: toIso6391(transcription.language),
+        timestamp_granularities: ['segment', 'word'],
+        onProgress: async (completed, total) => {
+          await onProgress(
+            Math.round(
+              PROGRESS.started + ((PROGRESS.transcribed - PROGRESS.started) * completed) / total
+            )
+          );
+        },
+      });
+      const words: WhisperWord[] = recognised.words || [];
+      if (words.length === 0) {
+        throw new Error('No word timings recognised from the audio');
+      }
+
+      // Re-read; reviewers may have edited segments while Whisper ran
+      const current = await prisma.video.findUnique({ where: { id: videoId } });
+      const latest = (current?.metadata as any)?.transcription || transcription;
+      const { segments, report } = alignmentService.align(latest.segments, words);
+
+      await prisma.video.update({
+        where: { id: videoId },
+        data: {
+          metadata: {
+            ...(current?.metadata as any),
+            transcription: {
+              ...latest,
+              segments,
+              words,
+              alignment: {
+                ...latest.alignment,
+                ...report,
+                status: 'completed',
+                alignedAt: new Date().toISOString(),
+                error: null,
+              },
+            },
+          },
+        },
+      });
+      await onProgress(PROGRESS.labeled);
+
+      return report;
+    } finally {
+      await whisperService.cleanupTempFiles(videoPath);
+    }
+  }
+
+  /**
+   * Status for a video whose transcription job was cancelled: an earlier
+   * transcript stays usable, otherwise the video is back to freshly uploaded
+   */
+  async restoreVideoStatus(videoId: string): Promise<void> {
+    const video = await prisma.video.findUnique({ where: { id: videoId } });
+    if (!video) return;
+
+    await prisma.video.update({
+      where: { id: videoId },
+      data: { status: (video.metadata as any)?.transcription ? 'READY' : 'UPLOADED' },
+    });
+  }
+}
+
+export default new TranscriptionService();
@@ -0,0 +1,233 @@
+import { TranslationMemoryEntry } from '@prisma/client';
+import prisma from '../config/database';
+import { translationLogger as logger, logPerformance } from '../utils/logger';
+
+export interface MemoryMatch {
+  entryId: string;
+  sourceText: string;
+  translatedText: string;
+  matchPercentage: number;
+}
+
+export interface MemorySegment {
+  id: number;
+  text: string;
+}
+
+type IndexedEntry = Pick<
+  TranslationMemoryEntry,
+  'id' | 'sourceText' | 'normalizedSource' | 'targetText'
+>;
+
+export class TranslationMemoryService {
+  private fuzzyThreshold = parseFloat(process.env.TM_FUZZY_THRESHOLD || '0.75');
+  // Most entries Levenshtein-scored per segment; the rest are ranked out by shared trigrams
+  private maxFuzzyCandidates = parseInt(process.env.TM_MAX_FUZZY_CANDIDATES || '50');
+
+  /**
+   * Record an approved segment so later translations can reuse it
+   */
+  async addEntry(
+    projectId: string,
+    language: string,
+    sourceText: string,
+    targetText: string,
+    translationSegmentId?: string
+  ): Promise<void> {
+    const normalizedSource = this.normalize(sourceText);
+    if (!normalizedSource || !targetText.trim()) {
+      return;
+    }
+
+    const entry = await prisma.translationMemoryEntry.upsert({
+      where: { projectId_language_normalizedSource: { projectId, language, normalizedSource } },
+      create: {
+        projectId,
+        language,
+        sourceText,
+        normalizedSource,
+        targetText,
+        translationSegmentId,
+      },
+      update: {
+        sourceText,
+        targetText,
+        translationSegmentId,
+      },
+    });
+
+    logger.info('Translation memory entry stored', {
+      projectId,
+      language,
+      entryId: entry.id,
+      sourceLength: sourceText.length,
+    });
+  }
+
+  /**
+   * Find the best exact or fuzzy match for each segment, keyed by segment id
+   */
+  async lookup(
+    projectId: string,
+    language: string,
+    segments: MemorySegment[]
+  ): Promise<Record<number, MemoryMatch>> {
+    const startTime = Date.now();
+    const entries = await prisma.translationMemoryEntry.findMany({
+      where: { projectId, language },
+      select: { id: true, sourceText: true, normalizedSource: true, targetText: true },
+    });
+
+    const matches: Record<number, MemoryMatch> = {};
+    if (entries.length === 0) {
+      return matches;
+    }
+
+    const exact = new Map(entries.map((entry) => [entry.normalizedSource, entry]));
+    const index = this.buildTrigramIndex(entries);
+
+    for (const segment of segments) {
+      const normalized = this.normalize(segment.text);
+      const exactEntry = exact.get(normalized);
+      const best = exactEntry
+        ? { entry: exactEntry, score: 1 }
+        : this.bestFuzzyMatch(normalized, entries, index);
+
+      if (best && best.score >= this.fuzzyThreshold) {
+        matches[segment.id] = {
+          entryId: best.entry.id,
+          sourceText: best.entry.sourceText,
+          translatedText: best.entry.targetText,
+          matchPercentage: Math.floor(best.score * 100),
+        };
+      }
+    }
+
+    const exactIds = Object.values(matches)
+      .filter((match) => match.matchPercentage === 100)
+      .map((match) => match.entryId);
+
+    if (exactIds.length > 0) {
+      await prisma.translationMemoryEntry.updateMany({
+        where: { id: { in: exactIds } },
+        data: { usageCount: { increment: 1 }, lastUsedAt: new Date() },
+      });
+    }
+
+    logPerformance('translation_memory_lookup', startTime, {
+      projectId,
+      language,
+      entries: entries.length,
+      segments: segments.length,
+      exactMatches: exactIds.length,
+      fuzzyMatches: Object.keys(matches).length - exactIds.length,
+    });
+
+    return matches;
+  }
+
+  /**
+   * Normalize text so casing, punctuation and spacing differences still match exactly
+   */
+  normalize(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/[\p{P}\p{S}]+/gu, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Levenshtein-score only the entries that share the most trigrams with the
+   * text and are close enough in length, instead of the whole memory
+   */
+  private bestFuzzyMatch(
+    normalized: string,
+    entries: IndexedEntry[],
+    index: Map<string, number[]>
+  ): { entry: IndexedEntry; score: number } | null {
+    const shared = new Map<number, number>();
+    for (const gram of this.trigrams(normalized)) {
+      for (const position of index.get(gram) ?? []) {
+        if (this.lengthCompatible(normalized, entries[position].normalizedSource)) {
+          shared.set(position, (shared.get(position) ?? 0) + 1);
+        }
+      }
+    }
+
+    const candidates = [...shared.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.maxFuzzyCandidates);
+
+    let best: { entry: IndexedEntry; score: number } | null = null;
+    for (const [position] of candidates) {
+      const entry = entries[position];
+      const score = this.similarity(normalized, entry.normalizedSource);
+      if (!best || score > best.score) {
+        best = { entry, score };
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Map each trigram to the positions of the entries containing it
+   */
+  private buildTrigramIndex(entries: IndexedEntry[]): Map<string, number[]> {
+    const index = new Map<string, number[]>();
+    entries.forEach((entry, position) => {
+      for (const gram of this.trigrams(entry.normalizedSource)) {
+        const postings = index.get(gram);
+        if (postings) {
+          postings.push(position);
+        } else {
+          index.set(gram, [position]);
+        }
+      }
+    });
+    return index;
+  }
+
+  /**
+   * Distinct character trigrams, padded so short words still produce some
+   */
+  private trigrams(text: string): Set<string> {
+    const padded = ` ${text} `;
+    const grams = new Set<string>();
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      grams.add(padded.slice(i, i + 3));
+    }
+    return grams;
+  }
+
+  /**
+   * Whether the length gap alone leaves room for the pair to reach the threshold
+   */
+  private lengthCompatible(a: string, b: string): boolean {
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 || Math.abs(a.length - b.length) / longest <= 1 - this.fuzzyThreshold;
+  }
+
+  /**
+   * Character-level Levenshtein ratio between two normalized strings
+   */
+  private similarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 1;
+    if (!this.lengthCompatible(a, b)) return 0;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+
+    return 1 - previous[b.length] / longest;
+  }
+}
+
+export default new TranslationMemoryService();
@@ -1,6 +1,11 @@
-import OpenAI from 'openai';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { translationLogger as logger, logPerformance } from '../utils/logger';
+import providerRegistry, { TranslationProvider, BACK_TRANSLATION_SYSTEM_PROMPT } from './providers';
+import glossaryService, { GlossaryEntry, GlossaryViolation } from './glossary.service';
+import { MemoryMatch } from './translation-memory.service';
+import scoringService from './scoring.service';
+import durationService, { DurationFit, SpeechUnit } from './duration.service';
+import preservationService from './preservation.service';
+import { QAIssue } from '../types';
 
 interface TranslationContext {
   speaker?: string;
@@ -8,6 +13,8 @@ interface TranslationContext {
   domain?: string;
   description?: string;
   previousSegments?: string[];
+  previousTranslations?: string[];
+  followingSegments?: string[];
 }
 
 interface TranslationSegment {
@@ -28,21 +35,84 @@ interface TranslationResult {
   };
 }
 
-interface MergedTranslation {
+export interface TranslationOptions {
+  providers?: string[];
+  glossary?: GlossaryEntry[];
+  memoryMatches?: Record<number, MemoryMatch>;
+  /** Ask for condensed rewrites when a segment overruns its window (default true) */
+  fitToDuration?: boolean;
+  /** Measured TTS durations keyed by segment id; used instead of the estimate */
+  measuredDurations?: Record<number, number>;
+  /** Translate the final text back to English and score meaning drift */
+  backTranslate?: boolean;
+  /** Neighboring source segments shown as reference-only context */
+  contextWindow?: { before: number; after: number };
+  /** Full ordered segment list to draw neighbors from, when translating a subset */
+  contextSegments?: TranslationSegment[];
+  /** Translations already made for segments outside this call, keyed by segment id */
+  priorTranslations?: Record<number, string>;
+  /** Called after each translated segment with that segment's result */
+  onProgress?: (
+    completedSegments: number,
+    totalSegments: number,
+    segment: MergedTranslation
+  ) => void | Promise<void>;
+}
+
+export interface FitAttempt {
+  attempt: number;
+  text: string;
+  model: string;
+  maxUnits: number;
+  unit: SpeechUnit;
+  estimatedDuration: number;
+  fits: boolean;
+  glossaryViolations?: GlossaryViolation[];
+  preservationIssues?: QAIssue[];
+}
+
+export interface BackTranslation {
+  text: string;
+  model: string;
+  drift: number;
+  chrF: number;
+  contentOverlap: number;
+  exceedsThreshold: boolean;
+}
+
+export interface MergedTranslation {
+  segmentId: number;
   text: string;
   confidence: number;
   primaryModel: string;
   comparisonScore: number;
   metadata: {
-    gpt4Result: TranslationResult;
-    geminiResult: TranslationResult;
+    modelAResult: TranslationResult;
+    modelBResult: TranslationResult;
     mergeStrategy: string;
+    agreement?: {
+      chrF: number;
+      tokenEditSimilarity: number;
+    };
+    glossaryViolations?: GlossaryViolation[];
+    memoryMatch?: MemoryMatch;
+    timing?: DurationFit;
+    fitAttempts?: FitAttempt[];
+    backTranslation?: BackTranslation;
+    preservationIssues?: QAIssue[];
   };
 }
 
+const DEFAULT_CONTEXT_WINDOW = {
+  before: parseInt(process.env.TRANSLATION_CONTEXT_BEFORE || '2'),
+  after: parseInt(process.env.TRANSLATION_CONTEXT_AFTER || '1')
+};
+const MAX_FIT_ATTEMPTS = parseInt(process.env.DURATION_FIT_MAX_ATTEMPTS || '2');
+const DRIFT_THRESHOLD = parseFloat(process.env.BACK_TRANSLATION_DRIFT_THRESHOLD || '0.5');
+// Segments above 0.9 are auto-approved; one model alone never clears that bar
+const SINGLE_PROVIDER_MAX_CONFIDENCE = 0.9;
+
 export class TranslationService {
-  private openai: OpenAI;
-  private gemini: GoogleGenerativeAI;
   private languageMap: Record<string, string> = {
     es: 'Spanish',
     zh: 'Chinese (Mandarin)',
@@ -57,22 +127,8 @@ export class TranslationService {
   };
 
   constructor() {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is not set in the environment variables.');
-    }
-    if (!process.env.GOOGLE_API_KEY) {
-      throw new Error('GOOGLE_API_KEY is not set in the environment variables.');
-    }
-
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-
-    this.gemini = new GoogleGenerativeAI(process.env.GOOGLE_API_KEY);
-    
     logger.info('TranslationService initialized', {
-      openAIConfigured: !!process.env.OPENAI_API_KEY,
-      geminiConfigured: !!process.env.GOOGLE_API_KEY,
+      providers: providerRegistry.list(),
       supportedLanguages: Object.keys(this.languageMap).length
     });
   }
@@ -83,15 +139,24 @@ export class TranslationService {
   async translateWithContext(
     segments: TranslationSegment[],
     targetLanguageCode: string,
-    context: TranslationContext
+    context: TranslationContext,
+    options: TranslationOptions = {}
   ): Promise<MergedTranslation[]> {
     const startTime = Date.now();
     const targetLanguage = this.languageMap[targetLanguageCode] || targetLanguageCode;
-    const contextPrompt = this.buildContextPrompt(context, targetLanguage);
+    const [providerA, providerB] = providerRegistry.resolvePair(options.providers);
+    const glossary = options.glossary || [];
+    const memoryMatches = options.memoryMatches || {};
+    const contextWindow = options.contextWindow || DEFAULT_CONTEXT_WINDOW;
+    const contextSegments = options.contextSegments || segments;
+    const translatedSoFar: Record<number, string> = { ...options.priorTranslations };
 
     logger.info('Starting dual-model translation', {
       targetLanguageCode,
       targetLanguage,
+      providers: [providerA.id, providerB.id],
+      glossaryTerms: glossary.length,
+      memoryMatches: Object.keys(memoryMatches).length,
       segmentCount: segments.length,
       totalDuration: segments.reduce((acc, seg) => acc + (seg.endTime - seg.startTime), 0).toFixed(2),
       context: {
@@ -101,9 +166,12 @@ export class TranslationService {
       }
     });
 
+    await durationService.ensureCalibrationLoaded();
+
     const results: MergedTranslation[] = [];
     let successCount = 0;
     let errorCount = 0;
+    let overflowCount = 0;
 
     for (const segment of segments) {
       const segmentStartTime = Date.now();
@@ -114,21 +182,118 @@ export class TranslationService {
           duration: (segment.endTime - segment.startTime).toFixed(2)
         });
         
-        // Translate with both models in parallel
-        const [gpt4Result, geminiResult] = await Promise.all([
-          this.translateWithGPT4(segment, targetLanguage, contextPrompt),
-          this.translateWithGemini(segment, targetLanguage, contextPrompt)
-        ]);
-
-        // Merge and evaluate translations
-        const merged = await this.mergeTranslations(
-          segment,
-          gpt4Result,
-          geminiResult,
+        const memoryMatch = memoryMatches[segment.id];
+        const contextPrompt = this.buildContextPrompt(
+          this.withNeighbors(context, segment, contextSegments, translatedSoFar, contextWindow),
           targetLanguage
         );
+        let merged: MergedTranslation;
+
+        if (memoryMatch?.matchPercentage === 100) {
+          // Approved translation of the same sentence - skip the model calls
+          merged = this.fromTranslationMemory(segment, memoryMatch, targetLanguageCode);
+        } else {
+          const instructions = glossaryService.buildInstructions(
+            glossaryService.findMatches(segment.text, glossary),
+            targetLanguage
+          );
+
+          if (providerA.id === providerB.id) {
+            // A provider always agrees with itself, so there is no second opinion to score
+            const result = await this.translateWithProvider(providerA, segment, targetLanguage, targetLanguageCode, contextPrompt, instructions);
+            merged = this.fromSingleProvider(segment, result);
+          } else {
+            // Translate with both models in parallel
+            const [modelAResult, modelBResult] = await Promise.all([
+              this.translateWithProvider(providerA, segment, targetLanguage, targetLanguageCode, contextPrompt, instructions),
+              this.translateWithProvider(providerB, segment, targetLanguage, targetLanguageCode, contextPrompt, instructions)
+            ]);
+
+            // Merge and evaluate translations
+            merged = await this.mergeTranslations(
+              segment,
+              modelAResult,
+              modelBResult,
+              targetLanguage,
+              targetLanguageCode,
+              providerRegistry.resolveJudge([providerA, providerB])
+            );
+          }
+
+          // Fuzzy matches are offered to the reviewer alongside the model output
+          if (memoryMatch) {
+            merged.metadata.memoryMatch = memoryMatch;
+          }
+        }
+
+        if (glossary.length > 0) {
+          merged.metadata.glossaryViolations = glossaryService.checkTranslation(
+            segment.text,
+            merged.text,
+            glossary
+          );
+
+          if (merged.metadata.glossaryViolations.length > 0) {
+            logger.warn('Glossary violation detected', {
+              segmentId: segment.id,
+              violations: merged.metadata.glossaryViolations
+            });
+          }
+        }
+
+        merged.metadata.preservationIssues = this.checkPreservation(segment, merged.text, targetLanguageCode);
+
+        const measuredDuration = options.measuredDurations?.[segment.id];
+        merged.metadata.timing = durationService.checkFit(
+          measuredDuration ?? durationService.estimate(merged.text, targetLanguageCode),
+          segment.startTime,
+          segment.endTime
+        );
+
+        // Approved memory text is left alone; the reviewer decides if it needs trimming
+        if (
+          !merged.metadata.timing.fits &&
+          options.fitToDuration !== false &&
+          merged.metadata.mergeStrategy !== 'translation_memory'
+        ) {
+          const provider =
+            [providerA, providerB].find((p) => p.model === merged.primaryModel) || providerA;
+          await this.fitToWindow(
+            merged,
+            segment,
+            provider,
+            targetLanguage,
+            targetLanguageCode,
+            contextPrompt,
+            glossary
+          );
+        }
+
+        if (!merged.metadata.timing.fits) {
+          overflowCount++;
+          logger.warn('Translation still exceeds segment window', {
+            segmentId: segment.id,
+            windowDuration: merged.metadata.timing.windowDuration.toFixed(2),
+            estimatedDuration: merged.metadata.timing.estimatedDuration.toFixed(2),
+            attempts: merged.metadata.fitAttempts?.length || 0
+          });
+        }
+
+        if (options.backTranslate) {
+          // The other model checks the primary's work, so it does not confirm its own output
+          const checker =
+            [providerB, providerA].find((p) => p.model !== merged.primaryModel) || providerB;
+          merged.metadata.backTranslation = await this.backTranslate(
+            segment,
+            merged.text,
+            checker,
+            targetLanguage,
+            targetLanguageCode
+          );
+        }
 
         results.push(merged);
+        translatedSoFar[segment.id] = merged.text;
         successCount++;
         
         logger.debug('Segment translation completed', {
@@ -148,6 +313,8 @@ export class TranslationService {
         });
         throw error;
       }
+
+      await options.onProgress?.(results.length, segments.length, results[results.length - 1]);
     }
 
     logPerformance('translate_with_context', startTime, {
@@ -155,6 +322,7 @@ export class TranslationService {
       totalSegments: segments.length,
       successCount,
       errorCount,
+      overflowCount,
       averageConfidence: (results.reduce((acc, r) => acc + r.confidence, 0) / results.length).toFixed(3)
     });
 
@@ -184,125 +352,123 @@ Requirements for ${targetLanguage} translation:
 
 Special considerations:
 - NYC-specific terms (borough names, department names) should be kept in English or use official translations
+- When mandatory terminology is listed with a segment, use it exactly as given
 - Legal and technical terminology must be precisely translated
-- Emergency or safety information must be clear and unambiguous`;
+- Emergency or safety information must be clear and unambiguous${this.buildNeighborSection(context)}`;
   }
 
   /**
-   * Translate with GPT-4
+   * Add the surrounding source segments (and translations already made for the
+   * earlier ones) so sentences split across segment boundaries read correctly
    */
-  private async translateWithGPT4(
+  private withNeighbors(
+    context: TranslationContext,
     segment: TranslationSegment,
-    targetLanguage: string,
-    contextPrompt: string
-  ): Promise<TranslationResult> {
-    const startTime = Date.now();
-    try {
-      logger.debug('Sending segment to GPT-4', {
-        segmentId: segment.id,
-        targetLanguage,
-        originalLength: segment.text.length,
-        originalWords: segment.text.split(/\s+/).length
-      });
-      
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: contextPrompt
-          },
-          {
-            role: 'user',
-            content: `Translate the following segment to ${targetLanguage}. The segment duration is ${(segment.endTime - segment.startTime).toFixed(1)} seconds.
-
-Original text: "${segment.text}"
-
-Provide only the translation, no explanations.`
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 500,
-      });
+    allSegments: TranslationSegment[],
+    translated: Record<number, string>,
+    window: { before: number; after: number }
+  ): TranslationContext {
+    const index = allSegments.findIndex((s) => s.id === segment.id);
+    if (index === -1 || (window.before <= 0 && window.after <= 0)) {
+      return context;
+    }
 
-      const translatedText = completion.choices[0].message.content?.trim() || '';
-      const wordCount = translatedText.split(/\s+/).length;
-      const estimatedDuration = this.estimateDuration(translatedText, targetLanguage);
-      
-      logger.debug('GPT-4 translation completed', {
-        segmentId: segment.id,
-        translatedLength: translatedText.length,
-        translatedWords: wordCount,
-        estimatedDuration: estimatedDuration.toFixed(2),
-        apiDuration: `${Date.now() - startTime}ms`,
-        usageTokens: completion.usage?.total_tokens
-      });
+    const previous = allSegments.slice(Math.max(index - window.before, 0), index);
+    const following = window.after > 0 ? allSegments.slice(index + 1, index + 1 + window.after) : [];
 
-      return {
-        translatedText,
-        confidence: 0.9, // Base confidence for GPT-4
-        model: 'gpt-4',
-        metadata: {
-          wordCount,
-          estimatedDuration
-        }
-      };
-    } catch (error) {
-      logger.error('GPT-4 translation failed', {
-        segmentId: segment.id,
-        error: error instanceof Error ? error.message : String(error),
-        duration: `${Date.now() - startTime}ms`
+    return {
+      ...context,
+      previousSegments: previous.map((s) => s.text),
+      previousTranslations: previous.map((s) => translated[s.id] || ''),
+      followingSegments: following.map((s) => s.text)
+    };
+  }
+
+  private buildNeighborSection(context: TranslationContext): string {
+    const previous = context.previousSegments || [];
+    const following = context.followingSegments || [];
+    if (previous.length === 0 && following.length === 0) {
+      return '';
+    }
+
+    const lines = [
+      '',
+      '',
+      'Surrounding segments, for reference only. Do not translate them or include them in your answer; translate only the segment you are given, which may start or end mid-sentence.'
+    ];
+    if (previous.length > 0) {
+      lines.push('Before:');
+      previous.forEach((text, i) => {
+        const translation = context.previousTranslations?.[i];
+        lines.push(translation ? `- "${text}" (translated as "${translation}")` : `- "${text}"`);
       });
-      throw error;
     }
+    if (following.length > 0) {
+      lines.push('After:');
+      following.forEach((text) => lines.push(`- "${text}"`));
+    }
+    return lines.join('\n');
   }
 
   /**
-   * Translate with GPT-4-turbo
+   * Translate a segment with a single registered provider
    */
-  private async translateWithGemini(
+  private async translateWithProvider(
+    provider: TranslationProvider,
     segment: TranslationSegment,
     targetLanguage: string,
-    contextPrompt: string
+    targetLanguageCode: string,
+    contextPrompt: string,
+    instructions: string[] = []
   ): Promise<TranslationResult> {
     const startTime = Date.now();
     try {
-      logger.debug('Sending segment to Gemini Pro', {
+      logger.debug(`Sending segment to ${provider.model}`, {
         segmentId: segment.id,
+        provider: provider.id,
         targetLanguage,
         originalLength: segment.text.length,
         originalWords: segment.text.split(/\s+/).length
       });
-      
-      const model = this.gemini.getGenerativeModel({ model: "gemini-1.5-flash"});
-      const prompt = `${contextPrompt}\n\nTranslate the following segment to ${targetLanguage}. The segment duration is ${(segment.endTime - segment.startTime).toFixed(1)} seconds.\n\nOriginal text: "${segment.text}"\n\nProvide only the translation, no explanations.`;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const translatedText = response.text().trim();
+      const response = await provider.translate({
+        segmentId: segment.id,
+        text: segment.text,
+        sourceLanguage: 'English',
+        sourceLanguageCode: 'en',
+        targetLanguage,
+        targetLanguageCode,
+        contextPrompt,
+        duration: segment.endTime - segment.startTime,
+        instructions
+      });
+
+      const translatedText = response.translatedText;
       const wordCount = translatedText.split(/\s+/).length;
-      const estimatedDuration = this.estimateDuration(translatedText, targetLanguage);
-      
-      logger.debug('Gemini Pro translation completed', {
+      const estimatedDuration = durationService.estimate(translatedText, targetLanguageCode);
+
+      logger.debug(`${provider.model} translation completed`, {
         segmentId: segment.id,
         translatedLength: translatedText.length,
         translatedWords: wordCount,
         estimatedDuration: estimatedDuration.toFixed(2),
-        apiDuration: `${Date.now() - startTime}ms`
+        apiDuration: `${Date.now() - startTime}ms`,
+        usageTokens: response.usageTokens
       });
 
       return {
         translatedText,
-        confidence: 0.85, // Base confidence for Gemini Pro
-        model: 'gemini-1.5-flash',
+        confidence: provider.baseConfidence,
+        model: provider.model,
         metadata: {
           wordCount,
           estimatedDuration
         }
       };
     } catch (error) {
-      logger.error('Gemini Pro translation failed', {
+      logger.error(`${provider.model} translation failed`, {
         segmentId: segment.id,
+        provider: provider.id,
         error: error instanceof Error ? error.message : String(error),
         duration: `${Date.now() - startTime}ms`
       });
@@ -315,24 +481,34 @@ Provide only the translation, no explanations.`
    */
   private async mergeTranslations(
     segment: TranslationSegment,
-    gpt4Result: TranslationResult,
-    geminiResult: TranslationResult,
-    targetLanguage: string
+    modelAResult: TranslationResult,
+    modelBResult: TranslationResult,
+    targetLanguage: string,
+    targetLanguageCode: string,
+    judge?: TranslationProvider
   ): Promise<MergedTranslation> {
     const startTime = Date.now();
     
-    // Calculate similarity between translations
-    const similarity = this.calculateSimilarity(
-      gpt4Result.translatedText,
-      geminiResult.translatedText
+    // Calculate agreement between translations
+    const agreement = scoringService.agreement(
+      modelAResult.translatedText,
+      modelBResult.translatedText,
+      targetLanguageCode
     );
+    const similarity = agreement.score;
+    const { thresholds } = agreement;
     
     logger.debug('Comparing translations', {
       segmentId: segment.id,
       similarity: similarity.toFixed(3),
-      gpt4Words: gpt4Result.metadata?.wordCount,
-      geminiWords: geminiResult.metadata?.wordCount,
-      lengthDifference: Math.abs(gpt4Result.translatedText.length - geminiResult.translatedText.length)
+      chrF: agreement.chrF.toFixed(3),
+      tokenEditSimilarity: agreement.tokenEditSimilarity.toFixed(3),
+      thresholds,
+      modelA: modelAResult.model,
+      modelB: modelBResult.model,
+      modelAWords: modelAResult.metadata?.wordCount,
+      modelBWords: modelBResult.metadata?.wordCount,
+      lengthDifference: Math.abs(modelAResult.translatedText.length - modelBResult.translatedText.length)
     });
 
     // Determine which translation to use
@@ -341,10 +517,10 @@ Provide only the translation, no explanations.`
     let confidence: number;
     let mergeStrategy: string;
 
-    if (similarity > 0.9) {
-      // Very similar - use GPT-4 as primary
-      finalTranslation = gpt4Result.translatedText;
-      primaryModel = 'gpt-4';
+    if (similarity >= thresholds.high) {
+      // Very similar - use model A as primary
+      finalTranslation = modelAResult.translatedText;
+      primaryModel = modelAResult.model;
       confidence = 0.95;
       mergeStrategy = 'high_agreement';
       
@@ -352,18 +528,20 @@ Provide only the translation, no explanations.`
         segmentId: segment.id,
         similarity: similarity.toFixed(3)
       });
-    } else if (similarity > 0.7) {
+    } else if (similarity >= thresholds.moderate) {
       // Moderate similarity - verify and potentially merge
       logger.debug('Moderate agreement, verifying translation', {
         segmentId: segment.id,
-        similarity: similarity.toFixed(3)
+        similarity: similarity.toFixed(3),
+        judge: judge?.id
       });
       
       const verification = await this.verifyTranslation(
         segment.text,
-        gpt4Result.translatedText,
-        geminiResult.translatedText,
-        targetLanguage
+        modelAResult,
+        modelBResult,
+        targetLanguage,
+        judge
       );
       
       finalTranslation = verification.preferredTranslation;
@@ -372,9 +550,9 @@ Provide only the translation, no explanations.`
       mergeStrategy = 'verified_selection';
     } else {
       // Low similarity - needs human review
-      // Default to GPT-4 but flag for review
-      finalTranslation = gpt4Result.translatedText;
-      primaryModel = 'gpt-4';
+      // Default to model A but flag for review
+      finalTranslation = modelAResult.translatedText;
+      primaryModel = modelAResult.model;
       confidence = 0.7;
       mergeStrategy = 'low_agreement_flagged';
       
@@ -382,8 +560,8 @@ Provide only the translation, no explanations.`
         segmentId: segment.id,
         similarity: similarity.toFixed(3),
         originalText: segment.text.substring(0, 100) + '...',
-        gpt4Translation: gpt4Result.translatedText.substring(0, 100) + '...',
-        geminiTranslation: geminiResult.translatedText.substring(0, 100) + '...'
+        modelATranslation: modelAResult.translatedText.substring(0, 100) + '...',
+        modelBTranslation: modelBResult.translatedText.substring(0, 100) + '...'
       });
     }
     
@@ -396,14 +574,280 @@ Provide only the translation, no explanations.`
     });
 
     return {
+      segmentId: segment.id,
       text: finalTranslation,
       confidence,
       primaryModel,
       comparisonScore: similarity,
       metadata: {
-        gpt4Result,
-        geminiResult,
-        mergeStrategy
+        modelAResult,
+        modelBResult,
+        mergeStrategy,
+        agreement: {
+          chrF: agreement.chrF,
+          tokenEditSimilarity: agreement.tokenEditSimilarity
+        }
+      }
+    };
+  }
+
+  /**
+   * Numbers, dates, phone numbers and links must survive translation unchanged
+   */
+  private checkPreservation(
+    segment: TranslationSegment,
+    translatedText: string,
+    targetLanguageCode: string
+  ): QAIssue[] {
+    const issues = preservationService.check(
+      segment.text,
+      translatedText,
+      targetLanguageCode,
+      segment.startTime
+    );
+
+    if (issues.length > 0) {
+      logger.warn('Preservation check failed', {
+        segmentId: segment.id,
+        issues: issues.map((issue) => issue.description)
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Ask the primary provider for shorter rewrites until one fits the window.
+   * Every attempt is kept on the result so a reviewer can pick another.
+   */
+  private async fitToWindow(
+    merged: MergedTranslation,
+    segment: TranslationSegment,
+    provider: TranslationProvider,
+    targetLanguage: string,
+    targetLanguageCode: string,
+    contextPrompt: string,
+    glossary: GlossaryEntry[]
+  ): Promise<void> {
+    const startTime = Date.now();
+    const windowDuration = merged.metadata.timing!.windowDuration;
+    const glossaryInstructions = glossaryService.buildInstructions(
+      glossaryService.findMatches(segment.text, glossary),
+      targetLanguage
+    );
+    const attempts: FitAttempt[] = [];
+    let best: FitAttempt | null = null;
+    let previousText = merged.text;
+
+    for (let attempt = 1; attempt <= MAX_FIT_ATTEMPTS; attempt++) {
+      // Tighten the budget on each pass since models tend to overshoot it
+      const { unit, maxUnits } = durationService.budget(
+        windowDuration * Math.pow(0.9, attempt - 1),
+        targetLanguageCode
+      );
+      const instructions = [
+        ...glossaryInstructions,
+        `This translation is too long for the ${windowDuration.toFixed(1)} second dubbing window: "${previousText}"`,
+        `Rewrite it in at most ${maxUnits} ${unit}, keeping the meaning, names, numbers and dates intact. Drop filler before content.`
+      ];
+
+      const result = await this.translateWithProvider(
+        provider,
+        segment,
+        targetLanguage,
+        targetLanguageCode,
+        contextPrompt,
+        instructions
+      );
+
+      // Providers that ignore instructions return the same text; stop asking
+      if (result.translatedText === previousText) {
+        break;
+      }
+
+      const estimatedDuration = result.metadata?.estimatedDuration ?? 0;
+      const candidate: FitAttempt = {
+        attempt,
+        text: result.translatedText,
+        model: result.model,
+        maxUnits,
+        unit,
+        estimatedDuration,
+        fits: durationService.checkFit(estimatedDuration, segment.startTime, segment.endTime).fits
+      };
+
+      if (glossary.length > 0) {
+        candidate.glossaryViolations = glossaryService.checkTranslation(
+          segment.text,
+          candidate.text,
+          glossary
+        );
+      }
+
+      candidate.preservationIssues = preservationService.check(
+        segment.text,
+        candidate.text,
+        targetLanguageCode,
+        segment.startTime
+      );
+
+      attempts.push(candidate);
+      previousText = candidate.text;
+
+      // A shorter rewrite must not introduce terminology errors or drop a number
+      const introducesViolations =
+        (candidate.glossaryViolations?.length || 0) >
+          (merged.metadata.glossaryViolations?.length || 0) ||
+        candidate.preservationIssues.length > (merged.metadata.preservationIssues?.length || 0);
+      if (!introducesViolations && (!best || candidate.estimatedDuration < best.estimatedDuration)) {
+        best = candidate;
+      }
+
+      if (candidate.fits && !introducesViolations) {
+        break;
+      }
+    }
+
+    merged.metadata.fitAttempts = attempts;
+
+    if (best && best.estimatedDuration < merged.metadata.timing!.estimatedDuration) {
+      merged.text = best.text;
+      if (best.glossaryViolations) {
+        merged.metadata.glossaryViolations = best.glossaryViolations;
+      }
+      merged.metadata.preservationIssues = best.preservationIssues;
+      merged.metadata.timing = durationService.checkFit(
+        best.estimatedDuration,
+        segment.startTime,
+        segment.endTime
+      );
+    }
+
+    logPerformance('fit_to_window', startTime, {
+      segmentId: segment.id,
+      provider: provider.id,
+      attempts: attempts.length,
+      fits: merged.metadata.timing!.fits
+    });
+  }
+
+  /**
+   * Translate the final text back to English and score it against the source.
+   * Failures are logged and skipped; back-translation is a review aid only.
+   */
+  private async backTranslate(
+    segment: TranslationSegment,
+    translatedText: string,
+    provider: TranslationProvider,
+    targetLanguage: string,
+    targetLanguageCode: string
+  ): Promise<BackTranslation | undefined> {
+    const startTime = Date.now();
+    try {
+      const response = await provider.translate({
+        segmentId: segment.id,
+        text: translatedText,
+        sourceLanguage: targetLanguage,
+        sourceLanguageCode: targetLanguageCode,
+        targetLanguage: 'English',
+        targetLanguageCode: 'en',
+        contextPrompt: BACK_TRANSLATION_SYSTEM_PROMPT,
+        duration: segment.endTime - segment.startTime
+      });
+
+      const score = scoringService.drift(segment.text, response.translatedText);
+      const exceedsThreshold = score.drift > DRIFT_THRESHOLD;
+
+      if (exceedsThreshold) {
+        logger.warn('Back-translation drift above threshold', {
+          segmentId: segment.id,
+          drift: score.drift.toFixed(3),
+          threshold: DRIFT_THRESHOLD,
+          backTranslation: response.translatedText.substring(0, 100)
+        });
+      }
+
+      logPerformance('back_translation', startTime, {
+        segmentId: segment.id,
+        provider: provider.id,
+        drift: score.drift.toFixed(3)
+      });
+
+      return {
+        text: response.translatedText,
+        model: provider.model,
+        ...score,
+        exceedsThreshold
+      };
+    } catch (error) {
+      logger.error('Back-translation failed', {
+        segmentId: segment.id,
+        provider: provider.id,
+        error: error instanceof Error ? error.message : String(error),
+        duration: `${Date.now() - startTime}ms`
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Build a result from an exact translation memory match
+   */
+  private fromTranslationMemory(
+    segment: TranslationSegment,
+    memoryMatch: MemoryMatch,
+    targetLanguageCode: string
+  ): MergedTranslation {
+    const memoryResult: TranslationResult = {
+      translatedText: memoryMatch.translatedText,
+      confidence: 1,
+      model: 'translation-memory',
+      metadata: {
+        wordCount: memoryMatch.translatedText.split(/\s+/).length,
+        estimatedDuration: durationService.estimate(memoryMatch.translatedText, targetLanguageCode)
+      }
+    };
+
+    logger.debug('Reusing translation memory match', {
+      segmentId: segment.id,
+      entryId: memoryMatch.entryId
+    });
+
+    return {
+      segmentId: segment.id,
+      text: memoryMatch.translatedText,
+      confidence: 0.98,
+      primaryModel: memoryResult.model,
+      comparisonScore: 1,
+      metadata: {
+        modelAResult: memoryResult,
+        modelBResult: memoryResult,
+        mergeStrategy: 'translation_memory',
+        memoryMatch
+      }
+    };
+  }
+
+  /**
+   * Wrap a translation from a single provider. Without a second model to compare
+   * against, confidence is the provider's own and the segment goes to review.
+   */
+  private fromSingleProvider(segment: TranslationSegment, result: TranslationResult): MergedTranslation {
+    logger.debug('Single provider translation, skipping agreement check', {
+      segmentId: segment.id,
+      model: result.model,
+      confidence: result.confidence
+    });
+
+    return {
+      segmentId: segment.id,
+      text: result.translatedText,
+      confidence: Math.min(result.confidence, SINGLE_PROVIDER_MAX_CONFIDENCE),
+      primaryModel: result.model,
+      comparisonScore: 0,
+      metadata: {
+        modelAResult: result,
+        modelBResult: result,
+        mergeStrategy: 'single_provider'
       }
     };
   }
@@ -413,9 +857,10 @@ Provide only the translation, no explanations.`
    */
   private async verifyTranslation(
     originalText: string,
-    gpt4Translation: string,
-    geminiTranslation: string,
-    targetLanguage: string
+    modelAResult: TranslationResult,
+    modelBResult: TranslationResult,
+    targetLanguage: string,
+    judge?: TranslationProvider
   ): Promise<{
     preferredTranslation: string;
     preferredModel: string;
@@ -423,124 +868,58 @@ Provide only the translation, no explanations.`
   }> {
     const startTime = Date.now();
     try {
+      if (!judge?.compare) {
+        throw new Error('No translation judge is available');
+      }
+
       logger.debug('Verifying translation quality', {
         targetLanguage,
+        judge: judge.id,
         originalLength: originalText.length,
-        gpt4Length: gpt4Translation.length,
-        geminiLength: geminiTranslation.length
+        modelALength: modelAResult.translatedText.length,
+        modelBLength: modelBResult.translatedText.length
       });
       
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a professional translation quality assessor for NYC government content. Compare two translations and select the better one.`
-          },
-          {
-            role: 'user',
-            content: `Original English: "${originalText}"
-            
-Translation A (from GPT-4): "${gpt4Translation}"
-Translation B (from Gemini): "${geminiTranslation}"
-
-Target language: ${targetLanguage}
-
-Which translation better preserves meaning, tone, and timing for video dubbing? Consider:
-1. Accuracy of meaning
-2. Natural flow in ${targetLanguage}
-3. Appropriate formality for government communication
-4. Similar length to original for dubbing
-
-Respond with only "A" or "B".`
-          }
-        ],
-        temperature: 0,
-        max_tokens: 10,
+      const choice = await judge.compare({
+        originalText,
+        translationA: modelAResult.translatedText,
+        translationB: modelBResult.translatedText,
+        targetLanguage
       });
-
-      const choice = completion.choices[0].message.content?.trim().toUpperCase();
       
       logger.debug('Verification completed', {
         choice,
         duration: `${Date.now() - startTime}ms`
       });
       
-      if (choice === 'A') {
-        return {
-          preferredTranslation: gpt4Translation,
-          preferredModel: 'gpt-4',
-          confidence: 0.85
-        };
-      } else {
-        return {
-          preferredTranslation: geminiTranslation,
-          preferredModel: 'gemini-1.5-flash',
-          confidence: 0.85
-        };
-      }
+      const preferred = choice === 'A' ? modelAResult : modelBResult;
+      return {
+        preferredTranslation: preferred.translatedText,
+        preferredModel: preferred.model,
+        confidence: 0.85
+      };
     } catch (error) {
       logger.error('Translation verification failed', {
         error: error instanceof Error ? error.message : String(error),
         duration: `${Date.now() - startTime}ms`
       });
-      // Default to GPT-4 on error
+      // Default to model A on error
       return {
-        preferredTranslation: gpt4Translation,
-        preferredModel: 'gpt-4',
+        preferredTranslation: modelAResult.translatedText,
+        preferredModel: modelAResult.model,
         confidence: 0.75
       };
     }
   }
 
-  /**
-   * Calculate similarity between two translations
-   */
-  private calculateSimilarity(text1: string, text2: string): number {
-    // Simple word-based similarity (can be improved with better algorithms)
-    const words1 = text1.toLowerCase().split(/\s+/);
-    const words2 = text2.toLowerCase().split(/\s+/);
-    
-    const set1 = new Set(words1);
-    const set2 = new Set(words2);
-    
-    const intersection = new Set([...set1].filter(x => set2.has(x)));
-    const union = new Set([...set1, ...set2]);
-    
-    return intersection.size / union.size;
-  }
-
-  /**
-   * Estimate duration for translated text
-   */
-  private estimateDuration(text: string, language: string): number {
-    // Average speaking rates (words per minute) by language
-    const speechRates: Record<string, number> = {
-      Spanish: 180,
-      Chinese: 160,
-      Russian: 184,
-      Bengali: 170,
-      'Haitian Creole': 175,
-      Korean: 170,
-      Arabic: 165,
-      Urdu: 170,
-      French: 195,
-      Polish: 190
-    };
-
-    const wordsPerMinute = speechRates[language] || 175;
-    const wordCount = text.split(/\s+/).length;
-    
-    return (wordCount / wordsPerMinute) * 60; // Return in seconds
-  }
-
   /**
    * Batch translate multiple segments
    */
   async batchTranslate(
     segments: TranslationSegment[],
     targetLanguageCode: string,
-    context: TranslationContext
+    context: TranslationContext,
+    options: TranslationOptions = {}
   ): Promise<MergedTranslation[]> {
     const startTime = Date.now();
     const batchSize = 5; // Process 5 segments at a time
@@ -565,10 +944,19 @@ Respond with only "A" or "B".`
         endSegmentId: batch[batch.length - 1].id
       });
       
+      // Neighbors across batch boundaries come from the full list and earlier batches
       const batchResults = await this.translateWithContext(
         batch,
         targetLanguageCode,
-        context
+        context,
+        {
+          ...options,
+          contextSegments: options.contextSegments || segments,
+          priorTranslations: {
+            ...options.priorTranslations,
+            ...Object.fromEntries(results.map((r) => [r.segmentId, r.text]))
+          }
+        }
       );
       results.push(...batchResults);
       
@@ -588,6 +976,20 @@ Respond with only "A" or "B".`
     return results;
   }
 
+  /**
+   * Resolve and validate the provider pair for a request
+   */
+  resolveProviders(requested?: string[]): string[] {
+    return providerRegistry.resolvePair(requested).map((provider) => provider.id);
+  }
+
+  /**
+   * Get registered translation providers
+   */
+  getProviders(): Array<{ id: string; model: string; available: boolean }> {
+    return providerRegistry.list();
+  }
+
   /**
    * Get supported languages
    */
@@ -0,0 +1,284 @@
+import { Prisma, SegmentQAStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { translationLogger as logger } from '../utils/logger';
+import { QAIssue } from '../types';
+import translationService, {
+  BackTranslation,
+  FitAttempt,
+  MergedTranslation,
+  TranslationOptions,
+} from './translation.service';
+import glossaryService, { GlossaryViolation } from './glossary.service';
+import translationMemoryService, { MemoryMatch } from './translation-memory.service';
+import { DurationFit } from './duration.service';
+import progressService from './progress.service';
+
+export interface SourceSegment {
+  id: number | string;
+  text: string;
+  startTime: number;
+  endTime: number;
+}
+
+export interface VideoTranslationRequest {
+  videoId: string;
+  projectId: string;
+  targetLanguage: string;
+  segments: SourceSegment[];
+  context?: any;
+  providers: string[];
+  backTranslate?: boolean;
+  contextWindow?: TranslationOptions['contextWindow'];
+  onProgress?: TranslationOptions['onProgress'];
+}
+
+export interface VideoTranslationResult {
+  translationId: string;
+  translations: any[];
+  overallConfidence: number;
+  glossaryViolationCount: number;
+  memoryReuseCount: number;
+  /** Segments that still overrun after condensed rewrites */
+  durationOverflowSegments: Array<number | string>;
+  criticalIssueCount: number;
+  driftFlaggedCount: number;
+}
+
+/**
+ * The same shape with nested interfaces turned into plain object types, which
+ * Prisma accepts as JSON input (an interface has no index signature)
+ */
+type JsonShape<T> = T extends object ? { [K in keyof T]: JsonShape<T[K]> } : T;
+
+/** Review data kept on TranslationSegment.metadata */
+export type TranslationSegmentMetadata = JsonShape<{
+  providers?: string[];
+  agreement?: MergedTranslation['metadata']['agreement'];
+  estimatedDuration?: number;
+  glossaryViolations?: GlossaryViolation[];
+  memoryMatch?: MemoryMatch | null;
+  timing?: DurationFit | null;
+  fitAttempts?: FitAttempt[];
+  backTranslation?: BackTranslation | null;
+  preservationIssues?: QAIssue[];
+}>;
+
+export const segmentMetadata = (metadata: Prisma.JsonValue | null): TranslationSegmentMetadata =>
+  metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+    ? (metadata as TranslationSegmentMetadata)
+    : {};
+
+export class InvalidSegmentIdError extends Error {
+  constructor(id: unknown) {
+    super(`Segment id ${JSON.stringify(id)} is not a non-negative integer`);
+    this.name = 'InvalidSegmentIdError';
+  }
+}
+
+/** Segments are stored by their transcription segment's integer id */
+export const toSourceSegmentId = (id: unknown): number => {
+  const value = typeof id === 'string' && /^\d+$/.test(id.trim()) ? Number(id) : id;
+  if (typeof value !== 'number' || !Number.isSafeInteger(value) || value < 0) {
+    throw new InvalidSegmentIdError(id);
+  }
+  return value;
+};
+
+export const toQAStatus = (trans: MergedTranslation): SegmentQAStatus => {
+  if (trans.metadata.glossaryViolations?.length || trans.metadata.preservationIssues?.length) {
+    return 'FLAGGED';
+  }
+  const status =
+    trans.confidence > 0.9 ? 'APPROVED' : trans.confidence > 0.8 ? 'NEEDS_REVIEW' : 'FLAGGED';
+  // Models can agree on a wrong translation; meaning drift overrides high confidence
+  return status === 'APPROVED' && trans.metadata.backTranslation?.exceedsThreshold
+    ? 'NEEDS_REVIEW'
+    : status;
+};
+
+export const formatQAStatus = (status: SegmentQAStatus): string =>
+  status.toLowerCase().replace('_', '-');
+
+export const formatModelOutputs = (trans: MergedTranslation): Record<string, string> => ({
+  [trans.metadata.modelAResult.model]: trans.metadata.modelAResult.translatedText,
+  [trans.metadata.modelBResult.model]: trans.metadata.modelBResult.translatedText,
+});
+
+const primaryResult = (trans: MergedTranslation) =>
+  trans.primaryModel === trans.metadata.modelBResult.model
+    ? trans.metadata.modelBResult
+    : trans.metadata.modelAResult;
+
+/**
+ * Back-translation is requested per call or switched on in the project's settings
+ */
+export const backTranslationEnabled = (body: any, projectSettings?: any): boolean =>
+  body.backTranslate ?? projectSettings?.backTranslation ?? false;
+
+/**
+ * Providers come from the request, then the project's settings, then the server default
+ */
+export const requestedProviders = (body: any, projectSettings?: any): string[] | undefined => {
+  const providers = body.providers || projectSettings?.translationProviders;
+  return Array.isArray(providers) ? providers : undefined;
+};
+
+export class VideoTranslationService {
+  /**
+   * Translate a video's segments into one language and store the result,
+   * replacing any previous draft for that language
+   */
+  async translateAndSave(request: VideoTranslationRequest): Promise<VideoTranslationResult> {
+    const { videoId, projectId, targetLanguage, segments, context, providers } = request;
+
+    // Fail before any provider is called rather than store an unusable id
+    const sourceSegmentIds = segments.map((segment) => toSourceSegmentId(segment.id));
+
+    const glossary = await glossaryService.listTerms(projectId, targetLanguage);
+
+    // Prepare segments for translation
+    const translationSegments = segments.map((seg: any) => ({
+      id: seg.id,
+      text: seg.text,
+      startTime: seg.startTime,
+      endTime: seg.endTime,
+    }));
+
+    const memoryMatches = await translationMemoryService.lookup(
+      projectId,
+      targetLanguage,
+      translationSegments
+    );
+
+    // Translate with dual models
+    const translations = await translationService.translateWithContext(
+      translationSegments,
+      targetLanguage,
+      context || {},
+      {
+        providers,
+        glossary,
+        memoryMatches,
+        backTranslate: request.backTranslate,
+        contextWindow: request.contextWindow,
+        onProgress: async (completed, total, trans) => {
+          // Partial results, so reviewers can start reading before the run finishes
+          progressService.publish({
+            type: 'translation.segment',
+            videoId,
+            language: targetLanguage,
+            progress: Math.round((completed / total) * 100),
+            data: {
+              completed,
+              total,
+              segmentId: trans.segmentId,
+              translatedText: trans.text,
+              confidence: trans.confidence,
+              qaStatus: formatQAStatus(toQAStatus(trans)),
+            },
+          });
+          await request.onProgress?.(completed, total, trans);
+        },
+      }
+    );
+
+    const formattedTranslations = translations.map((trans, index) => ({
+      id: trans.segmentId,
+      originalText: segments[index].text,
+      translatedText: trans.text,
+      confidence: trans.confidence,
+      primaryModel: trans.primaryModel,
+      comparisonScore: trans.comparisonScore,
+      qaStatus: formatQAStatus(toQAStatus(trans)),
+      glossaryViolations: trans.metadata.glossaryViolations || [],
+      memoryMatch: trans.metadata.memoryMatch || null,
+      timing: trans.metadata.timing || null,
+      fitAttempts: trans.metadata.fitAttempts || [],
+      backTranslation: trans.metadata.backTranslation || null,
+      qaIssues: trans.metadata.preservationIssues || [],
+      metadata: {
+        models: formatModelOutputs(trans),
+        providers,
+        mergeStrategy: trans.metadata.mergeStrategy,
+        agreement: trans.metadata.agreement,
+        estimatedDuration: primaryResult(trans).metadata?.estimatedDuration,
+      },
+    }));
+
+    const overallConfidence =
+      formattedTranslations.reduce((acc, t) => acc + t.confidence, 0) /
+      formattedTranslations.length;
+
+    // Re-translating a language replaces the previous draft and its review state
+    const saved = await prisma.$transaction(async (tx) => {
+      const translation = await tx.translation.upsert({
+        where: { videoId_language: { videoId, language: targetLanguage } },
+        create: {
+          videoId,
+          language: targetLanguage,
+          overallConfidence,
+          context: context || undefined,
+        },
+        update: {
+          status: 'DRAFT',
+          overallConfidence,
+          context: context || undefined,
+        },
+      });
+
+      await tx.translationSegment.deleteMany({ where: { translationId: translation.id } });
+      await tx.translationSegment.createMany({
+        data: formattedTranslations.map((trans, index) => {
+          const metadata: TranslationSegmentMetadata = {
+            providers,
+            agreement: trans.metadata.agreement,
+            estimatedDuration: trans.metadata.estimatedDuration,
+            glossaryViolations: trans.glossaryViolations,
+            memoryMatch: trans.memoryMatch,
+            timing: trans.timing,
+            fitAttempts: trans.fitAttempts,
+            backTranslation: trans.backTranslation,
+            preservationIssues: trans.qaIssues,
+          };
+          return {
+            translationId: translation.id,
+            sourceSegmentId: sourceSegmentIds[index],
+            startTime: segments[index].startTime,
+            endTime: segments[index].endTime,
+            originalText: trans.originalText,
+            translatedText: trans.translatedText,
+            modelOutputs: trans.metadata.models,
+            primaryModel: trans.primaryModel,
+            mergeStrategy: trans.metadata.mergeStrategy,
+            comparisonScore: trans.comparisonScore,
+            confidence: trans.confidence,
+            qaStatus: toQAStatus(translations[index]),
+            metadata,
+          };
+        }),
+      });
+
+      return translation;
+    });
+
+    logger.info(`Saved translation ${saved.id} for video ${videoId} (${targetLanguage})`);
+
+    return {
+      translationId: saved.id,
+      translations: formattedTranslations,
+      overallConfidence,
+      glossaryViolationCount: formattedTranslations.filter((t) => t.glossaryViolations.length > 0)
+        .length,
+      memoryReuseCount: formattedTranslations.filter((t) => t.memoryMatch?.matchPercentage === 100)
+        .length,
+      durationOverflowSegments: formattedTranslations
+        .filter((t) => t.timing && !t.timing.fits)
+        .map((t) => t.id),
+      criticalIssueCount: formattedTranslations.reduce((acc, t) => acc + t.qaIssues.length, 0),
+      driftFlaggedCount: formattedTranslations.filter((t) => t.backTranslation?.exceedsThreshold)
+        .length,
+    };
+  }
+}
+
+export default new VideoTranslationService();
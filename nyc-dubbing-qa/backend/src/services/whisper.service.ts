@@ -4,7 +4,7 @@ import * as path from 'path';
 import { transcriptionLogger as logger, logPerformance } from '../utils/logger';
 import ffmpegService from './ffmpeg.service';
 
-interface WhisperSegment {
+export interface WhisperSegment {
   id: number;
   seek: number;
   start: number;
@@ -17,7 +17,7 @@ interface WhisperSegment {
   no_speech_prob: number;
 }
 
-interface WhisperWord {
+export interface WhisperWord {
   word: string;
   start: number;
   end: number;
@@ -28,6 +28,8 @@ interface TranscriptionOptions {
   prompt?: string;
   temperature?: number;
   timestamp_granularities?: ('segment' | 'word')[];
+  /** Called after each transcribed chunk (once for files under the size limit) with its text */
+  onProgress?: (completedChunks: number, totalChunks: number, chunkText: string) => void | Promise<void>;
 }
 
 interface TranscriptionResult {
@@ -94,6 +96,7 @@ export class WhisperService {
 
       // Transcribe single file
       const result = await this.transcribeSingleFile(audioPath, options);
+      await options.onProgress?.(1, 1, result.text);
       logPerformance('transcribe_single_file', startTime, {
         fileSize: this.formatBytes(fileStats.size),
         audioSize: this.formatBytes(audioStats.size),
@@ -250,12 +253,14 @@ export class WhisperService {
     });
     
     const segments: WhisperSegment[] = [];
+    const words: WhisperWord[] = [];
     let fullText = '';
     let segmentIdCounter = 0;
 
     for (let i = 0; i < chunks; i++) {
       const startTime = i * chunkDuration;
       const chunkPath = audioPath.replace('.mp3', `_chunk_${i}.mp3`);
+      let chunkText = '';
       
       // Extract chunk
       await ffmpegService.extractAudioSegment(
@@ -286,7 +291,14 @@ export class WhisperService {
         }));
 
         segments.push(...adjustedSegments);
+        // Word timestamps are chunk-relative too
+        words.push(...(chunkResult.words || []).map(word => ({
+          ...word,
+          start: word.start + startTime,
+          end: word.end + startTime
+        })));
         fullText += (i > 0 ? ' ' : '') + chunkResult.text;
+        chunkText = chunkResult.text;
         
         logger.info(`Chunk ${i + 1}/${chunks} processed successfully`, {
           segmentsAdded: adjustedSegments.length,
@@ -307,6 +319,8 @@ export class WhisperService {
         } catch {}
         throw error;
       }
+
+      await options.onProgress?.(i + 1, chunks, chunkText);
     }
 
     logPerformance('transcribe_large_file_chunks', startTime, {
@@ -320,7 +334,8 @@ export class WhisperService {
       text: fullText,
       language: options.language || 'en',
       duration,
-      segments
+      segments,
+      words: words.length > 0 ? words : undefined
     };
   }
 
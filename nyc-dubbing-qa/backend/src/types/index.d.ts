@@ -49,6 +49,11 @@ export interface QAIssue {
   type: 'audio_sync' | 'translation' | 'quality' | 'timing' | 'other';
   severity: 'low' | 'medium' | 'high' | 'critical';
   timestamp?: number;
+  /** End of the span the issue covers, when it is more than an instant */
+  endTime?: number;
+  language?: string;
+  /** Machine-readable check that raised it, e.g. "max_cps" */
+  rule?: string;
   description: string;
   suggestedFix?: string;
 }
\ No newline at end of file
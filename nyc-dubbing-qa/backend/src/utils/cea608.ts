@@ -0,0 +1,232 @@
+/**
+ * Scenarist SCC (CEA-608, channel 1) pop-on captions.
+ *
+ * Each caption is loaded into off-screen memory one byte pair per frame and
+ * flipped on screen with End Of Caption, so loading starts early enough for
+ * the flip to land on the cue's start time.
+ */
+
+export interface SccCaption {
+  startTime: number;
+  endTime: number;
+  /** At most four lines of at most 32 characters */
+  lines: string[];
+}
+
+export const SCC_MAX_LINE_LENGTH = 32;
+export const SCC_MAX_LINES = 4;
+
+const FRAME_RATE = 30000 / 1001;
+
+// Channel 1 control codes
+const RESUME_CAPTION_LOADING = [0x14, 0x20];
+const ERASE_DISPLAYED_MEMORY = [0x14, 0x2c];
+const ERASE_NON_DISPLAYED_MEMORY = [0x14, 0x2e];
+const END_OF_CAPTION = [0x14, 0x2f];
+
+// Preamble address code bytes for rows 1-15, white text
+const ROW_CODES: Array<[number, number]> = [
+  [0x11, 0x40],
+  [0x11, 0x60],
+  [0x12, 0x40],
+  [0x12, 0x60],
+  [0x15, 0x40],
+  [0x15, 0x60],
+  [0x16, 0x40],
+  [0x16, 0x60],
+  [0x17, 0x40],
+  [0x17, 0x60],
+  [0x10, 0x40],
+  [0x13, 0x40],
+  [0x13, 0x60],
+  [0x14, 0x40],
+  [0x14, 0x60],
+];
+
+// Where the basic set departs from ASCII
+const BASIC: Record<string, number> = {
+  á: 0x2a,
+  é: 0x5c,
+  í: 0x5e,
+  ó: 0x5f,
+  ú: 0x60,
+  ç: 0x7b,
+  '÷': 0x7c,
+  Ñ: 0x7d,
+  ñ: 0x7e,
+  '█': 0x7f,
+};
+const REPLACED_ASCII = new Set(['*', '\\', '^', '_', '`', '{', '|', '}', '~']);
+
+const SPECIAL = '®°½¿™¢£♪à èâêîôû';
+const EXTENDED_SPANISH_FRENCH = 'ÁÉÓÚÜü‘¡*’—©℠•“”ÀÂÇÈÊËëÎÏïÔÙùÛ«»';
+const EXTENDED_PORTUGUESE_GERMAN = 'ÃãÍÌìÒòÕõ{}\\^_|~ÄäÖöß¥¤¦ÅåØø┌┐└┘';
+
+const withParity = (byte: number): number => {
+  let ones = 0;
+  for (let bit = byte; bit; bit >>= 1) {
+    ones += bit & 1;
+  }
+  return ones % 2 === 0 ? byte | 0x80 : byte;
+};
+
+/** What a decoder without the extended sets shows; it is overwritten otherwise */
+const fallback = (char: string): string => {
+  const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return base.length === 1 && base.charCodeAt(0) < 0x7f && !REPLACED_ASCII.has(base) ? base : ' ';
+};
+
+type Token = { text: number } | { control: number[]; fallback?: number };
+
+const basicByte = (char: string): number | undefined => {
+  if (BASIC[char] !== undefined) {
+    return BASIC[char];
+  }
+  const code = char.charCodeAt(0);
+  return char.length === 1 && code >= 0x20 && code < 0x7f && !REPLACED_ASCII.has(char)
+    ? code
+    : undefined;
+};
+
+const tokenize = (line: string): Token[] => {
+  const tokens: Token[] = [];
+  for (const char of line) {
+    const basic = basicByte(char);
+    if (basic !== undefined) {
+      tokens.push({ text: basic });
+      continue;
+    }
+
+    const special = SPECIAL.indexOf(char);
+    if (special >= 0) {
+      tokens.push({ control: [0x11, 0x30 + special] });
+      continue;
+    }
+
+    const spanish = EXTENDED_SPANISH_FRENCH.indexOf(char);
+    const portuguese = EXTENDED_PORTUGUESE_GERMAN.indexOf(char);
+    if (spanish >= 0 || portuguese >= 0) {
+      tokens.push({
+        control: spanish >= 0 ? [0x12, 0x20 + spanish] : [0x13, 0x20 + portuguese],
+        fallback: fallback(char).charCodeAt(0),
+      });
+      continue;
+    }
+
+    // Outside every 608 set: drop the accent if that leaves something encodable
+    const base = basicByte(fallback(char));
+    if (base !== undefined) {
+      tokens.push({ text: base });
+    }
+  }
+  return tokens;
+};
+
+/** Byte pairs for one caption, each sent in its own frame */
+const captionWords = (lines: string[]): number[][] => {
+  const words: number[][] = [];
+  // Control codes go out twice so a dropped frame cannot lose them
+  const control = (bytes: number[]) => words.push(bytes, bytes);
+  let pending: number | null = null;
+  const text = (byte: number) => {
+    if (pending === null) {
+      pending = byte;
+    } else {
+      words.push([pending, byte]);
+      pending = null;
+    }
+  };
+  const flush = () => {
+    if (pending !== null) {
+      words.push([pending, 0x00]);
+      pending = null;
+    }
+  };
+
+  control(ERASE_NON_DISPLAYED_MEMORY);
+  control(RESUME_CAPTION_LOADING);
+
+  const firstRow = ROW_CODES.length - lines.length;
+  lines.forEach((line, index) => {
+    const tokens = tokenize(line);
+    const column = Math.max(Math.floor((SCC_MAX_LINE_LENGTH - tokens.length) / 2), 0);
+    const [rowByte, columnBase] = ROW_CODES[firstRow + index];
+
+    flush();
+    // Preambles indent in steps of four; tab offsets cover the remainder
+    control([rowByte, columnBase + 0x10 + Math.floor(column / 4) * 2]);
+    if (column % 4) {
+      control([0x17, 0x20 + (column % 4)]);
+    }
+
+    for (const token of tokens) {
+      if ('text' in token) {
+        text(token.text);
+      } else {
+        if (token.fallback !== undefined) {
+          text(token.fallback);
+        }
+        flush();
+        control(token.control);
+      }
+    }
+  });
+  flush();
+  control(END_OF_CAPTION);
+
+  return words;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** SMPTE drop-frame timecode, HH:MM:SS;FF */
+const timecode = (frame: number): string => {
+  const tenMinutes = Math.floor(frame / 17982);
+  const remainder = frame % 17982;
+  const dropped = 18 * tenMinutes + (remainder > 2 ? 2 * Math.floor((remainder - 2) / 1798) : 0);
+  const labelled = frame + dropped;
+  return `${pad(Math.floor(labelled / 108000))}:${pad(Math.floor(labelled / 1800) % 60)}:${pad(
+    Math.floor(labelled / 30) % 60
+  )};${pad(labelled % 30)}`;
+};
+
+const toFrame = (seconds: number) => Math.max(Math.round(seconds * FRAME_RATE), 0);
+
+const hex = (words: number[][]) =>
+  words
+    .map(([first, second]) =>
+      [first, second].map((byte) => withParity(byte).toString(16).padStart(2, '0')).join('')
+    )
+    .join(' ');
+
+export const encodeScc = (captions: SccCaption[]): string => {
+  const lines = ['Scenarist_SCC V1.0', ''];
+  // First frame not yet taken by an earlier block
+  let nextFree = 0;
+
+  const sorted = [...captions].sort((a, b) => a.startTime - b.startTime);
+  sorted.forEach((caption, index) => {
+    const words = captionWords(caption.lines.slice(-SCC_MAX_LINES));
+    // End Of Caption is the last word, so it lands on the start frame
+    const loadFrame = Math.max(toFrame(caption.startTime) - (words.length - 1), nextFree);
+    lines.push(`${timecode(loadFrame)}\t${hex(words)}`, '');
+    nextFree = loadFrame + words.length;
+
+    // The next caption replaces this one when it flips on, so only clear
+    // the screen when there is a gap
+    const next = sorted[index + 1];
+    const clearFrame = Math.max(toFrame(caption.endTime), nextFree);
+    if (
+      !next ||
+      toFrame(next.startTime) - captionWords(next.lines.slice(-SCC_MAX_LINES)).length > clearFrame
+    ) {
+      lines.push(
+        `${timecode(clearFrame)}\t${hex([ERASE_DISPLAYED_MEMORY, ERASE_DISPLAYED_MEMORY])}`,
+        ''
+      );
+      nextFree = clearFrame + 2;
+    }
+  });
+
+  return lines.join('\n');
+};
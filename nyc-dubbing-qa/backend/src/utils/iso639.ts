@@ -0,0 +1,53 @@
+/** ISO 15924 */
+export type Script = 'Latn' | 'Hans' | 'Cyrl' | 'Beng' | 'Kore' | 'Arab';
+
+interface LanguageInfo {
+  name: string;
+  /** ISO 639-2/B, what Matroska and MP4 language tags expect */
+  iso6392: string;
+  script: Script;
+}
+
+/**
+ * Languages the pipeline handles, keyed by ISO 639-1. Whisper reports
+ * languages by name, so lookups accept names too.
+ */
+const LANGUAGES: Record<string, LanguageInfo> = {
+  en: { name: 'english', iso6392: 'eng', script: 'Latn' },
+  es: { name: 'spanish', iso6392: 'spa', script: 'Latn' },
+  zh: { name: 'chinese', iso6392: 'chi', script: 'Hans' },
+  ru: { name: 'russian', iso6392: 'rus', script: 'Cyrl' },
+  bn: { name: 'bengali', iso6392: 'ben', script: 'Beng' },
+  ht: { name: 'haitian creole', iso6392: 'hat', script: 'Latn' },
+  ko: { name: 'korean', iso6392: 'kor', script: 'Kore' },
+  ar: { name: 'arabic', iso6392: 'ara', script: 'Arab' },
+  ur: { name: 'urdu', iso6392: 'urd', script: 'Arab' },
+  fr: { name: 'french', iso6392: 'fre', script: 'Latn' },
+  pl: { name: 'polish', iso6392: 'pol', script: 'Latn' },
+};
+
+/** ISO 639-1 code for a code, regional tag ("es-MX") or name; undefined if unknown */
+export const toIso6391 = (language?: string | null): string | undefined => {
+  const key = (language || '').trim().toLowerCase();
+  const code = key.split(/[-_]/)[0];
+  if (LANGUAGES[code]) {
+    return code;
+  }
+  return Object.keys(LANGUAGES).find((candidate) => LANGUAGES[candidate].name === key);
+};
+
+/** 'und' (undetermined) when the language is unknown */
+export const toIso6392 = (language?: string | null): string => {
+  const code = toIso6391(language);
+  return code ? LANGUAGES[code].iso6392 : 'und';
+};
+
+/** Unknown languages are assumed to be Latin-script */
+export const scriptOf = (language?: string | null): Script => {
+  const code = toIso6391(language);
+  return code ? LANGUAGES[code].script : 'Latn';
+};
+
+export const isRightToLeft = (language?: string | null): boolean => scriptOf(language) === 'Arab';
+
+export const isLatinScript = (language?: string | null): boolean => scriptOf(language) === 'Latn';
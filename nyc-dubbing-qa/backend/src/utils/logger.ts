@@ -1,6 +1,7 @@
 import winston from 'winston';
 import path from 'path';
 import fs from 'fs';
+import { EventEmitter } from 'events';
 import DailyRotateFile from 'winston-daily-rotate-file';
 
 // Create logs directory if it doesn't exist
@@ -136,6 +137,9 @@ process.on('unhandledRejection', (reason, promise) => {
   logger.error('Unhandled Rejection at:', promise, 'reason:', reason);
 });
 
+// Access tokens may ride in the query string (EventSource, download links)
+export const redactUrl = (url: string) => url.replace(/(access_token=)[^&]+/g, '$1[redacted]');
+
 // Utility function for logging API requests
 export const logRequest = (req: any, res: any, next: any) => {
   const start = Date.now();
@@ -144,7 +148,7 @@ export const logRequest = (req: any, res: any, next: any) => {
   apiLogger.info({
     message: 'Incoming request',
     method: req.method,
-    url: req.url,
+    url: redactUrl(req.url),
     ip: req.ip,
     userAgent: req.get('user-agent')
   });
@@ -155,7 +159,7 @@ export const logRequest = (req: any, res: any, next: any) => {
     apiLogger.info({
       message: 'Request completed',
       method: req.method,
-      url: req.url,
+      url: redactUrl(req.url),
       statusCode: res.statusCode,
       duration: `${duration}ms`
     });
@@ -173,6 +177,15 @@ export const logError = (error: Error, context: Record<string, any> = {}) => {
   });
 };
 
+export interface PerformanceMetric {
+  operation: string;
+  durationMs: number;
+  [key: string]: any;
+}
+
+// Every logPerformance call is also emitted as a 'metric' event for progress streams
+export const performanceEvents = new EventEmitter();
+
 // Utility function for logging performance metrics
 export const logPerformance = (operation: string, startTime: number, metadata: Record<string, any> = {}) => {
   const duration = Date.now() - startTime;
@@ -181,6 +194,7 @@ export const logPerformance = (operation: string, startTime: number, metadata: R
     duration: `${duration}ms`,
     ...metadata
   });
+  performanceEvents.emit('metric', { ...metadata, operation, durationMs: duration });
 };
 
 // Export log levels for reference
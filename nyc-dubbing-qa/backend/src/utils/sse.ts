@@ -0,0 +1,41 @@
+import { Request, Response } from 'express';
+import progressService, { PipelineEventFilter } from '../services/progress.service';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = parseInt(process.env.SSE_HEARTBEAT_MS || '15000');
+
+/**
+ * Hold the response open as a Server-Sent Events stream: a `snapshot` event
+ * first, then every pipeline event matching the filter, named by its type
+ * (e.g. `translation.segment`), until the client disconnects.
+ */
+export const streamPipelineEvents = (
+  req: Request,
+  res: Response,
+  filter: PipelineEventFilter,
+  snapshot: unknown
+): void => {
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // EventSource reconnects after this many milliseconds
+  res.write('retry: 3000\n\n');
+  send('snapshot', snapshot);
+
+  const unsubscribe = progressService.subscribe(filter, (event) => send(event.type, event));
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+};
@@ -0,0 +1,131 @@
+import { Job } from 'bull';
+import { dubbingQueue, RENDER_DUB_JOB, MASTER_EXPORT_JOB, OPEN_CAPTION_JOB } from '../config/queue';
+import { audioLogger as logger } from '../utils/logger';
+import jobService, { JobCancelledError } from '../services/job.service';
+import progressService from '../services/progress.service';
+import dubRenderService, { RenderState, RenderSummary } from '../services/dub-render.service';
+import masterExportService, {
+  MasterExportOptions,
+  MasterExportSummary,
+} from '../services/master-export.service';
+import openCaptionService, { OpenCaptionSummary } from '../services/open-caption.service';
+import { CaptionStyle } from '../services/subtitle.service';
+
+export interface RenderDubJobData {
+  videoId: string;
+  dubbingId: string;
+  language: string;
+  keepOriginalAudio?: boolean;
+}
+
+export interface MasterExportJobData {
+  videoId: string;
+  options: MasterExportOptions;
+}
+
+export interface OpenCaptionJobData {
+  videoId: string;
+  language: string;
+  style: CaptionStyle;
+}
+
+const CONCURRENCY = parseInt(process.env.RENDER_CONCURRENCY || '1');
+
+type RenderStatePatch = Partial<Pick<RenderState, 'status' | 'jobId' | 'error'>>;
+
+/**
+ * Shared lifecycle for FFmpeg jobs: mark the output rendering, run the work and
+ * record whether a failure will be retried, failed for good or was cancelled
+ */
+const runRenderJob = async <T>(
+  job: Job,
+  description: string,
+  updateState: (patch: RenderStatePatch) => Promise<void>,
+  work: (onProgress: (percent: number) => void, beforeStore: () => Promise<void>) => Promise<T>
+): Promise<T> => {
+  await updateState({
+    status: 'rendering',
+    jobId: jobService.publicId(job),
+    error: null,
+  });
+
+  try {
+    await jobService.throwIfCancelled(job);
+    // FFmpeg cannot stop at a checkpoint, so cancellation is checked either side of it:
+    // before it starts and again before its output replaces the stored file
+    const summary = await work(
+      (percent) => {
+        job.progress(Math.round(percent * 0.95)).catch(() => undefined);
+      },
+      () => jobService.throwIfCancelled(job)
+    );
+    await job.progress(100);
+    return summary;
+  } catch (error: any) {
+    const cancelled = error instanceof JobCancelledError;
+    const finalAttempt = cancelled || job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+    await updateState({
+      status: cancelled ? 'cancelled' : finalAttempt ? 'failed' : 'queued',
+      error: error.message,
+    });
+    logger.error(`${description} failed`, {
+      error: error.message,
+      attempt: job.attemptsMade + 1,
+      finalAttempt,
+    });
+    throw error;
+  }
+};
+
+const processRender = (job: Job<RenderDubJobData>): Promise<RenderSummary> => {
+  const { dubbingId, keepOriginalAudio } = job.data;
+  return runRenderJob(
+    job,
+    `Render job ${job.id} for dubbing ${dubbingId}`,
+    (patch) => dubRenderService.updateRender(dubbingId, patch),
+    (onProgress, beforeStore) =>
+      dubRenderService.render(dubbingId, { keepOriginalAudio }, onProgress, beforeStore)
+  );
+};
+
+const processMasterExport = (job: Job<MasterExportJobData>): Promise<MasterExportSummary> => {
+  const { videoId, options } = job.data;
+  return runRenderJob(
+    job,
+    `Master export job ${job.id} for video ${videoId}`,
+    (patch) => masterExportService.updateExport(videoId, patch),
+    (onProgress, beforeStore) =>
+      masterExportService.export(videoId, options, onProgress, beforeStore)
+  );
+};
+
+const processOpenCaptions = (job: Job<OpenCaptionJobData>): Promise<OpenCaptionSummary> => {
+  const { videoId, language, style } = job.data;
+  return runRenderJob(
+    job,
+    `Open caption job ${job.id} for video ${videoId} (${language})`,
+    (patch) => openCaptionService.updateState(videoId, language, patch),
+    (onProgress, beforeStore) =>
+      openCaptionService.burn(videoId, language, style, onProgress, beforeStore)
+  );
+};
+
+const processors: Record<string, (job: Job) => Promise<unknown>> = {
+  [RENDER_DUB_JOB]: processRender,
+  [MASTER_EXPORT_JOB]: processMasterExport,
+  [OPEN_CAPTION_JOB]: processOpenCaptions,
+};
+
+export const registerDubbingWorker = (): void => {
+  // Rendering is CPU-bound, so it defaults to one job at a time. Bull adds up the
+  // concurrency of named processors, so all job types share a single '*' processor.
+  dubbingQueue.process('*', CONCURRENCY, (job) => {
+    const processor = processors[job.name];
+    if (!processor) {
+      return Promise.reject(new Error(`Unknown dubbing job type: ${job.name}`));
+    }
+    return progressService.runInContext(progressService.jobContext(job), () => processor(job));
+  });
+  logger.info('Dubbing worker registered', { concurrency: CONCURRENCY });
+};
@@ -0,0 +1,23 @@
+import { logger } from '../utils/logger';
+import { videoProcessingQueue, translationQueue, dubbingQueue } from '../config/queue';
+import progressService from '../services/progress.service';
+import { registerTranscriptionWorker } from './transcription.worker';
+import { registerTranslationWorker } from './translation.worker';
+import { registerDubbingWorker } from './dubbing.worker';
+
+/**
+ * Attach queue processors to this process. Set RUN_WORKERS=false to run an
+ * API-only instance and process jobs elsewhere.
+ */
+export const startWorkers = (): void => {
+  if (process.env.RUN_WORKERS === 'false') {
+    logger.info('Queue workers disabled for this process');
+    return;
+  }
+
+  // Bull reports progress and lifecycle events in the process running the job
+  progressService.watchQueues([videoProcessingQueue, translationQueue, dubbingQueue]);
+  registerTranscriptionWorker();
+  registerTranslationWorker();
+  registerDubbingWorker();
+};
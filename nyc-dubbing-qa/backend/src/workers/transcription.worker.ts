@@ -0,0 +1,124 @@
+import { Job } from 'bull';
+import prisma from '../config/database';
+import { videoProcessingQueue, TRANSCRIPTION_JOB, CAPTION_ALIGNMENT_JOB } from '../config/queue';
+import { transcriptionLogger as logger } from '../utils/logger';
+import jobService, { JobCancelledError } from '../services/job.service';
+import progressService from '../services/progress.service';
+import { AlignmentReport } from '../services/alignment.service';
+import transcriptionService, {
+  TranscriptionJobOptions,
+  TranscriptionSummary,
+} from '../services/transcription.service';
+
+export interface TranscriptionJobData {
+  videoId: string;
+  options: TranscriptionJobOptions;
+}
+
+export interface CaptionAlignmentJobData {
+  videoId: string;
+}
+
+const CONCURRENCY = parseInt(process.env.QUEUE_CONCURRENCY || '5');
+
+const processTranscription = async (
+  job: Job<TranscriptionJobData>
+): Promise<TranscriptionSummary> => {
+  const { videoId, options } = job.data;
+
+  const video = await prisma.video.findUnique({ where: { id: videoId } });
+  if (!video) {
+    // Retrying will not bring a deleted video back
+    await job.discard();
+    throw new Error(`Video ${videoId} not found`);
+  }
+
+  await prisma.video.update({ where: { id: videoId }, data: { status: 'PROCESSING' } });
+  logger.info(`Transcription job ${job.id} started for video ${videoId}`, {
+    attempt: job.attemptsMade + 1,
+  });
+
+  try {
+    // Progress updates double as cancellation checkpoints
+    const summary = await transcriptionService.transcribeVideo(
+      videoId,
+      options,
+      async (percent) => {
+        await jobService.throwIfCancelled(job);
+        await job.progress(percent);
+      }
+    );
+
+    await prisma.video.update({
+      where: { id: videoId },
+      data: { status: 'READY', duration: Math.round(summary.duration) },
+    });
+    await job.progress(100);
+    return summary;
+  } catch (error: any) {
+    if (error instanceof JobCancelledError) {
+      await transcriptionService.restoreVideoStatus(videoId);
+      logger.info(`Transcription job ${job.id} cancelled for video ${videoId}`);
+      throw error;
+    }
+
+    // Only the last attempt marks the video failed; earlier ones will be retried
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+    if (finalAttempt) {
+      await prisma.video
+        .update({ where: { id: videoId }, data: { status: 'FAILED' } })
+        .catch(() => undefined);
+    }
+    logger.error(`Transcription job ${job.id} failed for video ${videoId}`, {
+      error: error.message,
+      attempt: job.attemptsMade + 1,
+      finalAttempt,
+    });
+    throw error;
+  }
+};
+
+const processAlignment = async (job: Job<CaptionAlignmentJobData>): Promise<AlignmentReport> => {
+  const { videoId } = job.data;
+
+  await transcriptionService.updateAlignment(videoId, {
+    status: 'aligning',
+    jobId: jobService.publicId(job),
+    error: null,
+  });
+
+  try {
+    const report = await transcriptionService.alignCaptions(videoId, async (percent) => {
+      await jobService.throwIfCancelled(job);
+      await job.progress(percent);
+    });
+    await job.progress(100);
+    return report;
+  } catch (error: any) {
+    const cancelled = error instanceof JobCancelledError;
+    const finalAttempt = cancelled || job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+    // The imported timings stay in place whatever happens here
+    await transcriptionService.updateAlignment(videoId, {
+      status: cancelled ? 'cancelled' : finalAttempt ? 'failed' : 'queued',
+      error: error.message,
+    });
+    logger.error(`Caption alignment job ${job.id} failed for video ${videoId}`, {
+      error: error.message,
+      attempt: job.attemptsMade + 1,
+      finalAttempt,
+    });
+    throw error;
+  }
+};
+
+export const registerTranscriptionWorker = (): void => {
+  // Events published while the job runs, including performance hooks, carry its ids
+  videoProcessingQueue.process(TRANSCRIPTION_JOB, CONCURRENCY, (job) =>
+    progressService.runInContext(progressService.jobContext(job), () => processTranscription(job))
+  );
+  videoProcessingQueue.process(CAPTION_ALIGNMENT_JOB, CONCURRENCY, (job) =>
+    progressService.runInContext(progressService.jobContext(job), () => processAlignment(job))
+  );
+  logger.info('Transcription worker registered', { concurrency: CONCURRENCY });
+};
@@ -0,0 +1,117 @@
+import { Job } from 'bull';
+import prisma from '../config/database';
+import { translationQueue, TRANSLATION_JOB } from '../config/queue';
+import { translationLogger as logger } from '../utils/logger';
+import translationService from '../services/translation.service';
+import videoTranslationService, {
+  backTranslationEnabled,
+  requestedProviders,
+} from '../services/video-translation.service';
+import batchTranslationService, { TranslationJobData } from '../services/batch-translation.service';
+import jobService, { JobCancelledError } from '../services/job.service';
+import progressService from '../services/progress.service';
+
+const CONCURRENCY = parseInt(process.env.QUEUE_CONCURRENCY || '5');
+
+const processTranslation = async (job: Job<TranslationJobData>) => {
+  const { batchId, itemId, videoId, language, options } = job.data;
+
+  await batchTranslationService.updateItem(itemId, {
+    status: 'RUNNING',
+    progress: 0,
+    error: null,
+    startedAt: new Date(),
+  });
+  await batchTranslationService.refresh(batchId);
+
+  // Failures that a retry cannot fix end the item straight away
+  let retryable = true;
+
+  try {
+    const video = await prisma.video.findUnique({
+      where: { id: videoId },
+      include: { project: true },
+    });
+    const segments = (video?.metadata as any)?.transcription?.segments;
+    if (!video || !segments?.length) {
+      // Retrying will not produce a transcription
+      retryable = false;
+      await job.discard();
+      throw new Error(video ? 'Video has no transcription' : 'Video not found');
+    }
+
+    let providers: string[];
+    try {
+      providers = translationService.resolveProviders(
+        requestedProviders(options, video.project.settings)
+      );
+    } catch (error) {
+      retryable = false;
+      await job.discard();
+      throw error;
+    }
+
+    // Progress updates double as cancellation checkpoints
+    const result = await videoTranslationService.translateAndSave({
+      videoId,
+      projectId: video.projectId,
+      targetLanguage: language,
+      segments,
+      context: options.context,
+      providers,
+      backTranslate: backTranslationEnabled(options, video.project.settings),
+      contextWindow: options.contextWindow,
+      onProgress: async (completed, total) => {
+        await jobService.throwIfCancelled(job);
+        const progress = Math.round((completed / total) * 100);
+        await job.progress(progress);
+        await batchTranslationService.updateItem(itemId, { progress });
+        await batchTranslationService.refresh(batchId);
+      },
+    });
+
+    await batchTranslationService.updateItem(itemId, {
+      status: 'COMPLETED',
+      progress: 100,
+      translationId: result.translationId,
+      overallConfidence: result.overallConfidence,
+      segmentCount: result.translations.length,
+      finishedAt: new Date(),
+    });
+    await batchTranslationService.refresh(batchId);
+
+    return {
+      translationId: result.translationId,
+      overallConfidence: result.overallConfidence,
+      segmentCount: result.translations.length,
+      criticalIssueCount: result.criticalIssueCount,
+    };
+  } catch (error: any) {
+    const cancelled = error instanceof JobCancelledError;
+    // Earlier attempts go back to pending; Bull retries them after a backoff
+    const finalAttempt =
+      cancelled || !retryable || job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+    await batchTranslationService.updateItem(itemId, {
+      status: cancelled ? 'CANCELLED' : finalAttempt ? 'FAILED' : 'PENDING',
+      error: error.message,
+      finishedAt: finalAttempt ? new Date() : null,
+    });
+    await batchTranslationService.refresh(batchId);
+
+    logger.error(`Translation job ${job.id} failed for video ${videoId} (${language})`, {
+      batchId,
+      error: error.message,
+      attempt: job.attemptsMade + 1,
+      finalAttempt,
+    });
+    throw error;
+  }
+};
+
+export const registerTranslationWorker = (): void => {
+  translationQueue.process(TRANSLATION_JOB, CONCURRENCY, (job) =>
+    progressService.runInContext(progressService.jobContext(job), () => processTranslation(job))
+  );
+  logger.info('Translation worker registered', { concurrency: CONCURRENCY });
+};
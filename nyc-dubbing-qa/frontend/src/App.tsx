@@ -1,9 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { Upload, Play, Check, AlertCircle, Globe, Mic, FileText, Download, RefreshCw, ChevronRight, CheckCircle2 } from 'lucide-react';
-import { videoAPI, translationAPI, audioAPI, qaAPI } from './services/api';
+import { videoAPI, translationAPI, audioAPI, qaAPI, assetUrl } from './services/api';
+import type { AuthSession } from './services/api';
 import toast, { Toaster } from 'react-hot-toast';
 
-const App = () => {
+interface AppProps {
+  user: AuthSession['user'];
+  onSignOut: () => void;
+}
+
+const App = ({ user, onSignOut }: AppProps) => {
   const [currentStep, setCurrentStep] = useState(1);
   const [videoFile, setVideoFile] = useState<File | null>(null);
   const [videoId, setVideoId] = useState<string | null>(null);
@@ -12,11 +18,19 @@ const App = () => {
   const [selectedLanguage, setSelectedLanguage] = useState('es');
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingMessage, setProcessingMessage] = useState('');
+  const [progressPercent, setProgressPercent] = useState<number | null>(null);
+  const [partialResults, setPartialResults] = useState<string[]>([]);
   const [editingSegment, setEditingSegment] = useState<number | null>(null);
   const [videoContext, setVideoContext] = useState('');
+  const [backTranslate, setBackTranslate] = useState(false);
   const [voices, setVoices] = useState<any[]>([]);
   const [selectedVoice, setSelectedVoice] = useState<string>('');
+  const [speakers, setSpeakers] = useState<Record<string, { name: string }>>({});
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, string>>({});
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [dubbingId, setDubbingId] = useState<string | null>(null);
+  const [keepOriginalAudio, setKeepOriginalAudio] = useState(false);
+  const [videoRendered, setVideoRendered] = useState(false);
   
   // Fetch available voices on mount
   useEffect(() => {
@@ -64,32 +78,88 @@ const App = () => {
     { id: 4, name: 'Generate Audio', icon: Mic }
   ];
 
+  // Live progress from the server; partial results show while the step runs
+  const watchProgress = (id: string) => {
+    setProgressPercent(null);
+    setPartialResults([]);
+    return videoAPI.streamEvents(id, (type, event) => {
+      const { completed, total, text = '', translatedText = '', confidence = 0 } = event.data || {};
+      if (typeof event.progress === 'number') setProgressPercent(event.progress);
+
+      if (type === 'transcription.chunk') {
+        setProcessingMessage(`Transcribing with Whisper AI... chunk ${completed}/${total}`);
+        setPartialResults(prev => [...prev, text].slice(-5));
+      } else if (type === 'translation.segment') {
+        setProcessingMessage(`Translating with AI... segment ${completed}/${total}`);
+        setPartialResults(prev => [
+          ...prev,
+          `${translatedText} (${Math.round(confidence * 100)}%)`
+        ].slice(-5));
+      } else if (type === 'tts.segment') {
+        setProcessingMessage(`Generating audio with ElevenLabs... segment ${completed}/${total}`);
+      }
+    });
+  };
+
+  const stopProgress = (source: EventSource | null) => {
+    source?.close();
+    setProgressPercent(null);
+    setPartialResults([]);
+  };
+
+  // Transcription runs as a background job; poll until the video is ready
+  const waitForTranscription = async (id: string) => {
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const jobsResponse = await videoAPI.getJobs(id);
+      const { status, jobs } = jobsResponse.data;
+
+      if (status === 'READY') return;
+      if (status === 'FAILED') {
+        throw new Error(jobs[0]?.failedReason || 'Transcription failed');
+      }
+      // A cancelled job puts the video back to UPLOADED; Bull only leaves a job failed once it stops retrying
+      if (status === 'UPLOADED' || jobs[0]?.state === 'failed') {
+        throw new Error(
+          jobs[0]?.cancelRequested ? 'Transcription was cancelled' : jobs[0]?.failedReason || 'Transcription failed'
+        );
+      }
+      if (jobs[0]?.state === 'active') {
+        setProgressPercent(jobs[0].progress || 0);
+      }
+    }
+  };
+
   const handleVideoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       setVideoFile(file);
       setIsProcessing(true);
       setProcessingMessage('Uploading video...');
+      let events: EventSource | null = null;
       
       try {
         // Upload the video
         const uploadResponse = await videoAPI.upload(file, {
           title: file.name,
           context: videoContext
-        });
+        }, setProgressPercent);
         
         const uploadedVideoId = uploadResponse.data.videoId;
         setVideoId(uploadedVideoId);
         
         // Start transcription
+        events = watchProgress(uploadedVideoId);
         setProcessingMessage('Extracting audio and transcribing with Whisper AI...');
         await videoAPI.transcribe(uploadedVideoId, {
           prompt: videoContext
         });
+        await waitForTranscription(uploadedVideoId);
         
         // Get transcription results
         const transcriptionData = await videoAPI.getTranscription(uploadedVideoId);
         setTranscription(transcriptionData.data.segments || []);
+        setSpeakers(transcriptionData.data.speakers || {});
         
         setIsProcessing(false);
         setCurrentStep(2);
@@ -97,7 +167,9 @@ const App = () => {
       } catch (error: any) {
         console.error('Upload error:', error);
         setIsProcessing(false);
-        toast.error(error.response?.data?.error || 'Failed to process video');
+        toast.error(error.response?.data?.error || error.message || 'Failed to process video');
+      } finally {
+        stopProgress(events);
       }
     }
   };
@@ -107,6 +179,7 @@ const App = () => {
     
     setIsProcessing(true);
     setProcessingMessage('Translating with AI...');
+    const events = watchProgress(videoId);
     
     try {
       const response = await translationAPI.translate({
@@ -118,7 +191,8 @@ const App = () => {
           startTime: seg.startTime,
           endTime: seg.endTime
         })),
-        context: videoContext
+        context: videoContext,
+        backTranslate
       });
       
       // Map the API response to the expected format
@@ -128,6 +202,9 @@ const App = () => {
         translation: trans.translatedText,
         confidence: trans.confidence,
         qaStatus: trans.qaStatus,
+        backTranslation: trans.backTranslation,
+        qaIssues: trans.qaIssues || [],
+        speaker: transcription.find(t => t.id === trans.id)?.speaker,
         startTime: transcription.find((t: any) => t.id === trans.id)?.startTime || 0,
         endTime: transcription.find((t: any) => t.id === trans.id)?.endTime || 0,
         originalText: trans.originalText
@@ -141,6 +218,8 @@ const App = () => {
       console.error('Translation error:', error);
       setIsProcessing(false);
       toast.error(error.response?.data?.error || 'Failed to translate');
+    } finally {
+      stopProgress(events);
     }
   };
 
@@ -154,7 +233,11 @@ const App = () => {
     if (!videoId) return;
     
     try {
-      await qaAPI.approveSegment(videoId, segmentId);
+      const segment = translations.find((seg) => seg.id === segmentId);
+      await qaAPI.approveSegment(videoId, segmentId, {
+        language: selectedLanguage,
+        approvedText: segment?.translation
+      });
       setTranslations((prev: any[]) => prev.map((seg: any) => 
         seg.id === segmentId ? { ...seg, qaStatus: 'approved' } : seg
       ));
@@ -169,6 +252,7 @@ const App = () => {
     
     setIsProcessing(true);
     setProcessingMessage('Generating audio with ElevenLabs...');
+    const events = watchProgress(videoId);
     
     try {
       const response = await audioAPI.generateAudio({
@@ -177,20 +261,75 @@ const App = () => {
           id: seg.id,
           text: seg.translation,
           startTime: seg.startTime,
-          endTime: seg.endTime
+          endTime: seg.endTime,
+          speaker: seg.speaker
         })),
         voice: selectedVoice,
+        voices: speakerVoices,
         language: selectedLanguage
       });
       
-      setAudioUrl(response.data.audioUrl);
+      if (!response.data.audioUrl) {
+        throw new Error(response.data.trackError || 'Failed to assemble the dub track');
+      }
+      setAudioUrl(assetUrl(response.data.audioUrl));
+      setDubbingId(response.data.dubbingId);
+      setVideoRendered(false);
+      if (response.data.overLimitCount > 0) {
+        toast(`${response.data.overLimitCount} segment(s) are too long to fit their timing even when sped up`, { icon: '⚠️' });
+      }
       setIsProcessing(false);
       setCurrentStep(4);
       toast.success('Audio generation completed!');
     } catch (error: any) {
       console.error('Audio generation error:', error);
       setIsProcessing(false);
-      toast.error(error.response?.data?.error || 'Failed to generate audio');
+      toast.error(error.response?.data?.error || error.message || 'Failed to generate audio');
+    } finally {
+      stopProgress(events);
+    }
+  };
+
+  // Rendering runs as a background job; poll until this track's render settles
+  const waitForRender = async (id: string, trackId: string) => {
+    while (true) {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const statusResponse = await audioAPI.getAudioStatus(id);
+      const render = statusResponse.data.dubbings.find((d: { dubbingId: string }) => d.dubbingId === trackId)?.render;
+
+      if (render?.status === 'completed') return;
+      if (render?.status === 'failed' || render?.status === 'cancelled') {
+        throw new Error(render.error || 'Rendering failed');
+      }
+    }
+  };
+
+  const handleRenderVideo = async () => {
+    if (!videoId || !dubbingId) return;
+
+    setIsProcessing(true);
+    setProcessingMessage('Approving dub track and rendering video...');
+    const events = watchProgress(videoId);
+
+    try {
+      await audioAPI.approveTrack(dubbingId);
+      await audioAPI.renderVideo(videoId, {
+        language: selectedLanguage,
+        dubbingId,
+        keepOriginalAudio
+      });
+      await waitForRender(videoId, dubbingId);
+
+      setVideoRendered(true);
+      setIsProcessing(false);
+      toast.success('Dubbed video is ready!');
+    } catch (error) {
+      console.error('Render error:', error);
+      setIsProcessing(false);
+      const apiError = (error as { response?: { data?: { error?: string } } }).response?.data?.error;
+      toast.error(apiError || (error as Error).message || 'Failed to render video');
+    } finally {
+      stopProgress(events);
     }
   };
 
@@ -286,6 +425,11 @@ const App = () => {
                   <span className="text-sm text-gray-500">
                     {new Date(segment.startTime * 1000).toISOString().substr(14, 5)} - 
                     {new Date(segment.endTime * 1000).toISOString().substr(14, 5)}
+                    {segment.speaker && (
+                      <span className="ml-2 px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded text-xs">
+                        {speakers[segment.speaker]?.name || segment.speaker}
+                      </span>
+                    )}
                   </span>
                   {segment.confidence && (
                     <span className="text-sm text-gray-600">
@@ -323,6 +467,16 @@ const App = () => {
         </div>
       </div>
 
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={backTranslate}
+          onChange={(e) => setBackTranslate(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        <span>Back-translate to English so reviewers can check meaning drift</span>
+      </label>
+
       <button
         onClick={handleProceedToTranslation}
         disabled={isProcessing || transcription.length === 0}
@@ -361,6 +515,11 @@ const App = () => {
                   {new Date(segment.startTime * 1000).toISOString().substr(14, 5)} - 
                   {new Date(segment.endTime * 1000).toISOString().substr(14, 5)}
                 </span>
+                {segment.speaker && (
+                  <span className="px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded text-xs">
+                    {speakers[segment.speaker]?.name || segment.speaker}
+                  </span>
+                )}
                 <div className="flex items-center space-x-2">
                   <span className="text-sm text-gray-500">Confidence:</span>
                   <div className="flex items-center">
@@ -431,6 +590,33 @@ const App = () => {
               </div>
             </div>
 
+            {segment.qaIssues?.length > 0 && (
+              <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {segment.qaIssues.map((issue: { description: string }, index: number) => (
+                  <div key={index} className="flex items-start">
+                    <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <span>{issue.description}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {segment.backTranslation && (
+              <div className={`mt-3 p-3 rounded-lg text-sm ${
+                segment.backTranslation.exceedsThreshold ? 'bg-yellow-50 border border-yellow-200' : 'bg-gray-50'
+              }`}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="font-medium text-gray-700">Back-translation (English)</span>
+                  <span className={`text-xs ${
+                    segment.backTranslation.exceedsThreshold ? 'text-yellow-700' : 'text-gray-500'
+                  }`}>
+                    Meaning drift: {(segment.backTranslation.drift * 100).toFixed(0)}%
+                  </span>
+                </div>
+                <p className="text-gray-600 italic">{segment.backTranslation.text}</p>
+              </div>
+            )}
+
             <div className="flex items-center justify-between mt-3">
               <button
                 onClick={() => handleApproveSegment(segment.id)}
@@ -469,6 +655,27 @@ const App = () => {
               )}
             </select>
             <p className="text-xs text-gray-500 mt-1">Select the voice for audio generation</p>
+            {Object.keys(speakers).length > 1 && (
+              <div className="mt-4 space-y-2">
+                <label className="text-sm font-medium text-gray-700 block">Voice per Speaker</label>
+                {Object.entries(speakers).map(([speakerId, speaker]) => (
+                  <div key={speakerId} className="flex items-center space-x-3">
+                    <span className="w-32 text-sm text-gray-600">{speaker.name}</span>
+                    <select
+                      value={speakerVoices[speakerId] || ''}
+                      onChange={(e) => setSpeakerVoices(prev => ({ ...prev, [speakerId]: e.target.value }))}
+                      className="flex-1 p-2 border border-gray-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                      <option value="">Automatic</option>
+                      {voices.map((voice) => (
+                        <option key={voice.voice_id} value={voice.voice_id}>{voice.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+                <p className="text-xs text-gray-500">Speakers left on automatic get distinct voices</p>
+              </div>
+            )}
           </div>
           
           <div className="flex items-center justify-between">
@@ -535,14 +742,54 @@ const App = () => {
             Preview Audio
           </button>
           <a
-            href={audioUrl || '#'}
-            download={`translated_audio_${videoId}.mp3`}
+            href={videoId && audioUrl ? audioAPI.downloadUrl(videoId, selectedLanguage, 'audio') : '#'}
             className={`px-6 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center ${!audioUrl ? 'pointer-events-none opacity-50' : ''}`}
           >
             <Download className="w-5 h-5 mr-2" />
             Download Audio
           </a>
         </div>
+
+        <div className="flex items-center justify-center space-x-3 mt-4 text-sm">
+          <span className="text-gray-600">Subtitles:</span>
+          {(['srt', 'vtt', 'ttml', 'scc'] as const).map((format) => (
+            <a
+              key={format}
+              href={videoId ? translationAPI.subtitlesUrl(videoId, selectedLanguage, format) : '#'}
+              className={`text-blue-600 hover:underline ${!videoId ? 'pointer-events-none opacity-50' : ''}`}
+            >
+              {format.toUpperCase()}
+            </a>
+          ))}
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-gray-200">
+          <label className="flex items-center justify-center text-sm text-gray-700 mb-4">
+            <input
+              type="checkbox"
+              className="mr-2"
+              checked={keepOriginalAudio}
+              onChange={(e) => setKeepOriginalAudio(e.target.checked)}
+            />
+            Keep the original audio as a second track
+          </label>
+          <div className="flex space-x-3 justify-center">
+            <button
+              onClick={handleRenderVideo}
+              disabled={!dubbingId || isProcessing}
+              className="px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center disabled:bg-gray-400">
+              <Check className="w-5 h-5 mr-2" />
+              Approve & Render Video
+            </button>
+            <a
+              href={videoId && videoRendered ? audioAPI.downloadUrl(videoId, selectedLanguage) : '#'}
+              className={`px-6 py-3 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center ${!videoRendered ? 'pointer-events-none opacity-50' : ''}`}
+            >
+              <Download className="w-5 h-5 mr-2" />
+              Download Dubbed Video
+            </a>
+          </div>
+        </div>
       </div>
     </div>
   );
@@ -565,8 +812,10 @@ const App = () => {
               </div>
             </div>
             <div className="flex items-center space-x-4">
-              <span className="text-sm text-gray-600">NYC Government</span>
-              <div className="w-8 h-8 bg-gray-300 rounded-full"></div>
+              <span className="text-sm text-gray-600">{user.name}</span>
+              <button onClick={onSignOut} className="text-sm text-gray-500 hover:text-gray-700">
+                Sign out
+              </button>
             </div>
           </div>
         </div>
@@ -577,9 +826,29 @@ const App = () => {
         <StepIndicator />
         
         {isProcessing && (
-          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6 flex items-center">
-            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600 mr-3"></div>
-            <span className="text-blue-700">{processingMessage}</span>
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+            <div className="flex items-center">
+              <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600 mr-3"></div>
+              <span className="text-blue-700">{processingMessage}</span>
+              {progressPercent !== null && (
+                <span className="ml-auto text-sm font-medium text-blue-700">{progressPercent}%</span>
+              )}
+            </div>
+            {progressPercent !== null && (
+              <div className="mt-3 h-2 bg-blue-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 transition-all"
+                  style={{ width: `${progressPercent}%` }}
+                />
+              </div>
+            )}
+            {partialResults.length > 0 && (
+              <ul className="mt-3 space-y-1 text-sm text-gray-600">
+                {partialResults.map((line, index) => (
+                  <li key={index} className="truncate">{line}</li>
+                ))}
+              </ul>
+            )}
           </div>
         )}
 
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import type { ReactNode } from 'react';
+import Login from './Login';
+import { authAPI, hasSession, SESSION_EXPIRED_EVENT } from './services/api';
+import type { AuthSession } from './services/api';
+
+type User = AuthSession['user'];
+
+interface Props {
+  children: (user: User, signOut: () => void) => ReactNode;
+}
+
+// Shows the sign-in form until there is a session, then the app
+const AuthGate = ({ children }: Props) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [checking, setChecking] = useState(hasSession);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Resume a stored session; the API client refreshes the access token if needed
+  useEffect(() => {
+    if (!hasSession()) return;
+    authAPI
+      .me()
+      .then((response) => setUser(response.data))
+      .catch(() => authAPI.logout())
+      .finally(() => setChecking(false));
+  }, []);
+
+  useEffect(() => {
+    const onExpired = () => {
+      setUser(null);
+      setNotice('Your session has expired. Please sign in again.');
+    };
+    window.addEventListener(SESSION_EXPIRED_EVENT, onExpired);
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, onExpired);
+  }, []);
+
+  const signOut = () => {
+    authAPI.logout();
+    setNotice(null);
+    setUser(null);
+  };
+
+  if (checking) {
+    return <div className="min-h-screen bg-gray-50" />;
+  }
+  if (!user) {
+    return (
+      <Login
+        notice={notice}
+        onSignedIn={(signedIn) => {
+          setNotice(null);
+          setUser(signedIn);
+        }}
+      />
+    );
+  }
+  return <>{children(user, signOut)}</>;
+};
+
+export default AuthGate;
@@ -0,0 +1,122 @@
+import { useState } from 'react';
+import axios from 'axios';
+import type { FormEvent } from 'react';
+import { authAPI } from './services/api';
+import type { AuthSession } from './services/api';
+
+interface Props {
+  onSignedIn: (user: AuthSession['user']) => void;
+  /** Shown above the form, e.g. after the session expired */
+  notice?: string | null;
+}
+
+const Login = ({ onSignedIn, notice }: Props) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response =
+        mode === 'login'
+          ? await authAPI.login({ email, password })
+          : await authAPI.register({ email, password, name });
+      onSignedIn(response.data.user);
+    } catch (err) {
+      setError(
+        (axios.isAxiosError(err) && err.response?.data?.error) ||
+          'Could not sign in. Please try again.'
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="max-w-md w-full bg-white p-8 rounded-lg shadow-lg">
+        <div className="flex items-center mb-6">
+          <div className="w-10 h-10 bg-blue-600 rounded-lg flex items-center justify-center text-white font-bold">
+            NYC
+          </div>
+          <div className="ml-3">
+            <h1 className="text-xl font-semibold">NYC Translation QA</h1>
+            <p className="text-sm text-gray-500">
+              {mode === 'login' ? 'Sign in to continue' : 'Create an account'}
+            </p>
+          </div>
+        </div>
+
+        {notice && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-4 text-sm text-yellow-800">
+            {notice}
+          </div>
+        )}
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4 text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'register' && (
+            <input
+              type="text"
+              placeholder="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              className="w-full p-3 border border-gray-300 rounded-lg"
+            />
+          )}
+          <input
+            type="email"
+            placeholder="Email"
+            autoComplete="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="w-full p-3 border border-gray-300 rounded-lg"
+          />
+          <input
+            type="password"
+            placeholder="Password"
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            minLength={mode === 'register' ? 6 : undefined}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            className="w-full p-3 border border-gray-300 rounded-lg"
+          />
+          <button
+            type="submit"
+            disabled={submitting}
+            className={`w-full py-3 rounded-lg transition-colors ${
+              submitting ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 text-white hover:bg-blue-700'
+            }`}
+          >
+            {mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => {
+            setMode(mode === 'login' ? 'register' : 'login');
+            setError(null);
+          }}
+          className="mt-4 text-sm text-blue-600 hover:text-blue-700"
+        >
+          {mode === 'login' ? 'Need an account? Register' : 'Already registered? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Login;
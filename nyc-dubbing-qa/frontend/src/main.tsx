@@ -3,11 +3,14 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 import ErrorBoundary from './ErrorBoundary.tsx'
+import AuthGate from './AuthGate.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ErrorBoundary>
-      <App />
+      <AuthGate>
+        {(user, signOut) => <App user={user} onSignOut={signOut} />}
+      </AuthGate>
     </ErrorBoundary>
   </StrictMode>,
 )
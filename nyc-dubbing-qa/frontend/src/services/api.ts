@@ -9,10 +9,44 @@ const api = axios.create({
   },
 });
 
-// Add request interceptor for auth token if needed
+const ACCESS_TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+// Fired when the session cannot be refreshed and the user has to sign in again
+export const SESSION_EXPIRED_EVENT = 'auth:expired';
+
+export interface AuthSession {
+  user: { id: string; email: string; name: string; role: string };
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export const hasSession = () => !!localStorage.getItem(REFRESH_TOKEN_KEY);
+
+const saveSession = (session: AuthSession) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, session.accessToken);
+  localStorage.setItem(REFRESH_TOKEN_KEY, session.refreshToken);
+};
+
+const clearSession = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+// EventSource and <a href> cannot send headers; the server reads ?access_token= on GETs
+const withAccessToken = (url: string) => {
+  const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+  if (!token) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(token)}`;
+};
+
+// Stored media URLs (e.g. /storage/audio/...) are relative to the API server
+// and, like downloads, need the token in the query for <audio> to load them
+export const assetUrl = (url: string) => withAccessToken(new URL(url, API_BASE_URL).toString());
+
 api.interceptors.request.use(
   (config) => {
-    const token = localStorage.getItem('authToken');
+    const token = localStorage.getItem(ACCESS_TOKEN_KEY);
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -23,9 +57,108 @@ api.interceptors.request.use(
   }
 );
 
+// Refresh tokens are single-use, so concurrent 401s share one refresh
+let refreshing: Promise<void> | null = null;
+
+const refreshSession = () => {
+  refreshing ??= axios
+    .post(`${API_BASE_URL}/auth/refresh`, { refreshToken: localStorage.getItem(REFRESH_TOKEN_KEY) })
+    .then((response) => saveSession(response.data.data))
+    .catch((error) => {
+      clearSession();
+      window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT));
+      throw error;
+    })
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+};
+
+// An expired access token is refreshed once and the request retried
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = error.config;
+    if (
+      error.response?.status !== 401 ||
+      !config ||
+      config._retried ||
+      config.url?.startsWith('/auth/') ||
+      !hasSession()
+    ) {
+      return Promise.reject(error);
+    }
+    config._retried = true;
+    await refreshSession();
+    return api(config);
+  }
+);
+
+// Auth APIs
+export const authAPI = {
+  register: async (data: { email: string; password: string; name: string }) => {
+    const response = await api.post('/auth/register', data);
+    saveSession(response.data.data);
+    return response.data;
+  },
+
+  login: async (data: { email: string; password: string }) => {
+    const response = await api.post('/auth/login', data);
+    saveSession(response.data.data);
+    return response.data;
+  },
+
+  logout: async () => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    clearSession();
+    if (refreshToken) {
+      await api.post('/auth/logout', { refreshToken }).catch(() => undefined);
+    }
+  },
+
+  me: async () => {
+    const response = await api.get('/auth/me');
+    return response.data;
+  },
+};
+
+export interface PipelineEvent {
+  type: string;
+  videoId?: string;
+  jobId?: string;
+  language?: string;
+  progress?: number;
+  data?: {
+    completed?: number;
+    total?: number;
+    text?: string;
+    translatedText?: string;
+    confidence?: number;
+    [key: string]: unknown;
+  };
+  timestamp: string;
+}
+
+const PIPELINE_EVENTS = [
+  'snapshot',
+  'job.active',
+  'job.progress',
+  'job.completed',
+  'job.failed',
+  'transcription.chunk',
+  'translation.segment',
+  'tts.segment',
+  'performance',
+];
+
 // Video APIs
 export const videoAPI = {
-  upload: async (file: File, metadata: { title: string; description?: string; context?: string }) => {
+  upload: async (
+    file: File,
+    metadata: { title: string; description?: string; context?: string },
+    onProgress?: (percent: number) => void
+  ) => {
     const formData = new FormData();
     formData.append('video', file);
     formData.append('title', metadata.title);
@@ -36,15 +169,32 @@ export const videoAPI = {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) onProgress(Math.round((event.loaded / event.total) * 100));
+      },
     });
     return response.data;
   },
 
-  transcribe: async (videoId: string, options: { language?: string; prompt?: string }) => {
+  transcribe: async (videoId: string, options: { language?: string; prompt?: string; diarize?: boolean; numSpeakers?: number }) => {
     const response = await api.post(`/videos/${videoId}/transcribe`, options);
     return response.data;
   },
 
+  getJobs: async (videoId: string) => {
+    const response = await api.get(`/videos/${videoId}/jobs`);
+    return response.data;
+  },
+
+  // Server-Sent Events for everything running against the video; close the source when done
+  streamEvents: (videoId: string, onEvent: (type: string, event: PipelineEvent) => void) => {
+    const source = new EventSource(withAccessToken(`${API_BASE_URL}/videos/${videoId}/events`));
+    PIPELINE_EVENTS.forEach((type) =>
+      source.addEventListener(type, (e) => onEvent(type, JSON.parse((e as MessageEvent).data)))
+    );
+    return source;
+  },
+
   getTranscription: async (videoId: string) => {
     const response = await api.get(`/videos/${videoId}/transcription`);
     return response.data;
@@ -54,8 +204,25 @@ export const videoAPI = {
     const response = await api.put(`/videos/${videoId}/transcription/segments/${segmentId}`, data);
     return response.data;
   },
+
+  getSpeakers: async (videoId: string) => {
+    const response = await api.get(`/videos/${videoId}/speakers`);
+    return response.data;
+  },
+
+  renameSpeaker: async (videoId: string, speakerId: string, name: string) => {
+    const response = await api.patch(`/videos/${videoId}/speakers/${speakerId}`, { name });
+    return response.data;
+  },
+
+  mergeSpeakers: async (videoId: string, sourceSpeakerIds: string[], targetSpeakerId: string) => {
+    const response = await api.post(`/videos/${videoId}/speakers/merge`, { sourceSpeakerIds, targetSpeakerId });
+    return response.data;
+  },
 };
 
+export type SubtitleFormat = 'srt' | 'vtt' | 'ttml' | 'scc';
+
 // Translation APIs
 export const translationAPI = {
   translate: async (data: {
@@ -63,6 +230,7 @@ export const translationAPI = {
     targetLanguage: string;
     segments: Array<{ id: string; text: string; startTime: number; endTime: number }>;
     context?: string;
+    backTranslate?: boolean;
   }) => {
     const response = await api.post('/translation/translate', data);
     return response.data;
@@ -82,6 +250,20 @@ export const translationAPI = {
     const response = await api.get('/translation/languages');
     return response.data;
   },
+
+  getTranslations: async (videoId: string) => {
+    const response = await api.get(`/translation/${videoId}`);
+    return response.data;
+  },
+
+  getTranslation: async (videoId: string, language: string) => {
+    const response = await api.get(`/translation/${videoId}/${language}`);
+    return response.data;
+  },
+
+  // Direct link for <a href>; the server sends the file as an attachment
+  subtitlesUrl: (videoId: string, language: string, format: SubtitleFormat = 'srt') =>
+    withAccessToken(`${API_BASE_URL}/translation/${videoId}/${language}/subtitles?format=${format}`),
 };
 
 // Audio Generation APIs
@@ -98,14 +280,30 @@ export const audioAPI = {
       text: string;
       startTime: number;
       endTime: number;
+      speaker?: string;
     }>;
     voice?: string;
+    voices?: Record<string, string>;
     language: string;
   }) => {
     const response = await api.post('/dubbing/generate-audio', data);
     return response.data;
   },
 
+  approveTrack: async (dubbingId: string) => {
+    const response = await api.post(`/dubbing/tracks/${dubbingId}/approve`);
+    return response.data;
+  },
+
+  renderVideo: async (videoId: string, data: { language: string; dubbingId?: string; keepOriginalAudio?: boolean }) => {
+    const response = await api.post(`/dubbing/${videoId}/render`, data);
+    return response.data;
+  },
+
+  // Direct link for <a href>; the server sends the file as an attachment
+  downloadUrl: (videoId: string, language: string, type: 'video' | 'audio' = 'video') =>
+    withAccessToken(`${API_BASE_URL}/dubbing/${videoId}/download/${language}?type=${type}`),
+
   getAudioStatus: async (videoId: string) => {
     const response = await api.get(`/dubbing/${videoId}/status`);
     return response.data;
@@ -121,13 +319,21 @@ export const audioAPI = {
 
 // QA APIs
 export const qaAPI = {
-  approveSegment: async (videoId: string, segmentId: string) => {
-    const response = await api.post(`/qa/${videoId}/segments/${segmentId}/approve`);
+  approveSegment: async (
+    videoId: string,
+    segmentId: string,
+    data: { language: string; approvedText?: string; reviewerNotes?: string }
+  ) => {
+    const response = await api.post(`/translation/${videoId}/segments/${segmentId}/approve`, data);
     return response.data;
   },
 
-  rejectSegment: async (videoId: string, segmentId: string, reason: string) => {
-    const response = await api.post(`/qa/${videoId}/segments/${segmentId}/reject`, { reason });
+  rejectSegment: async (
+    videoId: string,
+    segmentId: string,
+    data: { language: string; reason: string; suggestedText?: string }
+  ) => {
+    const response = await api.post(`/translation/${videoId}/segments/${segmentId}/reject`, data);
     return response.data;
   },
 